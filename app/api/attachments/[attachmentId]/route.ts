@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { canReadAttachment, getAttachment } from '@/server/attachments';
+
+/**
+ * An attached image. Attachments the requester cannot read are reported
+ * as missing, so that their existence is not revealed either.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ attachmentId: string }> },
+) {
+  try {
+    const db = getDb();
+    const { attachmentId } = await params;
+
+    const attachment = getAttachment(db, attachmentId);
+    if (
+      !attachment ||
+      !canReadAttachment(db, attachment, request.cookies.getAll())
+    ) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 },
+      );
+    }
+
+    return new NextResponse(new Uint8Array(attachment.data), {
+      headers: {
+        'Content-Type': attachment.content_type,
+        'Content-Length': String(attachment.size),
+        // Attachments never change under the same URL; not shared between
+        // users since reading one needs access to its page
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to fetch attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  authenticate,
+  createSession,
+  deleteExpiredSessions,
+  getAuthMode,
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_MS,
+} from '@/server/auth';
+
+/**
+ * Sign in with a local account.
+ * Body: { username, password }
+ */
+export async function POST(request: Request) {
+  let body: { username?: unknown; password?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { username, password } = body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return NextResponse.json(
+      { error: 'username and password are required' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (getAuthMode() !== 'local') {
+      return NextResponse.json(
+        { error: 'Authentication is disabled' },
+        { status: 404 },
+      );
+    }
+
+    const db = getDb();
+    const user = authenticate(db, username, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 },
+      );
+    }
+
+    deleteExpiredSessions(db);
+    const token = createSession(db, user.id);
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        username: user.username,
+        display_name: user.display_name,
+      },
+    });
+    response.cookies.set(SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: new URL(request.url).protocol === 'https:',
+      path: '/',
+      maxAge: SESSION_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error) {
+    logger.error('Failed to sign in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { deleteSession, SESSION_COOKIE_NAME } from '@/server/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    if (token) {
+      deleteSession(getDb(), token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+  } catch (error) {
+    logger.error('Failed to sign out:', error);
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  getAuthMode,
+  getSessionUser,
+  SESSION_COOKIE_NAME,
+} from '@/server/auth';
+
+/**
+ * The authentication mode and the signed-in user, if any.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const mode = getAuthMode();
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    const user =
+      mode === 'local' && token ? getSessionUser(getDb(), token) : null;
+
+    return NextResponse.json({
+      mode,
+      user: user && {
+        id: user.id,
+        username: user.username,
+        display_name: user.display_name,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to fetch session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 },
+    );
+  }
+}
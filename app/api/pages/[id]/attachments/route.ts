@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  createAttachment,
+  getAttachmentUrl,
+  isAttachmentType,
+  MAX_ATTACHMENT_BYTES,
+} from '@/server/attachments';
+
+/**
+ * Upload an image for a page. The body is the image itself, with its
+ * type as the Content-Type (image/png, image/jpeg, image/gif or
+ * image/webp).
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const contentType = (request.headers.get('content-type') ?? '')
+    .split(';')[0]
+    .trim()
+    .toLowerCase();
+  if (!isAttachmentType(contentType)) {
+    return NextResponse.json(
+      { error: 'Content-Type must be a PNG, JPEG, GIF or WebP image' },
+      { status: 415 },
+    );
+  }
+
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_ATTACHMENT_BYTES) {
+    return NextResponse.json(
+      { error: `Attachments must be at most ${MAX_ATTACHMENT_BYTES} bytes` },
+      { status: 413 },
+    );
+  }
+
+  try {
+    const data = Buffer.from(await request.arrayBuffer());
+    if (data.length === 0) {
+      return NextResponse.json(
+        { error: 'Request body is empty' },
+        { status: 400 },
+      );
+    }
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      return NextResponse.json(
+        { error: `Attachments must be at most ${MAX_ATTACHMENT_BYTES} bytes` },
+        { status: 413 },
+      );
+    }
+
+    const db = getDb();
+    const { id } = await params;
+
+    const attachment = createAttachment(db, id, contentType, data);
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Page not found or archived' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        id: attachment.id,
+        url: getAttachmentUrl(attachment.id),
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    logger.error('Failed to upload attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { yDocToMarkdown } from '@/server/markdown';
+import { YjsSqlitePersistence } from '@/server/yjs-sqlite-persistence';
+
+/**
+ * Page content as Markdown, for scripts and other tools.
+ * There is intentionally no UI for this (see ADR-0007).
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const db = getDb();
+    const { id } = await params;
+
+    const page = db.prepare('SELECT id FROM pages WHERE id = ?').get(id);
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    const ydoc = new YjsSqlitePersistence(db).getYDoc(id);
+    try {
+      const markdown = await yDocToMarkdown(ydoc);
+      return new NextResponse(markdown, {
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+      });
+    } finally {
+      ydoc.destroy();
+    }
+  } catch (error) {
+    logger.error('Failed to export page as Markdown:', error);
+    return NextResponse.json(
+      { error: 'Failed to export page as Markdown' },
+      { status: 500 },
+    );
+  }
+}
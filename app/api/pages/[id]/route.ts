@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import getDb from '@/lib/db';
 import { logger } from '@/lib/logger';
+import { deletePage } from '@/server/delete-page';
 
 export async function GET(
   request: Request,
@@ -40,14 +41,7 @@ export async function DELETE(
     const db = getDb();
     const { id } = await params;
 
-    const deleteTransaction = db.transaction(() => {
-      db.prepare('DELETE FROM yjs_updates WHERE doc_name = ?').run(id);
-      return db.prepare('DELETE FROM pages WHERE id = ?').run(id);
-    });
-
-    const result = deleteTransaction();
-
-    if (result.changes === 0) {
+    if (!deletePage(db, id)) {
       return NextResponse.json({ error: 'Page not found' }, { status: 404 });
     }
 
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  getInternalRequestHeaders,
+  WS_SERVER_URL,
+} from '@/server/internal-api';
+import { revokeShare } from '@/server/page-shares';
+
+/**
+ * Revoke a share link. Connections already open with it are closed by
+ * the WebSocket server.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; shareId: string }> },
+) {
+  try {
+    const db = getDb();
+    const { id, shareId } = await params;
+
+    if (!revokeShare(db, id, shareId)) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+
+    // New connections are already refused; failing to reach the server
+    // only leaves open sessions running until they reconnect
+    try {
+      const response = await fetch(
+        `${WS_SERVER_URL}/shares/${encodeURIComponent(shareId)}/revoke`,
+        { method: 'POST', headers: getInternalRequestHeaders(db) },
+      );
+      if (!response.ok) {
+        logger.error(
+          `Share revocation rejected by collaboration server: ${response.status}`,
+        );
+      }
+    } catch (error) {
+      logger.error('Collaboration server unreachable for revocation:', error);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to revoke page share:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke page share' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  createShare,
+  DEFAULT_SHARE_TTL_SECONDS,
+  isShareScope,
+  listShares,
+  MAX_SHARE_TTL_SECONDS,
+} from '@/server/page-shares';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const db = getDb();
+    const { id } = await params;
+
+    const page = db.prepare('SELECT id FROM pages WHERE id = ?').get(id);
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(listShares(db, id));
+  } catch (error) {
+    logger.error('Failed to fetch page shares:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch page shares' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Create a share link.
+ * Body: { scope: 'read' | 'suggest' | 'write', expires_in?: seconds }
+ * The token is only returned here; it cannot be retrieved later.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  let body: { scope?: unknown; expires_in?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { scope, expires_in: ttlSeconds = DEFAULT_SHARE_TTL_SECONDS } =
+    body ?? {};
+  if (!isShareScope(scope)) {
+    return NextResponse.json(
+      { error: "scope must be 'read', 'suggest' or 'write'" },
+      { status: 400 },
+    );
+  }
+  if (
+    typeof ttlSeconds !== 'number' ||
+    !Number.isInteger(ttlSeconds) ||
+    ttlSeconds <= 0 ||
+    ttlSeconds > MAX_SHARE_TTL_SECONDS
+  ) {
+    return NextResponse.json(
+      {
+        error: `expires_in must be an integer between 1 and ${MAX_SHARE_TTL_SECONDS} seconds`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const db = getDb();
+    const { id } = await params;
+
+    const share = createShare(db, id, { scope, ttlSeconds });
+    if (!share) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        id: share.id,
+        scope: share.scope,
+        expires_at: share.expires_at,
+        token: share.token,
+        url: `/s/${share.token}`,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    logger.error('Failed to create page share:', error);
+    return NextResponse.json(
+      { error: 'Failed to create page share' },
+      { status: 500 },
+    );
+  }
+}
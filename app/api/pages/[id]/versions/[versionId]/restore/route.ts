@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  getInternalRequestHeaders,
+  WS_SERVER_URL,
+} from '@/server/internal-api';
+import { getPageSnapshot } from '@/server/page-snapshots';
+
+/**
+ * Restore a version. It is applied by the WebSocket server, which owns
+ * the live documents.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> },
+) {
+  try {
+    const db = getDb();
+    const { id, versionId } = await params;
+
+    const page = db
+      .prepare('SELECT archived_at FROM pages WHERE id = ?')
+      .get(id) as { archived_at: number | null } | undefined;
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+    if (page.archived_at !== null) {
+      return NextResponse.json(
+        { error: 'Archived pages cannot be restored' },
+        { status: 409 },
+      );
+    }
+
+    const snapshotId = Number(versionId);
+    if (!Number.isInteger(snapshotId) || !getPageSnapshot(db, id, snapshotId)) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(
+        `${WS_SERVER_URL}/pages/${encodeURIComponent(id)}/versions/${snapshotId}/restore`,
+        { method: 'POST', headers: getInternalRequestHeaders(db) },
+      );
+    } catch (error) {
+      logger.error('Collaboration server unreachable for restore:', error);
+      return NextResponse.json(
+        { error: 'Collaboration server unavailable' },
+        { status: 503 },
+      );
+    }
+
+    if (!response.ok) {
+      logger.error(
+        `Restore rejected by collaboration server: ${response.status}`,
+      );
+      return NextResponse.json(
+        { error: 'Failed to restore page version' },
+        { status: response.status === 404 ? 404 : 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to restore page version:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore page version' },
+      { status: 500 },
+    );
+  }
+}
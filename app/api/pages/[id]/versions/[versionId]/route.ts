@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  getPageSnapshot,
+  renderSnapshotContent,
+} from '@/server/page-snapshots';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> },
+) {
+  try {
+    const db = getDb();
+    const { id, versionId } = await params;
+
+    const snapshotId = Number(versionId);
+    const row = Number.isInteger(snapshotId)
+      ? getPageSnapshot(db, id, snapshotId)
+      : undefined;
+
+    if (!row) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      id: row.id,
+      title: row.title,
+      created_at: row.created_at,
+      content: renderSnapshotContent(row),
+    });
+  } catch (error) {
+    logger.error('Failed to fetch page version:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch page version' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getPageSnapshot } from '@/server/page-snapshots';
+
+/**
+ * Raw Yjs state (v1 update) of a snapshot, used by the diff view to
+ * render changes between two versions.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> },
+) {
+  try {
+    const db = getDb();
+    const { id, versionId } = await params;
+
+    const snapshotId = Number(versionId);
+    const row = Number.isInteger(snapshotId)
+      ? getPageSnapshot(db, id, snapshotId)
+      : undefined;
+
+    if (!row) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(row.state), {
+      headers: { 'Content-Type': 'application/octet-stream' },
+    });
+  } catch (error) {
+    logger.error('Failed to fetch page version state:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch page version state' },
+      { status: 500 },
+    );
+  }
+}
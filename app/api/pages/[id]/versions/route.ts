@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { listPageSnapshots } from '@/server/page-snapshots';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const db = getDb();
+    const { id } = await params;
+
+    const page = db.prepare('SELECT id FROM pages WHERE id = ?').get(id);
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(listPageSnapshots(db, id));
+  } catch (error) {
+    logger.error('Failed to fetch page versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch page versions' },
+      { status: 500 },
+    );
+  }
+}
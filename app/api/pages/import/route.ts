@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { generateId } from '@/lib/id';
+import { logger } from '@/lib/logger';
+import { importMarkdownPage } from '@/server/import-markdown';
+
+/**
+ * Create a page from a Markdown request body (Content-Type: text/markdown).
+ */
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (!contentType.toLowerCase().startsWith('text/markdown')) {
+      return NextResponse.json(
+        { error: 'Content-Type must be text/markdown' },
+        { status: 415 },
+      );
+    }
+
+    const markdown = await request.text();
+    if (!markdown.trim()) {
+      return NextResponse.json(
+        { error: 'Markdown body is empty' },
+        { status: 400 },
+      );
+    }
+
+    const db = getDb();
+    const id = generateId();
+    const title = await importMarkdownPage(db, id, markdown);
+
+    return NextResponse.json({ success: true, id, title }, { status: 201 });
+  } catch (error) {
+    logger.error('Failed to import Markdown page:', error);
+    return NextResponse.json(
+      { error: 'Failed to import Markdown page' },
+      { status: 500 },
+    );
+  }
+}
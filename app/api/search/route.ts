@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { searchPages } from '@/server/page-search';
+
+export async function GET(request: Request) {
+  try {
+    const query = new URL(request.url).searchParams.get('q') ?? '';
+    if (!query.trim()) {
+      return NextResponse.json([]);
+    }
+
+    const db = getDb();
+    return NextResponse.json(searchPages(db, query));
+  } catch (error) {
+    logger.error('Failed to search pages:', error);
+    return NextResponse.json(
+      { error: 'Failed to search pages' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { ATTACHMENTS_PATH } from '@/server/attachments';
+import { getShareCookieName, verifyShareToken } from '@/server/page-shares';
+
+/**
+ * Page metadata for a share link holder.
+ * The page ID is deliberately left out of the response. The token is
+ * also stored in a cookie that lets the browser load the page's images.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  try {
+    const db = getDb();
+    const { token } = await params;
+
+    const grant = verifyShareToken(db, token);
+    const page =
+      grant &&
+      (db
+        .prepare('SELECT title, archived_at FROM pages WHERE id = ?')
+        .get(grant.pageId) as
+        | { title: string; archived_at: number | null }
+        | undefined);
+    if (!grant || !page) {
+      return NextResponse.json(
+        { error: 'Share link is invalid or expired' },
+        { status: 404 },
+      );
+    }
+
+    const response = NextResponse.json({
+      title: page.title,
+      archived_at: page.archived_at,
+      scope: grant.scope,
+      expires_at: grant.expiresAt,
+    });
+    response.cookies.set(getShareCookieName(grant.shareId), token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: new URL(request.url).protocol === 'https:',
+      path: ATTACHMENTS_PATH,
+      expires: new Date(grant.expiresAt),
+    });
+    return response;
+  } catch (error) {
+    logger.error('Failed to resolve share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve share link' },
+      { status: 500 },
+    );
+  }
+}
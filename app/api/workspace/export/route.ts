@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { exportWorkspace } from '@/server/workspace-archive';
+
+/**
+ * Zip archive of every page. `?yjs=1` also includes the raw Yjs state.
+ * Used by scripts/workspace.ts; there is no UI for this (see ADR-0007).
+ */
+export async function GET(request: Request) {
+  try {
+    const includeYjsState =
+      new URL(request.url).searchParams.get('yjs') === '1';
+
+    const db = getDb();
+    const now = Date.now();
+    const archive = await exportWorkspace(db, { includeYjsState }, now);
+    const date = new Date(now).toISOString().slice(0, 10);
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="workspace-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to export workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to export workspace' },
+      { status: 500 },
+    );
+  }
+}
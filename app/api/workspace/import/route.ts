@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import getDb from '@/lib/db';
+import { generateId } from '@/lib/id';
+import { logger } from '@/lib/logger';
+import {
+  importWorkspace,
+  InvalidWorkspaceArchiveError,
+} from '@/server/workspace-archive';
+
+/**
+ * Recreate pages from a workspace archive (Content-Type: application/zip).
+ */
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (!contentType.toLowerCase().startsWith('application/zip')) {
+      return NextResponse.json(
+        { error: 'Content-Type must be application/zip' },
+        { status: 415 },
+      );
+    }
+
+    const archive = new Uint8Array(await request.arrayBuffer());
+    const db = getDb();
+    const pages = await importWorkspace(db, archive, generateId);
+
+    return NextResponse.json({ success: true, pages }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    logger.error('Failed to import workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to import workspace' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { redirect } from 'next/navigation';
+import LoginForm from '@/components/LoginForm';
+import { getAuthMode } from '@/server/auth';
+
+export const dynamic = 'force-dynamic';
+
+// Only same-origin paths are followed after signing in
+function safeNextPath(next: string | string[] | undefined): string {
+  if (typeof next !== 'string') return '/';
+  return next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string | string[] }>;
+}) {
+  const { next } = await searchParams;
+  if (getAuthMode() === 'anonymous') {
+    redirect(safeNextPath(next));
+  }
+
+  return (
+    <main className="h-dvh flex items-center justify-center">
+      <LoginForm next={safeNextPath(next)} />
+    </main>
+  );
+}
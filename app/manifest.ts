@@ -0,0 +1,20 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Markdown Board',
+    short_name: 'Markdown Board',
+    description: '共同編集できるMarkdownメモボード',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#f5eae6',
+    theme_color: '#f5eae6',
+    icons: [
+      {
+        src: '/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+      },
+    ],
+  };
+}
@@ -0,0 +1,28 @@
+import EditorErrorBoundary from '@/components/EditorErrorBoundary';
+import VersionDiff from '@/components/VersionDiff';
+
+function parseVersionId(value: string | string[] | undefined): number | null {
+  const id = Number(value);
+  return typeof value === 'string' && Number.isInteger(id) ? id : null;
+}
+
+export default async function PageDiffView({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ from?: string | string[]; to?: string | string[] }>;
+}) {
+  const { id } = await params;
+  const { from, to } = await searchParams;
+
+  return (
+    <EditorErrorBoundary>
+      <VersionDiff
+        pageId={id}
+        from={parseVersionId(from)}
+        to={parseVersionId(to)}
+      />
+    </EditorErrorBoundary>
+  );
+}
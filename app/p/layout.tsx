@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback, useEffect, useRef } from 'react';
+import AccountMenu from '@/components/AccountMenu';
 import Sidebar from '@/components/Sidebar';
 
 export default function PageLayout({
@@ -41,6 +42,7 @@ export default function PageLayout({
         aria-modal={sidebarOpen || undefined}
       >
         <Sidebar onNavigate={closeSidebar} />
+        <AccountMenu />
       </aside>
 
       {/* Mobile sidebar backdrop */}
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next';
+import EditorErrorBoundary from '@/components/EditorErrorBoundary';
+import MarkdownEditor from '@/components/MarkdownEditor';
+
+// Share links are private; keep them out of search engines
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default async function SharedPageView({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  return (
+    <div className="h-dvh flex flex-col overflow-auto">
+      <EditorErrorBoundary>
+        <MarkdownEditor shareToken={token} />
+      </EditorErrorBoundary>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useSession } from '@/hooks/useSession';
+import { logResponseError } from '@/lib/api';
+import { logger } from '@/lib/logger';
+import { clearOfflineCaches } from '@/lib/offline-cache';
+
+// Caches still open in other tabs must not hold up signing out
+const CLEAR_CACHE_TIMEOUT_MS = 2000;
+
+/**
+ * Signed-in user and sign-out button. Renders nothing in anonymous mode.
+ */
+export default function AccountMenu() {
+  const { session } = useSession();
+  const [signingOut, setSigningOut] = useState(false);
+
+  const handleSignOut = useCallback(async () => {
+    setSigningOut(true);
+    try {
+      const response = await fetch('/api/auth/logout', { method: 'POST' });
+      if (response.ok) {
+        // Cached pages must not outlive the session
+        await clearOfflineCaches(CLEAR_CACHE_TIMEOUT_MS);
+        // Full reload so the WebSocket connection is dropped as well
+        window.location.assign('/login');
+        return;
+      }
+      await logResponseError('Sign out', response);
+    } catch (error) {
+      logger.error('[AccountMenu] Sign out failed:', error);
+    }
+    setSigningOut(false);
+  }, []);
+
+  if (!session?.user) return null;
+
+  return (
+    <div className="account-menu" data-testid="account-menu">
+      <span className="account-menu-name" title={session.user.username}>
+        {session.user.display_name}
+      </span>
+      <button
+        onClick={handleSignOut}
+        disabled={signingOut}
+        className="account-menu-button"
+      >
+        ログアウト
+      </button>
+    </div>
+  );
+}
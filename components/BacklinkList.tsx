@@ -0,0 +1,36 @@
+'use client';
+
+import Link from 'next/link';
+import type { BacklinkItem } from '@/lib/types';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface BacklinkListProps {
+  backlinks: BacklinkItem[];
+}
+
+/**
+ * Pages linking to the open page, shown below the editor.
+ */
+export default function BacklinkList({ backlinks }: BacklinkListProps) {
+  return (
+    <section className="backlinks max-w-4xl mx-auto" aria-label="バックリンク">
+      <h2 className="backlinks-heading">
+        このページへのリンク（{backlinks.length}）
+      </h2>
+      <ul className="backlinks-items">
+        {backlinks.map((backlink) => (
+          <li key={backlink.id}>
+            <Link href={`/p/${backlink.id}`} className="backlinks-item">
+              <span className="backlinks-title">
+                {backlink.title || 'Untitled'}
+              </span>
+              <time dateTime={new Date(backlink.updated_at).toISOString()}>
+                {formatRelativeTime(backlink.updated_at)}
+              </time>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useLayoutEffect, useRef, useState } from 'react';
+import type { CommentDraft, PlacedCommentThread } from '@/hooks/useComments';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface CommentMarginProps {
+  threads: PlacedCommentThread[];
+  draft: CommentDraft | null;
+  activeThreadId: string | null;
+  readOnly: boolean;
+  onActivate: (threadId: string) => void;
+  onSubmitDraft: (body: string) => void;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string) => void;
+  onResolve: (threadId: string, resolved: boolean) => void;
+}
+
+// Vertical space kept between stacked cards (in pixels)
+const CARD_GAP = 8;
+const DRAFT_KEY = 'draft';
+
+function CommentForm({
+  placeholder,
+  submitLabel,
+  autoFocus = false,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState('');
+
+  return (
+    <form
+      className="comment-form"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+        onSubmit(body);
+        setBody('');
+      }}
+    >
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className="comment-textarea"
+      />
+      <div className="comment-actions">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="comment-button">
+            キャンセル
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!body.trim()}
+          className="comment-button comment-button-primary"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Comment threads beside the editor, each placed next to its text.
+ * Cards that would overlap are pushed down; threads whose text was
+ * deleted are listed at the end.
+ */
+export default function CommentMargin({
+  threads,
+  draft,
+  activeThreadId,
+  readOnly,
+  onActivate,
+  onSubmitDraft,
+  onCancelDraft,
+  onReply,
+  onResolve,
+}: CommentMarginProps) {
+  const [showResolved, setShowResolved] = useState(false);
+  const cardRefs = useRef(new Map<string, HTMLElement>());
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const visible = threads.filter((thread) => showResolved || !thread.resolved);
+  const placed = visible.filter((thread) => thread.top !== null);
+  const detached = visible.filter((thread) => thread.top === null);
+  const resolvedCount = threads.filter((thread) => thread.resolved).length;
+
+  // Stack cards in text order so that none of them overlap. Positions
+  // depend on rendered heights, so they are written to the DOM directly.
+  useLayoutEffect(() => {
+    const cards = threads
+      .filter((thread) => showResolved || !thread.resolved)
+      .flatMap((thread) =>
+        thread.top === null ? [] : [{ key: thread.id, top: thread.top }],
+      );
+    if (draft?.top != null) cards.push({ key: DRAFT_KEY, top: draft.top });
+    cards.sort((a, b) => a.top - b.top);
+
+    let bottom = 0;
+    for (const card of cards) {
+      const element = cardRefs.current.get(card.key);
+      if (!element) continue;
+      const top = Math.max(card.top, bottom);
+      element.style.top = `${top}px`;
+      bottom = top + element.offsetHeight + CARD_GAP;
+    }
+    // Absolutely placed cards take no space; keep room for them
+    if (trackRef.current) trackRef.current.style.minHeight = `${bottom}px`;
+  }, [threads, draft, showResolved, activeThreadId]);
+
+  const setCardRef = (key: string) => (element: HTMLElement | null) => {
+    if (element) {
+      cardRefs.current.set(key, element);
+    } else {
+      cardRefs.current.delete(key);
+    }
+  };
+
+  const renderThread = (thread: PlacedCommentThread, positioned: boolean) => {
+    const active = thread.id === activeThreadId;
+    return (
+      <section
+        key={thread.id}
+        ref={positioned ? setCardRef(thread.id) : undefined}
+        aria-label={`コメント: ${thread.quote}`}
+        className={`comment-card${active ? ' comment-card-active' : ''}${thread.resolved ? ' comment-card-resolved' : ''}`}
+        style={positioned ? { top: thread.top! } : undefined}
+        onClick={() => onActivate(thread.id)}
+      >
+        <blockquote className="comment-quote">{thread.quote}</blockquote>
+        <ul className="comment-entries">
+          {thread.comments.map((comment) => (
+            <li key={comment.id} className="comment-entry">
+              <div className="comment-meta">
+                <span className="comment-author">{comment.author}</span>
+                <time dateTime={new Date(comment.createdAt).toISOString()}>
+                  {formatRelativeTime(comment.createdAt)}
+                </time>
+              </div>
+              <p className="comment-body">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+        {!readOnly && (
+          <>
+            {active && !thread.resolved && (
+              <CommentForm
+                placeholder="返信を入力"
+                submitLabel="返信"
+                onSubmit={(body) => onReply(thread.id, body)}
+              />
+            )}
+            <div className="comment-actions">
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onResolve(thread.id, !thread.resolved);
+                }}
+                className="comment-button"
+              >
+                {thread.resolved ? '再開' : '解決'}
+              </button>
+            </div>
+          </>
+        )}
+      </section>
+    );
+  };
+
+  return (
+    <aside className="comment-margin" aria-label="コメント">
+      {resolvedCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowResolved(!showResolved)}
+          aria-pressed={showResolved}
+          className="comment-button comment-resolved-toggle"
+        >
+          解決済み（{resolvedCount}）を{showResolved ? '隠す' : '表示'}
+        </button>
+      )}
+
+      <div ref={trackRef} className="comment-track">
+        {draft && (
+          <section
+            ref={draft.top !== null ? setCardRef(DRAFT_KEY) : undefined}
+            aria-label="新しいコメント"
+            className="comment-card comment-card-active"
+            style={draft.top !== null ? { top: draft.top } : undefined}
+          >
+            <blockquote className="comment-quote">{draft.quote}</blockquote>
+            <CommentForm
+              placeholder="コメントを入力"
+              submitLabel="コメント"
+              autoFocus
+              onSubmit={onSubmitDraft}
+              onCancel={onCancelDraft}
+            />
+          </section>
+        )}
+        {placed.map((thread) => renderThread(thread, true))}
+      </div>
+
+      {detached.length > 0 && (
+        <div className="comment-detached">
+          <p className="comment-detached-label">
+            削除されたテキストへのコメント
+          </p>
+          {detached.map((thread) => renderThread(thread, false))}
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useCallback, useState, type FormEvent } from 'react';
+import { logger } from '@/lib/logger';
+
+export default function LoginForm({ next }: { next: string }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      setSubmitting(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/auth/login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ username, password }),
+        });
+        if (response.ok) {
+          window.location.assign(next);
+          return;
+        }
+        setError(
+          response.status === 401
+            ? 'ユーザー名またはパスワードが違います'
+            : 'ログインに失敗しました',
+        );
+      } catch (error) {
+        logger.error('[LoginForm] Sign in failed:', error);
+        setError('接続に失敗しました');
+      }
+      setSubmitting(false);
+    },
+    [username, password, next],
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="login-form">
+      <h1 className="login-title">Markdown Board</h1>
+      <label className="login-label">
+        ユーザー名
+        <input
+          className="login-input"
+          name="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+          autoFocus
+        />
+      </label>
+      <label className="login-label">
+        パスワード
+        <input
+          className="login-input"
+          name="password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </label>
+      {error && (
+        <p role="alert" className="login-error">
+          {error}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={submitting}
+        className="error-boundary-button"
+      >
+        ログイン
+      </button>
+    </form>
+  );
+}
@@ -3,11 +3,21 @@
 import { useEffect, useState, useCallback } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { useBacklinks } from '@/hooks/useBacklinks';
 import { useCollabEditor } from '@/hooks/useCollabEditor';
-import type { PageError } from '@/hooks/usePageExists';
+import { useComments } from '@/hooks/useComments';
+import { usePageLinks } from '@/hooks/usePageLinks';
+import { useSuggestions } from '@/hooks/useSuggestions';
+import type { PageError, PageTarget } from '@/hooks/usePageExists';
 import { logResponseError } from '@/lib/api';
 import { logger } from '@/lib/logger';
+import { getDisplayName } from '@/lib/display-name';
 import { UnarchiveIcon } from './Icons';
+import PeerIndicator from './PeerIndicator';
+import CommentMargin from './CommentMargin';
+import BacklinkList from './BacklinkList';
+import SuggestionList from './SuggestionList';
+import 'katex/dist/katex.min.css';
 import '../app/milkdown.css';
 
 const errorMessages: Record<PageError, string> = {
@@ -15,13 +25,39 @@ const errorMessages: Record<PageError, string> = {
   'network-error': '接続に失敗しました',
 };
 
-export default function MarkdownEditor({ pageId }: { pageId: string }) {
-  const { loading, error, readOnly, peerCount, wsConnected, editorRef } =
-    useCollabEditor(pageId);
+export default function MarkdownEditor(target: PageTarget) {
+  const {
+    loading,
+    error,
+    readOnly,
+    suggestOnly,
+    peerCount,
+    peers,
+    displayName,
+    scrollToPeer,
+    changeDisplayName,
+    wsConnected,
+    editorRef,
+    instance,
+    showAuthors,
+    setShowAuthors,
+  } = useCollabEditor(target);
+  const comments = useComments(instance, editorRef);
+  usePageLinks(instance, editorRef);
+  const pageId = 'pageId' in target ? target.pageId : null;
+  const { backlinks } = useBacklinks(pageId);
+  const [suggesting, setSuggesting] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const { suggestions, accept, reject, scrollToSuggestion } = useSuggestions(
+    instance,
+    !readOnly && (suggesting || suggestOnly),
+    displayName ?? '',
+  );
   const [unarchiving, setUnarchiving] = useState(false);
   const router = useRouter();
 
   const handleUnarchive = useCallback(async () => {
+    if (!pageId) return;
     setUnarchiving(true);
     try {
       const response = await fetch(`/api/pages/${pageId}/unarchive`, {
@@ -40,6 +76,14 @@ export default function MarkdownEditor({ pageId }: { pageId: string }) {
     }
   }, [pageId, router]);
 
+  const handleRename = useCallback(() => {
+    const name = window.prompt(
+      '表示名を入力してください（このページを編集済みの場合、作成者の表示は次に開いたときから反映されます）',
+      displayName ?? getDisplayName(),
+    );
+    if (name !== null) changeDisplayName(name);
+  }, [displayName, changeDisplayName]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Ctrl+S / Cmd+S: suppress browser save dialog
@@ -61,8 +105,8 @@ export default function MarkdownEditor({ pageId }: { pageId: string }) {
         e.preventDefault();
       }
 
-      // Escape: unfocus from editor
-      if (e.key === 'Escape') {
+      // Escape: unfocus from editor, unless it closed a menu in the editor
+      if (e.key === 'Escape' && !e.defaultPrevented) {
         const activeElement = document.activeElement;
         if (
           activeElement instanceof HTMLElement &&
@@ -106,8 +150,30 @@ export default function MarkdownEditor({ pageId }: { pageId: string }) {
 
   return (
     <div className="flex-1 flex flex-col min-h-0 relative">
+      {/* Banner for read-only share links */}
+      {readOnly && !pageId && (
+        <div
+          role="status"
+          className="archive-banner"
+          data-testid="share-banner"
+        >
+          <span>閲覧専用の共有リンクです</span>
+        </div>
+      )}
+
+      {/* Banner for share links that edit through suggestions */}
+      {suggestOnly && (
+        <div
+          role="status"
+          className="archive-banner"
+          data-testid="suggest-banner"
+        >
+          <span>変更は提案として記録され、ページの所有者が承認します</span>
+        </div>
+      )}
+
       {/* Archive banner for read-only archived pages */}
-      {readOnly && (
+      {readOnly && pageId && (
         <div
           role="status"
           className="archive-banner"
@@ -127,7 +193,7 @@ export default function MarkdownEditor({ pageId }: { pageId: string }) {
       )}
 
       {/* Indicators container (fixed, top-right) */}
-      {!readOnly && (!wsConnected || peerCount > 0) && (
+      {(!readOnly || !pageId) && (!wsConnected || peerCount > 0) && (
         <div className="indicators-container">
           {!wsConnected && (
             <div
@@ -160,42 +226,102 @@ export default function MarkdownEditor({ pageId }: { pageId: string }) {
             </div>
           )}
           {peerCount > 0 && (
-            <div
-              role="status"
-              aria-live="polite"
-              aria-label={`他に${peerCount}人が接続中`}
-              title={`他に${peerCount}人が接続中`}
-              className="peer-count-indicator"
-            >
-              <svg
-                width="14"
-                height="14"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                aria-hidden="true"
-              >
-                <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
-                <circle cx="9" cy="7" r="4" />
-                <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
-                <path d="M16 3.13a4 4 0 0 1 0 7.75" />
-              </svg>
-              {peerCount}
-              <span aria-hidden="true">人</span>
-            </div>
+            <PeerIndicator
+              peers={peers}
+              displayName={displayName}
+              onSelectPeer={scrollToPeer}
+              onRename={handleRename}
+            />
           )}
         </div>
       )}
 
-      <div className="flex-1 min-h-0 overflow-auto">
-        <div
-          ref={editorRef}
-          className="milkdown max-w-4xl mx-auto"
-          style={{ padding: '0 1rem' }}
+      {/* Editor controls (fixed, bottom-right) */}
+      <div className="editor-controls">
+        {showAuthors && !readOnly && (
+          <button
+            type="button"
+            onClick={handleRename}
+            className="editor-control-button"
+          >
+            表示名を変更
+          </button>
+        )}
+        {(suggestions.length > 0 || showSuggestions) && (
+          <button
+            type="button"
+            onClick={() => setShowSuggestions(!showSuggestions)}
+            aria-pressed={showSuggestions}
+            className="editor-control-button"
+          >
+            提案（{suggestions.length}）
+          </button>
+        )}
+        {!readOnly && !suggestOnly && (
+          <button
+            type="button"
+            onClick={() => setSuggesting(!suggesting)}
+            aria-pressed={suggesting}
+            title="編集内容を直接反映せず、承認待ちの提案として記録します"
+            className="editor-control-button"
+          >
+            提案モード
+          </button>
+        )}
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={comments.startDraft}
+            title="選択したテキスト（未選択のときはカーソルのある段落）にコメントします"
+            className="editor-control-button"
+          >
+            コメント
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowAuthors(!showAuthors)}
+          aria-pressed={showAuthors}
+          aria-label="作成者を表示"
+          title="テキストを作成者ごとに色分けします"
+          className="editor-control-button"
+        >
+          作成者
+        </button>
+      </div>
+
+      {showSuggestions && (
+        <SuggestionList
+          suggestions={suggestions}
+          canReview={!readOnly && !!pageId}
+          onSelect={scrollToSuggestion}
+          onAccept={accept}
+          onReject={reject}
         />
+      )}
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        <div className="comment-layout">
+          <div
+            ref={editorRef}
+            className="milkdown max-w-4xl mx-auto"
+            style={{ padding: '0 1rem' }}
+          />
+          {(comments.threads.length > 0 || comments.draft) && (
+            <CommentMargin
+              threads={comments.threads}
+              draft={comments.draft}
+              activeThreadId={comments.activeThreadId}
+              readOnly={readOnly}
+              onActivate={comments.setActiveThreadId}
+              onSubmitDraft={comments.submitDraft}
+              onCancelDraft={comments.cancelDraft}
+              onReply={comments.reply}
+              onResolve={comments.setResolved}
+            />
+          )}
+        </div>
+        {backlinks.length > 0 && <BacklinkList backlinks={backlinks} />}
       </div>
     </div>
   );
@@ -1,11 +1,13 @@
 import { ReactNode } from 'react';
 import { formatRelativeTime } from '@/lib/utils';
+import type { SearchSnippetPart } from '@/lib/types';
 
 interface PageListItemProps {
   dataTestId: string;
   title: string;
   timestamp: number;
   now: number;
+  snippet?: SearchSnippetPart[];
   opacity: number;
   active?: boolean;
   onNavigate?: () => void;
@@ -22,6 +24,7 @@ export default function PageListItem({
   title,
   timestamp,
   now,
+  snippet,
   opacity,
   active,
   onNavigate,
@@ -50,6 +53,32 @@ export default function PageListItem({
       >
         {title}
       </h3>
+      {snippet && snippet.length > 0 && (
+        <p
+          data-testid={`${dataTestId}-snippet`}
+          style={{
+            color: 'var(--foreground-muted)',
+            fontSize: '12px',
+            margin: 0,
+            marginBottom: '2px',
+            overflow: 'hidden',
+            display: '-webkit-box',
+            WebkitLineClamp: 2,
+            WebkitBoxOrient: 'vertical',
+            wordBreak: 'break-all',
+          }}
+        >
+          {snippet.map((part, index) =>
+            part.match ? (
+              <mark key={index} className="search-highlight">
+                {part.text}
+              </mark>
+            ) : (
+              <span key={index}>{part.text}</span>
+            ),
+          )}
+        </p>
+      )}
       <p
         style={{
           color: 'var(--foreground-muted)',
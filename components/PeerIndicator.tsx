@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import type { Peer } from '@/hooks/useCollabEditor';
+
+interface PeerIndicatorProps {
+  peers: Peer[];
+  displayName: string | null;
+  onSelectPeer: (clientId: number) => void;
+  onRename?: () => void;
+}
+
+const UNNAMED_PEER = '名前なし';
+
+function avatarInitial(name: string | null): string {
+  return name ? Array.from(name)[0].toUpperCase() : '?';
+}
+
+function describeLocation(location: string | null): string {
+  if (location === null) return 'カーソルなし';
+  if (location === '') return '空の行';
+  return `「${location}」`;
+}
+
+/**
+ * Number of other people on the page. Hovering or clicking it lists
+ * them with where their cursor is; choosing one scrolls to the cursor.
+ */
+export default function PeerIndicator({
+  peers,
+  displayName,
+  onSelectPeer,
+  onRename,
+}: PeerIndicatorProps) {
+  const [hovered, setHovered] = useState(false);
+  const [pinned, setPinned] = useState(false);
+  const open = hovered || pinned;
+
+  return (
+    <div
+      className="peer-indicator"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
+      <div role="status" aria-live="polite" className="peer-count-indicator">
+        <button
+          type="button"
+          onClick={() => setPinned(!pinned)}
+          aria-expanded={open}
+          aria-haspopup="true"
+          aria-label={`他に${peers.length}人が接続中`}
+          title={`他に${peers.length}人が接続中`}
+          className="peer-count-button"
+        >
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            aria-hidden="true"
+          >
+            <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+            <circle cx="9" cy="7" r="4" />
+            <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
+            <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+          </svg>
+          {peers.length}
+          <span aria-hidden="true">人</span>
+        </button>
+      </div>
+
+      {open && (
+        <div className="peer-list" data-testid="peer-list">
+          {displayName && (
+            <div className="peer-list-self">
+              <span className="peer-list-name">{displayName}（あなた）</span>
+              {onRename && (
+                <button
+                  type="button"
+                  onClick={onRename}
+                  className="peer-list-rename"
+                >
+                  変更
+                </button>
+              )}
+            </div>
+          )}
+          <ul>
+            {peers.map((peer) => (
+              <li key={peer.clientId}>
+                <button
+                  type="button"
+                  onClick={() => onSelectPeer(peer.clientId)}
+                  disabled={peer.location === null}
+                  className="peer-list-item"
+                >
+                  <span className="peer-avatar" aria-hidden="true">
+                    {avatarInitial(peer.name)}
+                  </span>
+                  <span className="peer-list-text">
+                    <span className="peer-list-name">
+                      {peer.name ?? UNNAMED_PEER}
+                    </span>
+                    <span className="peer-list-location">
+                      {describeLocation(peer.location)}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
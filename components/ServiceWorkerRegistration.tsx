@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import { logger } from '@/lib/logger';
+
+/**
+ * Register the service worker (public/sw.js) that lets the app open
+ * without a network. Skipped in development, where cached assets would
+ * hide changes.
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production') return;
+    if (!('serviceWorker' in navigator)) return;
+
+    const register = async () => {
+      try {
+        await navigator.serviceWorker.register('/sw.js');
+        const registration = await navigator.serviceWorker.ready;
+        // Hand over what this page loaded before the worker was active
+        const urls = performance
+          .getEntriesByType('resource')
+          .map((entry) => entry.name);
+        registration.active?.postMessage({
+          type: 'cache-loaded',
+          page: window.location.href,
+          urls,
+        });
+      } catch (error) {
+        logger.error('[ServiceWorker] Registration failed:', error);
+      }
+    };
+    register();
+  }, []);
+
+  return null;
+}
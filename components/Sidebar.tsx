@@ -13,9 +13,15 @@ import { usePageList } from '@/hooks/usePageList';
 import { useArchives } from '@/hooks/useArchives';
 import { useAnimatingItems } from '@/hooks/useAnimatingItems';
 import { useArchiveToast } from '@/hooks/useArchiveToast';
+import { usePageSearch } from '@/hooks/usePageSearch';
+import type { SearchResult } from '@/lib/types';
 
 type Tab = 'latest' | 'archive';
 
+function toSnippetMap(results: SearchResult[]) {
+  return new Map(results.map((result) => [result.id, result.snippet]));
+}
+
 interface TabButtonProps {
   id: string;
   label: string;
@@ -105,17 +111,36 @@ export default function Sidebar({ onNavigate }: { onNavigate?: () => void }) {
     useAnimatingItems();
   const { toast, showToast, hideToast } = useArchiveToast();
 
+  const { results: pageSearchResults } = usePageSearch(searchQuery);
+  const { results: archiveSearchResults } = usePageSearch(archiveSearchQuery);
+  // Body matches from full-text search, keyed by page id
+  const pageSnippets = useMemo(
+    () => toSnippetMap(pageSearchResults),
+    [pageSearchResults],
+  );
+  const archiveSnippets = useMemo(
+    () => toSnippetMap(archiveSearchResults),
+    [archiveSearchResults],
+  );
+
   const filteredPages = useMemo(() => {
     if (!searchQuery) return pages;
     const query = searchQuery.toLowerCase();
-    return pages.filter((page) => page.title.toLowerCase().includes(query));
-  }, [pages, searchQuery]);
+    return pages.filter(
+      (page) =>
+        page.title.toLowerCase().includes(query) || pageSnippets.has(page.id),
+    );
+  }, [pages, searchQuery, pageSnippets]);
 
   const filteredArchives = useMemo(() => {
     if (!archiveSearchQuery) return archives;
     const query = archiveSearchQuery.toLowerCase();
-    return archives.filter((page) => page.title.toLowerCase().includes(query));
-  }, [archives, archiveSearchQuery]);
+    return archives.filter(
+      (page) =>
+        page.title.toLowerCase().includes(query) ||
+        archiveSnippets.has(page.id),
+    );
+  }, [archives, archiveSearchQuery, archiveSnippets]);
 
   useEffect(() => {
     const loadData = async () => {
@@ -246,7 +271,7 @@ export default function Sidebar({ onNavigate }: { onNavigate?: () => void }) {
 
   return (
     <div
-      className="flex flex-col h-full overflow-hidden"
+      className="flex flex-col flex-1 min-h-0 overflow-hidden"
       style={{ backgroundColor: 'var(--background)' }}
     >
       {/* Tab Navigation */}
@@ -367,6 +392,7 @@ export default function Sidebar({ onNavigate }: { onNavigate?: () => void }) {
                         title={page.title}
                         timestamp={page.updated_at}
                         now={now}
+                        snippet={pageSnippets.get(page.id)}
                         opacity={getItemOpacity(page.id)}
                         active={page.id === currentPageId}
                         onNavigate={() => handleNavigate(page.id)}
@@ -445,6 +471,7 @@ export default function Sidebar({ onNavigate }: { onNavigate?: () => void }) {
                         title={page.title}
                         timestamp={page.archived_at}
                         now={now}
+                        snippet={archiveSnippets.get(page.id)}
                         opacity={getItemOpacity(page.id)}
                         active={page.id === currentPageId}
                         onNavigate={() => handleNavigate(page.id)}
@@ -0,0 +1,76 @@
+'use client';
+
+import type { Suggestion } from '@/lib/milkdown-suggestions';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface SuggestionListProps {
+  suggestions: Suggestion[];
+  // Only the page owner accepts or rejects suggestions
+  canReview: boolean;
+  onSelect: (id: string) => void;
+  onAccept: (id: string) => void;
+  onReject: (id: string) => void;
+}
+
+/**
+ * Pending suggestions in document order, with accept and reject actions
+ * for the page owner.
+ */
+export default function SuggestionList({
+  suggestions,
+  canReview,
+  onSelect,
+  onAccept,
+  onReject,
+}: SuggestionListProps) {
+  return (
+    <aside className="suggestion-panel" aria-label="提案">
+      {suggestions.length === 0 ? (
+        <p className="suggestion-empty">未処理の提案はありません</p>
+      ) : (
+        <ul className="suggestion-items">
+          {suggestions.map((suggestion) => (
+            <li key={suggestion.id} className="suggestion-item">
+              <button
+                type="button"
+                onClick={() => onSelect(suggestion.id)}
+                className="suggestion-summary"
+              >
+                <span className="suggestion-meta">
+                  <span className="suggestion-author">{suggestion.author}</span>
+                  <time dateTime={new Date(suggestion.createdAt).toISOString()}>
+                    {formatRelativeTime(suggestion.createdAt)}
+                  </time>
+                </span>
+                {suggestion.deleted && (
+                  <del className="suggestion-delete">{suggestion.deleted}</del>
+                )}
+                {suggestion.inserted && (
+                  <ins className="suggestion-insert">{suggestion.inserted}</ins>
+                )}
+              </button>
+              {canReview && (
+                <div className="comment-actions">
+                  <button
+                    type="button"
+                    onClick={() => onReject(suggestion.id)}
+                    className="comment-button"
+                  >
+                    却下
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onAccept(suggestion.id)}
+                    className="comment-button comment-button-primary"
+                  >
+                    承認
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
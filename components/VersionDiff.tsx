@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useVersionDiff } from '@/hooks/useVersionDiff';
+import type { PageError } from '@/hooks/usePageExists';
+import type { PageVersionListItem } from '@/lib/types';
+import { formatRelativeTime } from '@/lib/utils';
+import 'katex/dist/katex.min.css';
+import '../app/milkdown.css';
+
+const errorMessages: Record<PageError, string> = {
+  'not-found': 'ページが見つかりません',
+  'network-error': '接続に失敗しました',
+};
+
+function VersionSelect({
+  label,
+  value,
+  versions,
+  now,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  versions: PageVersionListItem[];
+  now: number;
+  onChange: (id: number) => void;
+}) {
+  return (
+    <label className="version-diff-select">
+      <span>{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(Number(e.target.value))}
+      >
+        {versions.map((version) => (
+          <option key={version.id} value={version.id}>
+            {formatRelativeTime(version.created_at, now)} — {version.title}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default function VersionDiff({
+  pageId,
+  from,
+  to,
+}: {
+  pageId: string;
+  from: number | null;
+  to: number | null;
+}) {
+  const { loading, error, versions, fromId, toId, editorRef } = useVersionDiff(
+    pageId,
+    from,
+    to,
+  );
+  const [now] = useState(() => Date.now());
+  const router = useRouter();
+
+  const selectRange = (nextFrom: number | null, nextTo: number | null) => {
+    router.replace(`/p/${pageId}/diff?from=${nextFrom}&to=${nextTo}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p style={{ color: 'var(--foreground)' }}>読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div
+        role="alert"
+        className="flex-1 flex items-center justify-center"
+        style={{ color: 'var(--foreground)' }}
+      >
+        <div className="text-center">
+          <p style={{ marginBottom: '1rem' }}>{errorMessages[error]}</p>
+          <Link href="/" className="error-boundary-button">
+            ホームに戻る
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 relative">
+      <div className="version-diff-toolbar" data-testid="version-diff-toolbar">
+        {versions.length === 0 ? (
+          <span>まだ履歴がありません</span>
+        ) : (
+          <>
+            <VersionSelect
+              label="比較元"
+              value={fromId}
+              versions={versions}
+              now={now}
+              onChange={(id) => selectRange(id, toId)}
+            />
+            <span aria-hidden="true">→</span>
+            <VersionSelect
+              label="比較先"
+              value={toId}
+              versions={versions}
+              now={now}
+              onChange={(id) => selectRange(fromId, id)}
+            />
+          </>
+        )}
+        <Link href={`/p/${pageId}`} className="archive-banner-button">
+          ページに戻る
+        </Link>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        <div
+          ref={editorRef}
+          className="milkdown max-w-4xl mx-auto"
+          style={{ padding: '0 1rem' }}
+        />
+      </div>
+    </div>
+  );
+}
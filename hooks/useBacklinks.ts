@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import type { BacklinkItem } from '@/lib/types';
+import { logger } from '@/lib/logger';
+import { isBacklinkItemArray, logResponseError } from '@/lib/api';
+
+/**
+ * Pages that link to a page. Links are recorded by the server as pages
+ * are edited, so the list is reloaded when the window regains focus.
+ */
+export function useBacklinks(pageId: string | null) {
+  const [state, setState] = useState<{
+    pageId: string | null;
+    backlinks: BacklinkItem[];
+  }>({ pageId: null, backlinks: [] });
+
+  useEffect(() => {
+    if (!pageId) return;
+    let isMounted = true;
+
+    const fetchBacklinks = async () => {
+      try {
+        const response = await fetch(`/api/pages/${pageId}/backlinks`);
+        if (!isMounted) return;
+        if (!response.ok) {
+          await logResponseError('Backlinks', response);
+          return;
+        }
+        const data: unknown = await response.json();
+        if (!isMounted) return;
+        if (!isBacklinkItemArray(data)) {
+          logger.error('[Backlinks] Unexpected response shape:', data);
+          return;
+        }
+        setState({ pageId, backlinks: data });
+      } catch (error) {
+        logger.error('[Backlinks] Network error:', error);
+      }
+    };
+
+    fetchBacklinks();
+    window.addEventListener('focus', fetchBacklinks);
+    return () => {
+      isMounted = false;
+      window.removeEventListener('focus', fetchBacklinks);
+    };
+  }, [pageId]);
+
+  return {
+    // Backlinks of the previous page are not shown while navigating
+    backlinks: state.pageId === pageId ? state.backlinks : [],
+  };
+}
@@ -1,15 +1,48 @@
-import { useEffect, useState, useRef } from 'react';
-import { Editor, rootCtx, editorViewOptionsCtx } from '@milkdown/core';
-import { commonmark } from '@milkdown/preset-commonmark';
-import { gfm } from '@milkdown/preset-gfm';
-import { collab, collabServiceCtx } from '@milkdown/plugin-collab';
+import { useCallback, useEffect, useState, useRef } from 'react';
+import { editorViewCtx, type Editor } from '@milkdown/core';
+import { collabServiceCtx } from '@milkdown/plugin-collab';
 import { logger } from '@/lib/logger';
-import { usePageExists } from '@/hooks/usePageExists';
+import { createMilkdownEditor } from '@/lib/milkdown-editor';
+import {
+  createAttributionPlugin,
+  setAttributionVisible,
+} from '@/lib/milkdown-attribution';
+import { createCommentPlugin } from '@/lib/milkdown-comments';
+import { createImageUploadPlugin } from '@/lib/milkdown-image-upload';
+import { createPageLinkPlugin } from '@/lib/milkdown-page-links';
+import { createSlashMenuPlugin } from '@/lib/milkdown-slash-menu';
+import { getDisplayName, setDisplayName } from '@/lib/display-name';
+import { openOfflineCache, waitForOfflineCache } from '@/lib/offline-cache';
+import {
+  pageTargetLabel,
+  usePageExists,
+  type PageTarget,
+} from '@/hooks/usePageExists';
 import * as Y from 'yjs';
 import { WebsocketProvider } from 'y-websocket';
+import {
+  relativePositionToAbsolutePosition,
+  ySyncPluginKey,
+} from 'y-prosemirror';
 
 // Timeout for waiting for Yjs sync to complete (in milliseconds)
 const SYNC_TIMEOUT_MS = 500;
+// Timeout for loading the cached copy of a page (in milliseconds)
+const CACHE_TIMEOUT_MS = 1000;
+// Length of the text shown for where a peer's cursor is
+const PEER_LOCATION_LENGTH = 30;
+
+export interface CollabInstance {
+  editor: Editor;
+  ydoc: Y.Doc;
+}
+
+export interface Peer {
+  clientId: number;
+  name: string | null;
+  // Text of the block the cursor is in, or null if the peer has no cursor
+  location: string | null;
+}
 
 function buildWsUrl(): string {
   const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -42,40 +75,6 @@ function waitForSync(
   });
 }
 
-function createMilkdownEditor(
-  container: HTMLElement,
-  ydoc: Y.Doc,
-  awareness: WebsocketProvider['awareness'],
-  readOnly: boolean,
-): Promise<Editor> {
-  const builder = Editor.make()
-    .config((ctx) => {
-      ctx.set(rootCtx, container);
-      if (readOnly) {
-        ctx.set(editorViewOptionsCtx, { editable: () => false });
-      }
-    })
-    .use(commonmark)
-    .use(gfm)
-    .use(collab)
-    .config((ctx) => {
-      const collabService = ctx.get(collabServiceCtx);
-      collabService.bindDoc(ydoc);
-      collabService.setAwareness(awareness);
-      collabService.mergeOptions({
-        yCursorOpts: {
-          cursorBuilder: () => {
-            const cursor = document.createElement('span');
-            cursor.classList.add('ProseMirror-yjs-cursor');
-            return cursor;
-          },
-        },
-      });
-    });
-
-  return builder.create();
-}
-
 function safeDestroy(
   resource: { destroy(): void } | null,
   label: string,
@@ -88,14 +87,69 @@ function safeDestroy(
   }
 }
 
-export function useCollabEditor(pageId: string) {
-  const [peerCount, setPeerCount] = useState(0);
+/**
+ * ProseMirror position of a peer's cursor, from the relative positions
+ * that y-prosemirror publishes in the awareness `cursor` field.
+ */
+function getPeerCursorPos(
+  editor: Editor,
+  ydoc: Y.Doc,
+  state: Record<string, unknown> | undefined,
+): number | null {
+  const cursor = state?.cursor as { head?: unknown } | null | undefined;
+  if (!cursor?.head) return null;
+
+  return editor.action((ctx) => {
+    const view = ctx.get(editorViewCtx);
+    const binding = ySyncPluginKey.getState(view.state)?.binding;
+    if (!binding) return null;
+    const pos = relativePositionToAbsolutePosition(
+      ydoc,
+      ydoc.getXmlFragment('prosemirror'),
+      Y.createRelativePositionFromJSON(cursor.head),
+      binding.mapping,
+    );
+    return pos !== null && pos <= view.state.doc.content.size ? pos : null;
+  });
+}
+
+function describePeerLocation(editor: Editor, pos: number): string {
+  return editor.action((ctx) => {
+    const { doc } = ctx.get(editorViewCtx).state;
+    return doc.resolve(pos).parent.textContent.slice(0, PEER_LOCATION_LENGTH);
+  });
+}
+
+/**
+ * Record this client as the author of its edits under the current
+ * display name. The mapping is only written on the first local change,
+ * so opening a page without editing leaves the document untouched.
+ */
+function mapUserOnFirstEdit(
+  ydoc: Y.Doc,
+  permanentUserData: Y.PermanentUserData,
+): void {
+  const fragment = ydoc.getXmlFragment('prosemirror');
+  const handleChange = (_events: unknown, transaction: Y.Transaction) => {
+    if (!transaction.local) return;
+    fragment.unobserveDeep(handleChange);
+    permanentUserData.setUserMapping(ydoc, ydoc.clientID, getDisplayName());
+  };
+  fragment.observeDeep(handleChange);
+}
+
+export function useCollabEditor(target: PageTarget) {
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [displayName, setDisplayNameState] = useState<string | null>(null);
   const [wsConnected, setWsConnected] = useState(true);
+  const [showAuthors, setShowAuthors] = useState(false);
+  const [instance, setInstance] = useState<CollabInstance | null>(null);
   const editorRef = useRef<HTMLDivElement>(null);
   const editorInstanceRef = useRef<Editor | null>(null);
   const ydocRef = useRef<Y.Doc | null>(null);
+  const permanentUserDataRef = useRef<Y.PermanentUserData | null>(null);
   const providerRef = useRef<WebsocketProvider | null>(null);
-  const updatePeerCountRef = useRef<(() => void) | null>(null);
+  const updatePeersRef = useRef<(() => void) | null>(null);
   const statusHandlerRef = useRef<((event: { status: string }) => void) | null>(
     null,
   );
@@ -108,10 +162,11 @@ export function useCollabEditor(pageId: string) {
   const cleanupResources = () => {
     safeDestroy(editorInstanceRef.current, 'editor');
     editorInstanceRef.current = null;
+    setInstance(null);
 
     if (providerRef.current) {
-      if (updatePeerCountRef.current) {
-        providerRef.current.awareness.off('change', updatePeerCountRef.current);
+      if (updatePeersRef.current) {
+        providerRef.current.awareness.off('change', updatePeersRef.current);
       }
       if (statusHandlerRef.current) {
         providerRef.current.off('status', statusHandlerRef.current);
@@ -122,10 +177,20 @@ export function useCollabEditor(pageId: string) {
 
     safeDestroy(ydocRef.current, 'ydoc');
     ydocRef.current = null;
+    permanentUserDataRef.current = null;
   };
 
-  const { loading, error, archivedAt } = usePageExists(pageId);
-  const readOnly = archivedAt !== null;
+  const { loading, error, archivedAt, canEdit, suggestOnly, offline } =
+    usePageExists(target);
+  const archived = archivedAt !== null;
+  const readOnly = archived || !canEdit;
+  // Share link holders join the page's room through their token
+  const room = 'pageId' in target ? target.pageId : `s/${target.shareToken}`;
+  // Only pages opened by ID are cached; share links may be revoked
+  const cacheId = 'pageId' in target && !archived ? target.pageId : null;
+  // Images become attachments of the page, which share links cannot add
+  const uploadPageId = 'pageId' in target && !readOnly ? target.pageId : null;
+  const label = pageTargetLabel(target);
 
   // Track mounted state for cleanup (compatible with React 18+ strict mode)
   useEffect(() => {
@@ -152,29 +217,71 @@ export function useCollabEditor(pageId: string) {
       isInitializingRef.current = true;
 
       logger.log(
-        `[Editor] Initializing editor for page: ${pageId}${readOnly ? ' (read-only)' : ''}`,
+        `[Editor] Initializing editor for page: ${label}${readOnly ? ' (read-only)' : ''}`,
       );
 
       try {
         // Create Yjs document
         const ydoc = new Y.Doc();
         ydocRef.current = ydoc;
+        const permanentUserData = new Y.PermanentUserData(ydoc);
+        permanentUserDataRef.current = permanentUserData;
+        if (!readOnly) {
+          mapUserOnFirstEdit(ydoc, permanentUserData);
+        }
+
+        // Load the cached copy first; it also keeps edits made offline
+        let cached = false;
+        if (cacheId) {
+          const persistence = openOfflineCache(cacheId, ydoc);
+          cached =
+            (await waitForOfflineCache(persistence, CACHE_TIMEOUT_MS)) &&
+            ydoc.getXmlFragment('prosemirror').length > 0;
+
+          if (!isMountedRef.current) {
+            logger.log(
+              '[Editor] Component unmounted during cache load, aborting',
+            );
+            isInitializingRef.current = false;
+            safeDestroy(ydoc, 'ydoc');
+            return;
+          }
+        }
 
         // Connect to WebSocket server to load the document
         const wsUrl = buildWsUrl();
 
-        const provider = new WebsocketProvider(wsUrl, pageId, ydoc);
+        const provider = new WebsocketProvider(wsUrl, room, ydoc);
         providerRef.current = provider;
 
-        if (!readOnly) {
-          // Track peer count via Awareness API
-          const updatePeerCount = () => {
-            const states = provider.awareness.getStates();
-            setPeerCount(Math.max(0, states.size - 1));
+        // Read-only share links stay connected to follow live edits
+        if (!archived) {
+          // Publish our name and track peers via Awareness API
+          const name = getDisplayName();
+          setDisplayNameState(name);
+          provider.awareness.setLocalStateField('user', { name });
+
+          const updatePeers = () => {
+            const editor = editorInstanceRef.current;
+            const next: Peer[] = [];
+            provider.awareness.getStates().forEach((state, clientId) => {
+              if (clientId === ydoc.clientID) return;
+              const user = state.user as { name?: unknown } | undefined;
+              const pos = editor && getPeerCursorPos(editor, ydoc, state);
+              next.push({
+                clientId,
+                name: typeof user?.name === 'string' ? user.name : null,
+                location:
+                  editor && pos != null
+                    ? describePeerLocation(editor, pos)
+                    : null,
+              });
+            });
+            setPeers(next);
           };
-          updatePeerCountRef.current = updatePeerCount;
-          provider.awareness.on('change', updatePeerCount);
-          updatePeerCount();
+          updatePeersRef.current = updatePeers;
+          provider.awareness.on('change', updatePeers);
+          updatePeers();
 
           // Track WebSocket connection status
           const handleStatus = (event: { status: string }) => {
@@ -184,10 +291,13 @@ export function useCollabEditor(pageId: string) {
           provider.on('status', handleStatus);
         }
 
-        logger.log(`[WebSocket] Connecting to room: ${pageId} at ${wsUrl}`);
+        logger.log(`[WebSocket] Connecting to room: ${label} at ${wsUrl}`);
 
-        // Wait for initial sync to complete
-        await waitForSync(provider, SYNC_TIMEOUT_MS);
+        // Wait for initial sync to complete. A cached page is shown right
+        // away and catches up with the server as the sync arrives.
+        if (!cached && !offline) {
+          await waitForSync(provider, SYNC_TIMEOUT_MS);
+        }
 
         // Abort if component unmounted during sync wait
         if (!isMountedRef.current) {
@@ -198,8 +308,8 @@ export function useCollabEditor(pageId: string) {
           return;
         }
 
-        // Disconnect the WebSocket after loading for read-only pages
-        if (readOnly) {
+        // Disconnect the WebSocket after loading for archived pages
+        if (archived) {
           provider.disconnect();
           logger.log(
             '[Editor] Disconnected WebSocket for read-only archived page',
@@ -210,7 +320,17 @@ export function useCollabEditor(pageId: string) {
           editorRef.current!,
           ydoc,
           provider.awareness,
-          readOnly,
+          {
+            readOnly,
+            plugins: [
+              createAttributionPlugin(ydoc, permanentUserData),
+              createCommentPlugin(ydoc),
+              createPageLinkPlugin(),
+              createSlashMenuPlugin(),
+              ...(uploadPageId ? [createImageUploadPlugin(uploadPageId)] : []),
+            ],
+            permanentUserData,
+          },
         );
 
         // If component unmounted during initialization, clean up and bail out
@@ -226,12 +346,15 @@ export function useCollabEditor(pageId: string) {
         }
 
         // Connect the collab service to render Yjs document content in ProseMirror.
-        // For read-only pages the WebSocket is already disconnected, so no sync occurs.
+        // For archived pages the WebSocket is already disconnected, so no sync occurs.
         editor.action((ctx) => {
           ctx.get(collabServiceCtx).connect();
         });
 
         editorInstanceRef.current = editor;
+        setInstance({ editor, ydoc });
+        // Cursor locations can only be resolved once the editor exists
+        updatePeersRef.current?.();
 
         // Auto-focus the editor if the Yjs doc is empty (blank page, editable only)
         if (!readOnly) {
@@ -277,7 +400,78 @@ export function useCollabEditor(pageId: string) {
       }
       cleanupResources();
     };
-  }, [pageId, loading, error, readOnly]);
+  }, [
+    room,
+    label,
+    loading,
+    error,
+    readOnly,
+    archived,
+    cacheId,
+    uploadPageId,
+    offline,
+  ]);
+
+  // Apply the author tint to the current editor, including one created
+  // after the toggle was switched
+  useEffect(() => {
+    const editor = editorInstanceRef.current;
+    const ydoc = ydocRef.current;
+    const permanentUserData = permanentUserDataRef.current;
+    if (!editor || !ydoc || !permanentUserData) return;
+    editor.action((ctx) => {
+      setAttributionVisible(
+        ctx.get(editorViewCtx),
+        ydoc,
+        permanentUserData,
+        showAuthors,
+      );
+    });
+  }, [showAuthors, instance]);
+
+  /**
+   * Scroll the editor to a peer's cursor.
+   */
+  const scrollToPeer = useCallback((clientId: number) => {
+    const editor = editorInstanceRef.current;
+    const ydoc = ydocRef.current;
+    const provider = providerRef.current;
+    if (!editor || !ydoc || !provider) return;
+
+    const state = provider.awareness.getStates().get(clientId);
+    const pos = getPeerCursorPos(editor, ydoc, state);
+    if (pos === null) return;
+    editor.action((ctx) => {
+      const { node } = ctx.get(editorViewCtx).domAtPos(pos);
+      const element = node instanceof Element ? node : node.parentElement;
+      element?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    });
+  }, []);
+
+  /**
+   * Store a new display name and show it to peers right away.
+   * Edits already attributed in this session keep the previous name.
+   */
+  const changeDisplayName = useCallback((name: string) => {
+    const stored = setDisplayName(name);
+    setDisplayNameState(stored);
+    providerRef.current?.awareness.setLocalStateField('user', { name: stored });
+  }, []);
 
-  return { loading, error, readOnly, peerCount, wsConnected, editorRef };
+  return {
+    loading,
+    error,
+    readOnly,
+    suggestOnly: suggestOnly && !readOnly,
+    peerCount: peers.length,
+    peers,
+    displayName,
+    scrollToPeer,
+    changeDisplayName,
+    wsConnected,
+    editorRef,
+    instance,
+    showAuthors,
+    setShowAuthors,
+  };
 }
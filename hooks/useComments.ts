@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState, type RefObject } from 'react';
+import { editorViewCtx } from '@milkdown/core';
+import type * as Y from 'yjs';
+import type { CollabInstance } from '@/hooks/useCollabEditor';
+import {
+  addReply,
+  createThread,
+  getCommentsMap,
+  listThreads,
+  setThreadResolved,
+  type CommentThread,
+} from '@/lib/comments';
+import {
+  getSelectionAnchor,
+  getThreadRange,
+  refreshCommentHighlights,
+} from '@/lib/milkdown-comments';
+import { getDisplayName } from '@/lib/display-name';
+
+export interface PlacedCommentThread extends CommentThread {
+  // Offset of the anchored text from the top of the editor, or null if
+  // the text was deleted
+  top: number | null;
+}
+
+export interface CommentDraft {
+  anchor: Y.RelativePosition;
+  head: Y.RelativePosition;
+  quote: string;
+  top: number | null;
+}
+
+function getTop(
+  instance: CollabInstance,
+  container: HTMLElement,
+  range: { from: number } | null,
+): number | null {
+  if (!range) return null;
+  return instance.editor.action((ctx) => {
+    const coords = ctx.get(editorViewCtx).coordsAtPos(range.from);
+    return coords.top - container.getBoundingClientRect().top;
+  });
+}
+
+/**
+ * Comment threads of the open page and the actions on them.
+ * Threads are placed next to their text in the editor container, and
+ * clicking highlighted text activates its thread.
+ */
+export function useComments(
+  instance: CollabInstance | null,
+  editorRef: RefObject<HTMLDivElement | null>,
+) {
+  const [threads, setThreads] = useState<PlacedCommentThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CommentDraft | null>(null);
+
+  // Follow thread changes and re-place threads when the text moves
+  useEffect(() => {
+    const container = editorRef.current;
+    if (!instance || !container) return;
+    const { editor, ydoc } = instance;
+
+    const update = () => {
+      const placed = listThreads(ydoc).map((thread) => {
+        const range = editor.action((ctx) =>
+          getThreadRange(ctx.get(editorViewCtx), ydoc, thread),
+        );
+        return { ...thread, top: getTop(instance, container, range) };
+      });
+      setThreads(placed);
+    };
+
+    // Wait for the editor to apply Yjs changes before measuring
+    let frame: number | null = null;
+    const scheduleUpdate = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        update();
+      });
+    };
+
+    const comments = getCommentsMap(ydoc);
+    const fragment = ydoc.getXmlFragment('prosemirror');
+    comments.observeDeep(scheduleUpdate);
+    fragment.observeDeep(scheduleUpdate);
+    window.addEventListener('resize', scheduleUpdate);
+    update();
+
+    return () => {
+      comments.unobserveDeep(scheduleUpdate);
+      fragment.unobserveDeep(scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [instance, editorRef]);
+
+  // Emphasise the active thread's text
+  useEffect(() => {
+    if (!instance) return;
+    instance.editor.action((ctx) => {
+      refreshCommentHighlights(
+        ctx.get(editorViewCtx),
+        instance.ydoc,
+        activeThreadId,
+      );
+    });
+  }, [instance, activeThreadId]);
+
+  // Clicking highlighted text opens its thread
+  useEffect(() => {
+    const container = editorRef.current;
+    if (!instance || !container) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target as Element | null;
+      const highlight = target?.closest('[data-comment-thread]');
+      const threadId = highlight?.getAttribute('data-comment-thread');
+      if (threadId) setActiveThreadId(threadId);
+    };
+    container.addEventListener('click', handleClick);
+    return () => {
+      container.removeEventListener('click', handleClick);
+    };
+  }, [instance, editorRef]);
+
+  /**
+   * Start a new thread on the selected text, or on the block the cursor
+   * is in.
+   *
+   * @returns false if there is no text to comment on
+   */
+  const startDraft = useCallback((): boolean => {
+    const container = editorRef.current;
+    if (!instance || !container) return false;
+    const anchor = instance.editor.action((ctx) =>
+      getSelectionAnchor(ctx.get(editorViewCtx), instance.ydoc),
+    );
+    if (!anchor) return false;
+
+    const range = instance.editor.action((ctx) =>
+      getThreadRange(ctx.get(editorViewCtx), instance.ydoc, anchor),
+    );
+    setDraft({ ...anchor, top: getTop(instance, container, range) });
+    setActiveThreadId(null);
+    return true;
+  }, [instance, editorRef]);
+
+  const submitDraft = useCallback(
+    (body: string) => {
+      if (!instance || !draft || !body.trim()) return;
+      const threadId = createThread(instance.ydoc, {
+        anchor: draft.anchor,
+        head: draft.head,
+        quote: draft.quote,
+        author: getDisplayName(),
+        body: body.trim(),
+      });
+      setDraft(null);
+      setActiveThreadId(threadId);
+    },
+    [instance, draft],
+  );
+
+  const cancelDraft = useCallback(() => setDraft(null), []);
+
+  const reply = useCallback(
+    (threadId: string, body: string) => {
+      if (!instance || !body.trim()) return;
+      addReply(instance.ydoc, threadId, {
+        author: getDisplayName(),
+        body: body.trim(),
+      });
+    },
+    [instance],
+  );
+
+  const setResolved = useCallback(
+    (threadId: string, resolved: boolean) => {
+      if (!instance) return;
+      setThreadResolved(instance.ydoc, threadId, resolved);
+      if (resolved) {
+        setActiveThreadId((current) => (current === threadId ? null : current));
+      }
+    },
+    [instance],
+  );
+
+  return {
+    // Threads of a previous editor are not shown while it is recreated
+    threads: instance ? threads : [],
+    activeThreadId,
+    setActiveThreadId,
+    draft,
+    startDraft,
+    submitDraft,
+    cancelDraft,
+    reply,
+    setResolved,
+  };
+}
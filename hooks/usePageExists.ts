@@ -1,27 +1,51 @@
 import { useEffect, useState } from 'react';
 import { logger } from '@/lib/logger';
+import { clearOfflineCache, hasOfflineCache } from '@/lib/offline-cache';
 
 export type PageError = 'not-found' | 'network-error';
 
-export function usePageExists(pageId: string) {
+// A page is opened by its ID or, without revealing the ID, by a share token
+export type PageTarget = { pageId: string } | { shareToken: string };
+
+export function pageTargetLabel(target: PageTarget): string {
+  return 'pageId' in target ? target.pageId : 'shared page';
+}
+
+export function usePageExists(target: PageTarget) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<PageError | null>(null);
   const [archivedAt, setArchivedAt] = useState<number | null>(null);
+  const [canEdit, setCanEdit] = useState(true);
+  // Edits are recorded as suggestions (share links with the suggest scope)
+  const [suggestOnly, setSuggestOnly] = useState(false);
+  // The server could not be reached, but the page is cached locally
+  const [offline, setOffline] = useState(false);
+
+  const url =
+    'pageId' in target
+      ? `/api/pages/${target.pageId}`
+      : `/api/shares/${encodeURIComponent(target.shareToken)}`;
+  const label = pageTargetLabel(target);
+  const pageId = 'pageId' in target ? target.pageId : null;
 
   useEffect(() => {
     let isMounted = true;
 
     const checkExists = async () => {
       try {
-        const response = await fetch(`/api/pages/${pageId}`);
+        const response = await fetch(url);
         if (!isMounted) return;
 
         if (!response.ok) {
           const errorType =
             response.status === 404 ? 'not-found' : 'network-error';
           logger.error(
-            `[Editor] Page check failed: ${pageId} (${response.status})`,
+            `[Editor] Page check failed: ${label} (${response.status})`,
           );
+          if (errorType === 'not-found' && pageId) {
+            await clearOfflineCache(pageId);
+            if (!isMounted) return;
+          }
           setError(errorType);
           setLoading(false);
           return;
@@ -33,13 +57,21 @@ export function usePageExists(pageId: string) {
         setArchivedAt(
           typeof data.archived_at === 'number' ? data.archived_at : null,
         );
+        // Only share link responses carry a scope
+        setCanEdit(data.scope !== 'read');
+        setSuggestOnly(data.scope === 'suggest');
         setLoading(false);
       } catch (error) {
         logger.error('[Editor] Failed to check page existence:', error);
-        if (isMounted) {
+        const cached = pageId !== null && (await hasOfflineCache(pageId));
+        if (!isMounted) return;
+        if (cached) {
+          logger.log(`[Editor] Opening cached copy offline: ${label}`);
+          setOffline(true);
+        } else {
           setError('network-error');
-          setLoading(false);
         }
+        setLoading(false);
       }
     };
 
@@ -48,7 +80,7 @@ export function usePageExists(pageId: string) {
     return () => {
       isMounted = false;
     };
-  }, [pageId]);
+  }, [url, label, pageId]);
 
-  return { loading, error, archivedAt };
+  return { loading, error, archivedAt, canEdit, suggestOnly, offline };
 }
@@ -0,0 +1,76 @@
+import { useEffect, type RefObject } from 'react';
+import { useRouter } from 'next/navigation';
+import { editorViewCtx } from '@milkdown/core';
+import type { CollabInstance } from '@/hooks/useCollabEditor';
+import { isPageListItemArray, logResponseError } from '@/lib/api';
+import { logger } from '@/lib/logger';
+import { setPageLinkPages } from '@/lib/milkdown-page-links';
+
+/**
+ * Keep the titles of `[[` links up to date and open linked pages.
+ * The page list is reloaded when the window regains focus, so renames
+ * made elsewhere show up without reloading.
+ */
+export function usePageLinks(
+  instance: CollabInstance | null,
+  editorRef: RefObject<HTMLDivElement | null>,
+) {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!instance) return;
+    let isMounted = true;
+
+    const fetchPages = async () => {
+      try {
+        const response = await fetch('/api/pages');
+        if (!response.ok) {
+          await logResponseError('PageLinks FetchPages', response);
+          return;
+        }
+        const data: unknown = await response.json();
+        if (!isPageListItemArray(data)) {
+          logger.error(
+            '[PageLinks FetchPages] Unexpected response shape:',
+            data,
+          );
+          return;
+        }
+        if (!isMounted) return;
+        instance.editor.action((ctx) => {
+          setPageLinkPages(ctx.get(editorViewCtx), data);
+        });
+      } catch (error) {
+        logger.error('[PageLinks FetchPages] Network error:', error);
+      }
+    };
+
+    fetchPages();
+    window.addEventListener('focus', fetchPages);
+    return () => {
+      isMounted = false;
+      window.removeEventListener('focus', fetchPages);
+    };
+  }, [instance]);
+
+  // Open linked pages like the sidebar does, without reloading the app
+  useEffect(() => {
+    const container = editorRef.current;
+    if (!instance || !container) return;
+
+    const handleClick = (event: MouseEvent) => {
+      // Modified clicks keep the browser's behaviour (e.g. a new tab)
+      if (event.ctrlKey || event.metaKey || event.shiftKey) return;
+      const target = event.target as Element | null;
+      const link = target?.closest('[data-page-link]');
+      const pageId = link?.getAttribute('data-page-link');
+      if (!pageId) return;
+      event.preventDefault();
+      router.push(`/p/${pageId}`);
+    };
+    container.addEventListener('click', handleClick);
+    return () => {
+      container.removeEventListener('click', handleClick);
+    };
+  }, [instance, editorRef, router]);
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import type { SearchResult } from '@/lib/types';
+import { logger } from '@/lib/logger';
+import { logResponseError, isSearchResultArray } from '@/lib/api';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Full-text search over page bodies, debounced while the user types.
+ * Results are only returned for the query they were fetched for, so
+ * stale results never show up next to a newer query.
+ */
+export function usePageSearch(query: string) {
+  const [state, setState] = useState<{
+    query: string;
+    results: SearchResult[];
+  }>({ query: '', results: [] });
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!trimmedQuery) return;
+
+    let isMounted = true;
+
+    const search = async () => {
+      try {
+        const response = await fetch(
+          `/api/search?q=${encodeURIComponent(trimmedQuery)}`,
+        );
+        if (!isMounted) return;
+        if (!response.ok) {
+          await logResponseError('Search', response);
+          return;
+        }
+        const data: unknown = await response.json();
+        if (!isMounted) return;
+        if (!isSearchResultArray(data)) {
+          logger.error('[Search] Unexpected response shape:', data);
+          return;
+        }
+        setState({ query: trimmedQuery, results: data });
+      } catch (error) {
+        logger.error('[Search] Network error:', error);
+      }
+    };
+
+    const timer = setTimeout(search, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isMounted = false;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery]);
+
+  return {
+    results: trimmedQuery && state.query === trimmedQuery ? state.results : [],
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import type { SessionInfo } from '@/lib/types';
+import { logger } from '@/lib/logger';
+import { logResponseError, isSessionInfo } from '@/lib/api';
+
+/**
+ * The authentication mode and the signed-in user.
+ * session stays null until the first response arrives.
+ */
+export function useSession() {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        if (!isMounted) return;
+        if (!response.ok) {
+          await logResponseError('Session', response);
+          return;
+        }
+        const data: unknown = await response.json();
+        if (!isMounted) return;
+        if (!isSessionInfo(data)) {
+          logger.error('[Session] Unexpected response shape:', data);
+          return;
+        }
+        setSession(data);
+      } catch (error) {
+        logger.error('[Session] Network error:', error);
+      }
+    };
+
+    fetchSession();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return { session };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react';
+import { editorViewCtx } from '@milkdown/core';
+import type { CollabInstance } from '@/hooks/useCollabEditor';
+import {
+  acceptSuggestion,
+  listSuggestions,
+  rejectSuggestion,
+  setSuggestionMode,
+  type Suggestion,
+} from '@/lib/milkdown-suggestions';
+
+/**
+ * Pending suggestions of the open page and the actions on them.
+ * While enabled is true, local edits are recorded as suggestions by
+ * author instead of being applied.
+ */
+export function useSuggestions(
+  instance: CollabInstance | null,
+  enabled: boolean,
+  author: string,
+) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+  // Follow document changes, local and remote
+  useEffect(() => {
+    if (!instance) return;
+    const { editor, ydoc } = instance;
+
+    const update = () => {
+      setSuggestions(
+        editor.action((ctx) =>
+          listSuggestions(ctx.get(editorViewCtx).state.doc),
+        ),
+      );
+    };
+
+    // Wait for the editor to apply Yjs changes before reading them
+    let frame: number | null = null;
+    const scheduleUpdate = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        update();
+      });
+    };
+
+    const fragment = ydoc.getXmlFragment('prosemirror');
+    fragment.observeDeep(scheduleUpdate);
+    update();
+
+    return () => {
+      fragment.unobserveDeep(scheduleUpdate);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [instance]);
+
+  // Apply the mode to the current editor, including one created after
+  // the mode was switched
+  useEffect(() => {
+    if (!instance) return;
+    instance.editor.action((ctx) => {
+      setSuggestionMode(ctx.get(editorViewCtx), enabled, author);
+    });
+  }, [instance, enabled, author]);
+
+  const accept = useCallback(
+    (id: string) => {
+      instance?.editor.action((ctx) =>
+        acceptSuggestion(ctx.get(editorViewCtx), id),
+      );
+    },
+    [instance],
+  );
+
+  const reject = useCallback(
+    (id: string) => {
+      instance?.editor.action((ctx) =>
+        rejectSuggestion(ctx.get(editorViewCtx), id),
+      );
+    },
+    [instance],
+  );
+
+  /**
+   * Scroll the editor to a suggestion.
+   */
+  const scrollToSuggestion = useCallback(
+    (id: string) => {
+      const suggestion = suggestions.find((item) => item.id === id);
+      if (!instance || !suggestion) return;
+      instance.editor.action((ctx) => {
+        const view = ctx.get(editorViewCtx);
+        if (suggestion.from > view.state.doc.content.size) return;
+        const { node } = view.domAtPos(suggestion.from);
+        const element = node instanceof Element ? node : node.parentElement;
+        element?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      });
+    },
+    [instance, suggestions],
+  );
+
+  return {
+    // Suggestions of a previous editor are not shown while it is recreated
+    suggestions: instance ? suggestions : [],
+    accept,
+    reject,
+    scrollToSuggestion,
+  };
+}
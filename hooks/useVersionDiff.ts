@@ -0,0 +1,158 @@
+import { useEffect, useState, useRef } from 'react';
+import { editorViewCtx, type Editor } from '@milkdown/core';
+import { collabServiceCtx } from '@milkdown/plugin-collab';
+import * as Y from 'yjs';
+import { Awareness } from 'y-protocols/awareness';
+import { ySyncPluginKey } from 'y-prosemirror';
+import type { PageVersionListItem } from '@/lib/types';
+import type { PageError } from '@/hooks/usePageExists';
+import { logger } from '@/lib/logger';
+import { logResponseError, isPageVersionListItemArray } from '@/lib/api';
+import { createMilkdownEditor } from '@/lib/milkdown-editor';
+import { ychangeSchema } from '@/lib/milkdown-ychange';
+
+async function fetchVersionState(
+  pageId: string,
+  versionId: number,
+): Promise<Uint8Array> {
+  const response = await fetch(
+    `/api/pages/${pageId}/versions/${versionId}/state`,
+  );
+  if (!response.ok) {
+    await logResponseError('VersionDiff FetchState', response);
+    throw new Error(`Failed to load version ${versionId}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Resolve the versions to compare. Without explicit ids the newest
+ * version is compared against the one before it.
+ */
+function resolveRange(
+  versions: PageVersionListItem[],
+  from: number | null,
+  to: number | null,
+): { fromId: number; toId: number } | null {
+  if (versions.length === 0) return null;
+  const toId = to ?? versions[0].id;
+  const fromId = from ?? (versions[1] ?? versions[0]).id;
+  return { fromId, toId };
+}
+
+export function useVersionDiff(
+  pageId: string,
+  from: number | null,
+  to: number | null,
+) {
+  const [versions, setVersions] = useState<PageVersionListItem[] | null>(null);
+  const [error, setError] = useState<PageError | null>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadVersions = async () => {
+      try {
+        const response = await fetch(`/api/pages/${pageId}/versions`);
+        if (!isMounted) return;
+        if (!response.ok) {
+          await logResponseError('VersionDiff FetchVersions', response);
+          if (isMounted) {
+            setError(response.status === 404 ? 'not-found' : 'network-error');
+          }
+          return;
+        }
+        const data: unknown = await response.json();
+        if (!isMounted) return;
+        if (!isPageVersionListItemArray(data)) {
+          logger.error('[VersionDiff] Unexpected response shape:', data);
+          setError('network-error');
+          return;
+        }
+        setVersions(data);
+      } catch (error) {
+        logger.error('[VersionDiff] Failed to load versions:', error);
+        if (isMounted) setError('network-error');
+      }
+    };
+
+    loadVersions();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [pageId]);
+
+  const range = versions ? resolveRange(versions, from, to) : null;
+  const fromId = range?.fromId ?? null;
+  const toId = range?.toId ?? null;
+
+  // Render the diff in a read-only editor whenever the range changes
+  useEffect(() => {
+    if (fromId === null || toId === null) return;
+
+    let cancelled = false;
+    let editor: Editor | null = null;
+    const ydoc = new Y.Doc();
+    const awareness = new Awareness(ydoc);
+    // y-prosemirror attributes insertions and deletions through this
+    const permanentUserData = new Y.PermanentUserData(ydoc);
+
+    const renderDiff = async () => {
+      try {
+        const [fromState, toState] = await Promise.all([
+          fetchVersionState(pageId, fromId),
+          fetchVersionState(pageId, toId),
+        ]);
+        if (cancelled || !editorRef.current) return;
+
+        const created = await createMilkdownEditor(
+          editorRef.current,
+          ydoc,
+          awareness,
+          { readOnly: true, plugins: ychangeSchema, permanentUserData },
+        );
+        if (cancelled) {
+          created.destroy();
+          return;
+        }
+        editor = created;
+
+        created.action((ctx) => {
+          ctx.get(collabServiceCtx).connect();
+          // Passing both states as v2 updates makes y-prosemirror build a
+          // non-gc history document containing the content of both versions.
+          const view = ctx.get(editorViewCtx);
+          view.dispatch(
+            view.state.tr.setMeta(ySyncPluginKey, {
+              snapshot: Y.convertUpdateFormatV1ToV2(toState),
+              prevSnapshot: Y.convertUpdateFormatV1ToV2(fromState),
+            }),
+          );
+        });
+      } catch (error) {
+        logger.error('[VersionDiff] Failed to render diff:', error);
+        if (!cancelled) setError('network-error');
+      }
+    };
+
+    renderDiff();
+
+    return () => {
+      cancelled = true;
+      editor?.destroy();
+      awareness.destroy();
+      ydoc.destroy();
+    };
+  }, [pageId, fromId, toId]);
+
+  return {
+    loading: versions === null && error === null,
+    error,
+    versions: versions ?? [],
+    fromId,
+    toId,
+    editorRef,
+  };
+}
@@ -1,4 +1,12 @@
-import type { PageListItem, ArchiveListItem } from './types';
+import type {
+  PageListItem,
+  ArchiveListItem,
+  PageVersionListItem,
+  SearchResult,
+  BacklinkItem,
+  SessionInfo,
+  SessionUser,
+} from './types';
 import { logger } from './logger';
 
 /**
@@ -61,10 +69,91 @@ export function isArchiveListItemArray(
   return Array.isArray(data) && data.every(hasArchiveListItemShape);
 }
 
+function hasPageVersionListItemShape(
+  item: unknown,
+): item is PageVersionListItem {
+  if (!isObject(item)) return false;
+  return (
+    typeof item.id === 'number' &&
+    typeof item.title === 'string' &&
+    typeof item.created_at === 'number'
+  );
+}
+
+export function isPageVersionListItemArray(
+  data: unknown,
+): data is PageVersionListItem[] {
+  return Array.isArray(data) && data.every(hasPageVersionListItemShape);
+}
+
+function hasSearchSnippetPartShape(part: unknown): boolean {
+  return (
+    isObject(part) &&
+    typeof part.text === 'string' &&
+    typeof part.match === 'boolean'
+  );
+}
+
+function hasSearchResultShape(item: unknown): item is SearchResult {
+  if (!isObject(item)) return false;
+  return (
+    typeof item.id === 'string' &&
+    typeof item.title === 'string' &&
+    typeof item.updated_at === 'number' &&
+    (item.archived_at === null || typeof item.archived_at === 'number') &&
+    Array.isArray(item.snippet) &&
+    item.snippet.every(hasSearchSnippetPartShape)
+  );
+}
+
+export function isSearchResultArray(data: unknown): data is SearchResult[] {
+  return Array.isArray(data) && data.every(hasSearchResultShape);
+}
+
+function hasBacklinkItemShape(item: unknown): item is BacklinkItem {
+  if (!isObject(item)) return false;
+  return (
+    typeof item.id === 'string' &&
+    typeof item.title === 'string' &&
+    typeof item.updated_at === 'number'
+  );
+}
+
+export function isBacklinkItemArray(data: unknown): data is BacklinkItem[] {
+  return Array.isArray(data) && data.every(hasBacklinkItemShape);
+}
+
+function hasSessionUserShape(user: unknown): user is SessionUser {
+  if (!isObject(user)) return false;
+  return (
+    typeof user.id === 'string' &&
+    typeof user.username === 'string' &&
+    typeof user.display_name === 'string'
+  );
+}
+
+export function isSessionInfo(data: unknown): data is SessionInfo {
+  if (!isObject(data)) return false;
+  return (
+    (data.mode === 'anonymous' || data.mode === 'local') &&
+    (data.user === null || hasSessionUserShape(data.user))
+  );
+}
+
 export function isCreatePageResponse(data: unknown): data is { id: string } {
   return isObject(data) && typeof data.id === 'string';
 }
 
+export function isUploadAttachmentResponse(
+  data: unknown,
+): data is { id: string; url: string } {
+  return (
+    isObject(data) &&
+    typeof data.id === 'string' &&
+    typeof data.url === 'string'
+  );
+}
+
 export function isArchivePageResponse(
   data: unknown,
 ): data is { archived_at: number } {
@@ -0,0 +1,145 @@
+/**
+ * Comment threads stored in the `comments` map of a page's Y.Doc.
+ *
+ * Threads live next to the `prosemirror` fragment instead of inside it,
+ * so they sync over the same connection without becoming part of the
+ * note (its Markdown, search index or title). Each thread is anchored to
+ * a text range with a pair of Y.RelativePosition values, which keep
+ * pointing at the same text while others edit around it.
+ */
+
+import * as random from 'lib0/random';
+import * as Y from 'yjs';
+
+const COMMENTS_MAP = 'comments';
+
+export interface CommentEntry {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+export interface CommentThread {
+  id: string;
+  anchor: Y.RelativePosition;
+  head: Y.RelativePosition;
+  // Text the thread was created on, shown when the range is gone
+  quote: string;
+  resolved: boolean;
+  createdAt: number;
+  comments: CommentEntry[];
+}
+
+export interface NewCommentThread {
+  anchor: Y.RelativePosition;
+  head: Y.RelativePosition;
+  quote: string;
+  author: string;
+  body: string;
+}
+
+export function getCommentsMap(ydoc: Y.Doc): Y.Map<Y.Map<unknown>> {
+  return ydoc.getMap<Y.Map<unknown>>(COMMENTS_MAP);
+}
+
+function createEntry(author: string, body: string, now: number): CommentEntry {
+  return { id: random.uuidv4(), author, body, createdAt: now };
+}
+
+function readThread(id: string, thread: unknown): CommentThread | null {
+  if (!(thread instanceof Y.Map)) return null;
+  const anchor = thread.get('anchor');
+  const head = thread.get('head');
+  const comments = thread.get('comments');
+  if (
+    !(anchor instanceof Uint8Array) ||
+    !(head instanceof Uint8Array) ||
+    !(comments instanceof Y.Array)
+  ) {
+    return null;
+  }
+  return {
+    id,
+    anchor: Y.decodeRelativePosition(anchor),
+    head: Y.decodeRelativePosition(head),
+    quote: String(thread.get('quote') ?? ''),
+    resolved: thread.get('resolved') === true,
+    createdAt: Number(thread.get('createdAt') ?? 0),
+    comments: comments.toArray() as CommentEntry[],
+  };
+}
+
+/**
+ * Start a thread with its first comment.
+ *
+ * @returns the ID of the new thread
+ */
+export function createThread(
+  ydoc: Y.Doc,
+  { anchor, head, quote, author, body }: NewCommentThread,
+  now: number = Date.now(),
+): string {
+  const id = random.uuidv4();
+  const thread = new Y.Map<unknown>();
+  const comments = new Y.Array<CommentEntry>();
+  comments.push([createEntry(author, body, now)]);
+
+  ydoc.transact(() => {
+    thread.set('anchor', Y.encodeRelativePosition(anchor));
+    thread.set('head', Y.encodeRelativePosition(head));
+    thread.set('quote', quote);
+    thread.set('resolved', false);
+    thread.set('createdAt', now);
+    thread.set('comments', comments);
+    getCommentsMap(ydoc).set(id, thread);
+  });
+  return id;
+}
+
+/**
+ * Add a reply to a thread.
+ *
+ * @returns false if the thread does not exist
+ */
+export function addReply(
+  ydoc: Y.Doc,
+  threadId: string,
+  { author, body }: { author: string; body: string },
+  now: number = Date.now(),
+): boolean {
+  const thread = getCommentsMap(ydoc).get(threadId);
+  const comments = thread instanceof Y.Map ? thread.get('comments') : null;
+  if (!(comments instanceof Y.Array)) return false;
+  comments.push([createEntry(author, body, now)]);
+  return true;
+}
+
+/**
+ * Resolve or reopen a thread.
+ *
+ * @returns false if the thread does not exist
+ */
+export function setThreadResolved(
+  ydoc: Y.Doc,
+  threadId: string,
+  resolved: boolean,
+): boolean {
+  const thread = getCommentsMap(ydoc).get(threadId);
+  if (!(thread instanceof Y.Map)) return false;
+  thread.set('resolved', resolved);
+  return true;
+}
+
+/**
+ * All threads of a document, oldest first. Entries that cannot be read
+ * (e.g. written by an incompatible client) are skipped.
+ */
+export function listThreads(ydoc: Y.Doc): CommentThread[] {
+  const threads: CommentThread[] = [];
+  getCommentsMap(ydoc).forEach((thread, id) => {
+    const read = readThread(id, thread);
+    if (read) threads.push(read);
+  });
+  return threads.sort((a, b) => a.createdAt - b.createdAt);
+}
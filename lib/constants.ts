@@ -1 +1,10 @@
 export const ANIMATION_DURATION_MS = 200;
+
+// Image types accepted as attachments; only raster formats, since SVG
+// can carry scripts
+export const ATTACHMENT_TYPES: readonly string[] = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
@@ -0,0 +1,54 @@
+/**
+ * The name this browser uses to identify itself to other editors.
+ * It is kept in localStorage only; there is no account behind it.
+ */
+
+const DISPLAY_NAME_KEY = 'markdown-board:display-name';
+const MAX_DISPLAY_NAME_LENGTH = 32;
+
+// Used when localStorage is unavailable (e.g. blocked by the browser)
+let fallbackName: string | null = null;
+
+function generateGuestName(): string {
+  const suffix = Math.floor(Math.random() * 10000)
+    .toString()
+    .padStart(4, '0');
+  return `ゲスト${suffix}`;
+}
+
+export function normalizeDisplayName(name: string): string {
+  return name.trim().slice(0, MAX_DISPLAY_NAME_LENGTH);
+}
+
+/**
+ * The stored display name. A guest name is generated and stored on
+ * first use so the same browser keeps the same name.
+ */
+export function getDisplayName(): string {
+  try {
+    const stored = localStorage.getItem(DISPLAY_NAME_KEY);
+    if (stored) return stored;
+    const name = generateGuestName();
+    localStorage.setItem(DISPLAY_NAME_KEY, name);
+    return name;
+  } catch {
+    fallbackName ??= generateGuestName();
+    return fallbackName;
+  }
+}
+
+/**
+ * Store a new display name. Blank names are ignored.
+ *
+ * @returns the name now in use
+ */
+export function setDisplayName(name: string): string {
+  const normalized = normalizeDisplayName(name);
+  if (!normalized) return getDisplayName();
+  try {
+    localStorage.setItem(DISPLAY_NAME_KEY, normalized);
+  } catch {
+    fallbackName = normalized;
+  }
+  return normalized;
+}
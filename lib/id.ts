@@ -3,6 +3,7 @@ import { randomBytes } from 'crypto';
 const CHARSET =
   'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
 const ID_LENGTH = 12;
+const ID_PATTERN = new RegExp(`^[${CHARSET}]{${ID_LENGTH}}$`);
 // Reject bytes >= MAX_BYTE to avoid modulo bias (256 is not evenly divisible by 62)
 const MAX_BYTE = Math.floor(256 / CHARSET.length) * CHARSET.length;
 
@@ -18,3 +19,10 @@ export function generateId(): string {
   }
   return id;
 }
+
+/**
+ * Whether value has the format of IDs made by generateId.
+ */
+export function isGeneratedId(value: string): boolean {
+  return ID_PATTERN.test(value);
+}
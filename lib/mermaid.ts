@@ -0,0 +1,41 @@
+/**
+ * Mermaid diagrams for code blocks tagged `mermaid`.
+ *
+ * The library is large, so it is loaded the first time a diagram is
+ * shown rather than with the editor.
+ */
+
+type Mermaid = (typeof import('mermaid'))['default'];
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+let diagramCount = 0;
+
+function loadMermaid(): Promise<Mermaid> {
+  mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => {
+    const dark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'strict',
+      theme: dark ? 'dark' : 'default',
+      // Errors are shown by the caller instead of as an error diagram
+      suppressErrorRendering: true,
+    });
+    return mermaid;
+  });
+  return mermaidPromise;
+}
+
+/**
+ * Render a diagram to SVG markup.
+ *
+ * @throws if the source is not a valid diagram, with the parser's message
+ */
+export async function renderMermaid(source: string): Promise<string> {
+  const mermaid = await loadMermaid();
+  diagramCount++;
+  const { svg } = await mermaid.render(
+    `mermaid-diagram-${diagramCount}`,
+    source,
+  );
+  return svg;
+}
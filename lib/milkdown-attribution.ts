@@ -0,0 +1,211 @@
+import { $prose } from '@milkdown/utils';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import {
+  Decoration,
+  DecorationSet,
+  type EditorView,
+} from '@milkdown/prose/view';
+import { ySyncPluginKey, type ProsemirrorBinding } from 'y-prosemirror';
+import * as Y from 'yjs';
+
+// Recomputing walks the whole document, so bursts of edits are batched
+const ATTRIBUTION_REFRESH_MS = 200;
+const UNKNOWN_AUTHOR = '不明';
+
+export interface AuthorRange {
+  from: number;
+  to: number;
+  author: string | null;
+}
+
+interface AttributionState {
+  enabled: boolean;
+  decorations: DecorationSet;
+}
+
+interface AttributionMeta {
+  enabled?: boolean;
+  decorations?: DecorationSet;
+}
+
+const attributionPluginKey = new PluginKey<AttributionState>(
+  'markdown-board-attribution',
+);
+
+/**
+ * Split the text of a Yjs fragment into ranges by the client that
+ * inserted it, in ProseMirror positions.
+ * Element sizes come from y-prosemirror's binding mapping, so the result
+ * is only valid while the editor and the fragment are in sync.
+ *
+ * @returns null if an element has no ProseMirror node yet
+ */
+export function collectAuthorRanges(
+  fragment: Y.XmlFragment,
+  mapping: ProsemirrorBinding['mapping'],
+  getAuthor: (clientId: number) => string | null,
+): AuthorRange[] | null {
+  const ranges: AuthorRange[] = [];
+
+  const push = (from: number, to: number, author: string | null) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.to === from && last.author === author) {
+      last.to = to;
+    } else {
+      ranges.push({ from, to, author });
+    }
+  };
+
+  const walk = (parent: Y.XmlFragment | Y.XmlElement, start: number) => {
+    let pos = start;
+    for (const child of parent.toArray()) {
+      if (child instanceof Y.XmlText) {
+        let index = 0;
+        for (let item = child._start; item !== null; item = item.right) {
+          if (item.deleted || !item.countable) continue;
+          push(
+            pos + index,
+            pos + index + item.length,
+            getAuthor(item.id.client),
+          );
+          index += item.length;
+        }
+        pos += child.length;
+      } else if (child instanceof Y.XmlElement) {
+        const node = mapping.get(child);
+        if (!node || Array.isArray(node)) return false;
+        if (!walk(child, pos + 1)) return false;
+        pos += node.nodeSize;
+      }
+    }
+    return true;
+  };
+
+  return walk(fragment, 0) ? ranges : null;
+}
+
+/**
+ * A stable hue for an author name, so each person keeps their tint.
+ */
+export function authorHue(author: string): number {
+  let hash = 0;
+  for (const char of author) {
+    hash = (hash * 31 + char.codePointAt(0)!) | 0;
+  }
+  return Math.abs(hash) % 360;
+}
+
+function buildDecorations(
+  view: EditorView,
+  ydoc: Y.Doc,
+  permanentUserData: Y.PermanentUserData,
+): DecorationSet {
+  const binding = ySyncPluginKey.getState(view.state)?.binding;
+  if (!binding) return DecorationSet.empty;
+
+  const ranges = collectAuthorRanges(
+    ydoc.getXmlFragment('prosemirror'),
+    binding.mapping,
+    (clientId) => permanentUserData.getUserByClientId(clientId) ?? null,
+  );
+  if (!ranges) return DecorationSet.empty;
+
+  const size = view.state.doc.content.size;
+  const decorations = ranges
+    .filter((range) => range.to <= size)
+    .map(({ from, to, author }) =>
+      Decoration.inline(from, to, {
+        class: 'author-tint',
+        title: author ?? UNKNOWN_AUTHOR,
+        style: author ? `--author-hue: ${authorHue(author)}` : '',
+      }),
+    );
+  return DecorationSet.create(view.state.doc, decorations);
+}
+
+/**
+ * Show or hide the author tint in an editor created with
+ * createAttributionPlugin.
+ */
+export function setAttributionVisible(
+  view: EditorView,
+  ydoc: Y.Doc,
+  permanentUserData: Y.PermanentUserData,
+  enabled: boolean,
+): void {
+  const meta: AttributionMeta = {
+    enabled,
+    decorations: enabled
+      ? buildDecorations(view, ydoc, permanentUserData)
+      : DecorationSet.empty,
+  };
+  view.dispatch(
+    view.state.tr
+      .setMeta(attributionPluginKey, meta)
+      .setMeta('addToHistory', false),
+  );
+}
+
+/**
+ * Tints text by the person who wrote it, with the author's name as a
+ * tooltip. Authors are looked up in Y.PermanentUserData, which maps the
+ * Yjs client IDs of each editing session to a display name.
+ * Hidden until enabled with setAttributionVisible.
+ */
+export function createAttributionPlugin(
+  ydoc: Y.Doc,
+  permanentUserData: Y.PermanentUserData,
+) {
+  return $prose(
+    () =>
+      new Plugin<AttributionState>({
+        key: attributionPluginKey,
+        state: {
+          init: () => ({ enabled: false, decorations: DecorationSet.empty }),
+          apply: (tr, value) => {
+            const meta = tr.getMeta(attributionPluginKey) as
+              | AttributionMeta
+              | undefined;
+            const enabled = meta?.enabled ?? value.enabled;
+            if (!enabled) {
+              return { enabled, decorations: DecorationSet.empty };
+            }
+            // Keep the tint roughly in place until the next refresh
+            return {
+              enabled,
+              decorations:
+                meta?.decorations ?? value.decorations.map(tr.mapping, tr.doc),
+            };
+          },
+        },
+        props: {
+          decorations: (state) =>
+            attributionPluginKey.getState(state)?.decorations,
+        },
+        view: (view) => {
+          const fragment = ydoc.getXmlFragment('prosemirror');
+          let timer: ReturnType<typeof setTimeout> | null = null;
+
+          // The fragment changes after ProseMirror for local edits, so
+          // positions are only recomputed once both sides agree
+          const scheduleRefresh = () => {
+            if (timer) return;
+            timer = setTimeout(() => {
+              timer = null;
+              if (attributionPluginKey.getState(view.state)?.enabled) {
+                setAttributionVisible(view, ydoc, permanentUserData, true);
+              }
+            }, ATTRIBUTION_REFRESH_MS);
+          };
+
+          fragment.observeDeep(scheduleRefresh);
+          return {
+            destroy: () => {
+              fragment.unobserveDeep(scheduleRefresh);
+              if (timer) clearTimeout(timer);
+            },
+          };
+        },
+      }),
+  );
+}
@@ -0,0 +1,357 @@
+/**
+ * Syntax highlighting and a language picker for code blocks.
+ *
+ * Highlighting is a set of decorations computed from the document with
+ * lowlight (highlight.js grammars), so it follows remote changes and
+ * needs nothing stored in the document. The picker sets the block's
+ * `language` attribute, which is what the Markdown fence carries.
+ *
+ * Blocks tagged `mermaid` are shown as diagrams, with their source
+ * revealed while the cursor is inside them.
+ */
+
+import type { Node } from '@milkdown/prose/model';
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+} from '@milkdown/prose/state';
+import {
+  Decoration,
+  DecorationSet,
+  type EditorView,
+  type NodeView,
+  type ViewMutationRecord,
+} from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+import { common, createLowlight } from 'lowlight';
+import { renderMermaid } from './mermaid';
+
+const CODE_BLOCK = 'code_block';
+const MERMAID = 'mermaid';
+// Wait for a pause in typing before drawing a diagram again
+const DIAGRAM_DELAY_MS = 300;
+
+// Languages offered by the picker; others typed in Markdown still work
+// when highlight.js knows them
+export const CODE_LANGUAGES: Array<{ id: string; label: string }> = [
+  { id: '', label: 'テキスト' },
+  { id: 'bash', label: 'Bash' },
+  { id: 'c', label: 'C' },
+  { id: 'cpp', label: 'C++' },
+  { id: 'csharp', label: 'C#' },
+  { id: 'css', label: 'CSS' },
+  { id: 'diff', label: 'Diff' },
+  { id: 'go', label: 'Go' },
+  { id: 'graphql', label: 'GraphQL' },
+  { id: 'html', label: 'HTML' },
+  { id: 'java', label: 'Java' },
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'json', label: 'JSON' },
+  { id: 'kotlin', label: 'Kotlin' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: MERMAID, label: 'Mermaid' },
+  { id: 'php', label: 'PHP' },
+  { id: 'python', label: 'Python' },
+  { id: 'ruby', label: 'Ruby' },
+  { id: 'rust', label: 'Rust' },
+  { id: 'scss', label: 'SCSS' },
+  { id: 'sql', label: 'SQL' },
+  { id: 'swift', label: 'Swift' },
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'xml', label: 'XML' },
+  { id: 'yaml', label: 'YAML' },
+];
+
+const lowlight = createLowlight(common);
+
+type HighlightNode = ReturnType<typeof lowlight.highlight>['children'][number];
+
+export interface HighlightRange {
+  // Offsets in the code
+  from: number;
+  to: number;
+  className: string;
+}
+
+/**
+ * Highlighted ranges of code, or none for unknown languages.
+ */
+export function getHighlightRanges(
+  code: string,
+  language: string,
+): HighlightRange[] {
+  const name = language.toLowerCase();
+  if (!name || !lowlight.registered(name)) return [];
+
+  const ranges: HighlightRange[] = [];
+  let offset = 0;
+  const visit = (nodes: HighlightNode[], classes: string[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        const to = offset + node.value.length;
+        if (classes.length > 0) {
+          ranges.push({ from: offset, to, className: classes.join(' ') });
+        }
+        offset = to;
+      } else if (node.type === 'element') {
+        const className = node.properties.className;
+        visit(
+          node.children,
+          Array.isArray(className)
+            ? [...classes, ...className.map(String)]
+            : classes,
+        );
+      }
+    }
+  };
+  visit(lowlight.highlight(name, code).children, []);
+  return ranges;
+}
+
+const codeBlockPluginKey = new PluginKey<DecorationSet>(
+  'markdown-board-code-blocks',
+);
+
+function createHighlightDecorations(
+  doc: Node,
+  cache: WeakMap<Node, HighlightRange[]>,
+): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== CODE_BLOCK) return true;
+    // Nodes are immutable, so unchanged blocks keep their ranges
+    let ranges = cache.get(node);
+    if (!ranges) {
+      ranges = getHighlightRanges(
+        node.textContent,
+        String(node.attrs.language ?? ''),
+      );
+      cache.set(node, ranges);
+    }
+    for (const { from, to, className } of ranges) {
+      decorations.push(
+        Decoration.inline(pos + 1 + from, pos + 1 + to, { class: className }),
+      );
+    }
+    return false;
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Mark the code block holding the cursor, which shows the source of
+ * diagrams.
+ */
+function createEditingDecoration(state: EditorState): Decoration | null {
+  const { $from, $to } = state.selection;
+  if ($from.parent.type.name !== CODE_BLOCK || !$from.sameParent($to)) {
+    return null;
+  }
+  return Decoration.node($from.before(), $from.after(), {
+    class: 'code-block-editing',
+  });
+}
+
+class CodeBlockView implements NodeView {
+  dom: HTMLElement;
+  contentDOM: HTMLElement;
+  private header: HTMLElement;
+  private select: HTMLSelectElement;
+  private diagram: HTMLElement;
+  private language: string | null = null;
+  // Source of the diagram drawn or being drawn
+  private diagramSource: string | null = null;
+  private diagramTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private node: Node,
+    private view: EditorView,
+    private getPos: () => number | undefined,
+  ) {
+    this.dom = document.createElement('div');
+    this.dom.className = 'code-block';
+
+    this.header = document.createElement('div');
+    this.header.className = 'code-block-header';
+    this.header.contentEditable = 'false';
+    this.select = document.createElement('select');
+    this.select.className = 'code-block-language';
+    this.select.setAttribute('aria-label', 'コードの言語');
+    this.select.addEventListener('change', () => this.setLanguage());
+    this.header.append(this.select);
+
+    const pre = document.createElement('pre');
+    this.contentDOM = document.createElement('code');
+    this.contentDOM.spellcheck = false;
+    pre.append(this.contentDOM);
+
+    this.diagram = document.createElement('div');
+    this.diagram.className = 'code-block-diagram';
+    this.diagram.contentEditable = 'false';
+    this.diagram.addEventListener('mousedown', (event) => {
+      event.preventDefault();
+      this.edit();
+    });
+
+    this.dom.append(this.header, pre, this.diagram);
+    this.render();
+  }
+
+  private setLanguage(): void {
+    const pos = this.getPos();
+    if (pos === undefined) return;
+    this.view.dispatch(
+      this.view.state.tr.setNodeAttribute(pos, 'language', this.select.value),
+    );
+  }
+
+  // Put the cursor at the end of the source
+  private edit(): void {
+    const pos = this.getPos();
+    if (pos === undefined || !this.view.editable) return;
+    const end = pos + this.node.nodeSize - 1;
+    this.view.dispatch(
+      this.view.state.tr.setSelection(
+        TextSelection.create(this.view.state.doc, end),
+      ),
+    );
+    this.view.focus();
+  }
+
+  private render(): void {
+    this.select.disabled = !this.view.editable;
+    const language = String(this.node.attrs.language ?? '');
+    if (language !== this.language) {
+      this.language = language;
+      this.renderPicker(language);
+    }
+
+    const isDiagram = language.toLowerCase() === MERMAID;
+    this.dom.classList.toggle('code-block-mermaid', isDiagram);
+    this.diagram.hidden = !isDiagram;
+    if (isDiagram) {
+      this.scheduleDiagram(this.node.textContent);
+    } else {
+      this.cancelDiagram();
+    }
+  }
+
+  private renderPicker(language: string): void {
+    const options = CODE_LANGUAGES.map(
+      ({ id, label }) => new Option(label, id),
+    );
+    // Keep languages written in Markdown that the picker does not offer
+    if (!CODE_LANGUAGES.some(({ id }) => id === language)) {
+      options.push(new Option(language, language));
+    }
+    this.select.replaceChildren(...options);
+    this.select.value = language;
+    if (language) {
+      this.dom.dataset.language = language;
+    } else {
+      delete this.dom.dataset.language;
+    }
+  }
+
+  private scheduleDiagram(source: string): void {
+    if (source === this.diagramSource) return;
+    const first = this.diagramSource === null;
+    this.cancelDiagram();
+    this.diagramSource = source;
+    if (first) {
+      void this.drawDiagram(source);
+    } else {
+      this.diagramTimer = setTimeout(() => {
+        this.diagramTimer = null;
+        void this.drawDiagram(source);
+      }, DIAGRAM_DELAY_MS);
+    }
+  }
+
+  private cancelDiagram(): void {
+    if (this.diagramTimer !== null) clearTimeout(this.diagramTimer);
+    this.diagramTimer = null;
+    this.diagramSource = null;
+  }
+
+  private async drawDiagram(source: string): Promise<void> {
+    if (!source.trim()) {
+      this.showDiagramMessage('図の定義を入力してください', false);
+      return;
+    }
+    try {
+      const svg = await renderMermaid(source);
+      // A newer source or another language may have replaced it
+      if (source !== this.diagramSource) return;
+      this.diagram.classList.remove('code-block-diagram-error');
+      this.diagram.innerHTML = svg;
+    } catch (error) {
+      if (source !== this.diagramSource) return;
+      this.showDiagramMessage(
+        error instanceof Error ? error.message : String(error),
+        true,
+      );
+    }
+  }
+
+  private showDiagramMessage(message: string, isError: boolean): void {
+    const text = document.createElement('p');
+    text.textContent = message;
+    this.diagram.classList.toggle('code-block-diagram-error', isError);
+    this.diagram.replaceChildren(text);
+  }
+
+  update(node: Node): boolean {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  // The picker and the diagram handle their own events
+  stopEvent(event: Event): boolean {
+    const target = event.target as globalThis.Node;
+    return this.header.contains(target) || this.diagram.contains(target);
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord): boolean {
+    if (mutation.type === 'selection') return false;
+    return !this.contentDOM.contains(mutation.target);
+  }
+
+  destroy(): void {
+    this.cancelDiagram();
+  }
+}
+
+/**
+ * Highlighting, language pickers and diagrams of code blocks. Pickers
+ * are disabled in read-only editors.
+ */
+export function codeBlockPlugin(): Plugin<DecorationSet> {
+  const cache = new WeakMap<Node, HighlightRange[]>();
+
+  return new Plugin<DecorationSet>({
+    key: codeBlockPluginKey,
+    state: {
+      init: (_config, state) => createHighlightDecorations(state.doc, cache),
+      apply: (tr, value) =>
+        tr.docChanged ? createHighlightDecorations(tr.doc, cache) : value,
+    },
+    props: {
+      decorations: (state) => {
+        const highlights = codeBlockPluginKey.getState(state);
+        const editing = createEditingDecoration(state);
+        return editing ? highlights?.add(state.doc, [editing]) : highlights;
+      },
+      nodeViews: {
+        [CODE_BLOCK]: (node, view, getPos) =>
+          new CodeBlockView(node, view, getPos),
+      },
+    },
+  });
+}
+
+export const codeBlocks = $prose(() => codeBlockPlugin());
@@ -0,0 +1,211 @@
+import { $prose } from '@milkdown/utils';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import {
+  Decoration,
+  DecorationSet,
+  type EditorView,
+} from '@milkdown/prose/view';
+import {
+  absolutePositionToRelativePosition,
+  relativePositionToAbsolutePosition,
+  ySyncPluginKey,
+} from 'y-prosemirror';
+import type * as Y from 'yjs';
+import { getCommentsMap, listThreads, type CommentThread } from './comments';
+
+// Highlights are recomputed from the Yjs side; bursts of changes are batched
+const COMMENT_REFRESH_MS = 50;
+const MAX_QUOTE_LENGTH = 80;
+
+export interface CommentRange {
+  from: number;
+  to: number;
+}
+
+interface CommentPluginState {
+  activeThreadId: string | null;
+  decorations: DecorationSet;
+}
+
+interface CommentMeta {
+  activeThreadId?: string | null;
+  decorations?: DecorationSet;
+}
+
+const commentPluginKey = new PluginKey<CommentPluginState>(
+  'markdown-board-comments',
+);
+
+/**
+ * Where a thread's text currently is in the editor.
+ *
+ * @returns null if the text was deleted or the editor is not bound yet
+ */
+export function getThreadRange(
+  view: EditorView,
+  ydoc: Y.Doc,
+  thread: Pick<CommentThread, 'anchor' | 'head'>,
+): CommentRange | null {
+  const binding = ySyncPluginKey.getState(view.state)?.binding;
+  if (!binding) return null;
+
+  const fragment = ydoc.getXmlFragment('prosemirror');
+  const from = relativePositionToAbsolutePosition(
+    ydoc,
+    fragment,
+    thread.anchor,
+    binding.mapping,
+  );
+  const to = relativePositionToAbsolutePosition(
+    ydoc,
+    fragment,
+    thread.head,
+    binding.mapping,
+  );
+  const size = view.state.doc.content.size;
+  if (from === null || to === null || from >= to || to > size) return null;
+  return { from, to };
+}
+
+/**
+ * Anchor for a new thread: the selected text, or the whole block the
+ * cursor is in when nothing is selected.
+ *
+ * @returns null if there is no text to comment on
+ */
+export function getSelectionAnchor(
+  view: EditorView,
+  ydoc: Y.Doc,
+): {
+  anchor: Y.RelativePosition;
+  head: Y.RelativePosition;
+  quote: string;
+} | null {
+  const binding = ySyncPluginKey.getState(view.state)?.binding;
+  if (!binding) return null;
+
+  const { selection, doc } = view.state;
+  let { from, to } = selection;
+  if (selection.empty) {
+    const { $from } = selection;
+    if (!$from.parent.isTextblock) return null;
+    from = $from.start();
+    to = $from.end();
+  }
+  const quote = doc.textBetween(from, to, ' ').trim();
+  if (!quote) return null;
+
+  const fragment = ydoc.getXmlFragment('prosemirror');
+  return {
+    anchor: absolutePositionToRelativePosition(from, fragment, binding.mapping),
+    head: absolutePositionToRelativePosition(to, fragment, binding.mapping),
+    quote: quote.slice(0, MAX_QUOTE_LENGTH),
+  };
+}
+
+function buildDecorations(
+  view: EditorView,
+  ydoc: Y.Doc,
+  activeThreadId: string | null,
+): DecorationSet {
+  const decorations = listThreads(ydoc)
+    .filter((thread) => !thread.resolved)
+    .flatMap((thread) => {
+      const range = getThreadRange(view, ydoc, thread);
+      if (!range) return [];
+      const active = thread.id === activeThreadId;
+      return [
+        Decoration.inline(range.from, range.to, {
+          class: active
+            ? 'comment-anchor comment-anchor-active'
+            : 'comment-anchor',
+          'data-comment-thread': thread.id,
+        }),
+      ];
+    });
+  return DecorationSet.create(view.state.doc, decorations);
+}
+
+/**
+ * Highlight the text of open threads, emphasising the active one.
+ */
+export function refreshCommentHighlights(
+  view: EditorView,
+  ydoc: Y.Doc,
+  activeThreadId: string | null,
+): void {
+  const meta: CommentMeta = {
+    activeThreadId,
+    decorations: buildDecorations(view, ydoc, activeThreadId),
+  };
+  view.dispatch(
+    view.state.tr
+      .setMeta(commentPluginKey, meta)
+      .setMeta('addToHistory', false),
+  );
+}
+
+/**
+ * Highlights the text that open comment threads are anchored to.
+ * Clicking a highlight is handled by the comment margin through the
+ * `data-comment-thread` attribute.
+ */
+export function createCommentPlugin(ydoc: Y.Doc) {
+  return $prose(
+    () =>
+      new Plugin<CommentPluginState>({
+        key: commentPluginKey,
+        state: {
+          init: () => ({
+            activeThreadId: null,
+            decorations: DecorationSet.empty,
+          }),
+          apply: (tr, value) => {
+            const meta = tr.getMeta(commentPluginKey) as
+              | CommentMeta
+              | undefined;
+            return {
+              activeThreadId:
+                meta?.activeThreadId !== undefined
+                  ? meta.activeThreadId
+                  : value.activeThreadId,
+              decorations:
+                meta?.decorations ?? value.decorations.map(tr.mapping, tr.doc),
+            };
+          },
+        },
+        props: {
+          decorations: (state) => commentPluginKey.getState(state)?.decorations,
+        },
+        view: (view) => {
+          const fragment = ydoc.getXmlFragment('prosemirror');
+          const comments = getCommentsMap(ydoc);
+          let timer: ReturnType<typeof setTimeout> | null = null;
+
+          const scheduleRefresh = () => {
+            if (timer) return;
+            timer = setTimeout(() => {
+              timer = null;
+              const state = commentPluginKey.getState(view.state);
+              refreshCommentHighlights(
+                view,
+                ydoc,
+                state?.activeThreadId ?? null,
+              );
+            }, COMMENT_REFRESH_MS);
+          };
+
+          fragment.observeDeep(scheduleRefresh);
+          comments.observeDeep(scheduleRefresh);
+          scheduleRefresh();
+          return {
+            destroy: () => {
+              fragment.unobserveDeep(scheduleRefresh);
+              comments.unobserveDeep(scheduleRefresh);
+              if (timer) clearTimeout(timer);
+            },
+          };
+        },
+      }),
+  );
+}
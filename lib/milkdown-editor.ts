@@ -0,0 +1,64 @@
+import { Editor, rootCtx, editorViewOptionsCtx } from '@milkdown/core';
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import { commonmark } from '@milkdown/preset-commonmark';
+import { gfm } from '@milkdown/preset-gfm';
+import { collab, collabServiceCtx } from '@milkdown/plugin-collab';
+import type * as Y from 'yjs';
+import type { Awareness } from 'y-protocols/awareness';
+import { pageLinks } from '../server/page-link-node';
+import { codeBlocks } from './milkdown-code-blocks';
+import { math } from './milkdown-math';
+import { suggestions } from './milkdown-suggestions';
+
+export interface MilkdownEditorOptions {
+  readOnly: boolean;
+  /** Additional Milkdown plugins loaded after the presets. */
+  plugins?: MilkdownPlugin[];
+  /** Required by y-prosemirror to render snapshots (version diffs). */
+  permanentUserData?: Y.PermanentUserData;
+}
+
+/**
+ * Build a Milkdown editor bound to the `prosemirror` fragment of ydoc.
+ * The collab service is configured but not connected; callers connect it
+ * once the document is ready to be rendered.
+ */
+export function createMilkdownEditor(
+  container: HTMLElement,
+  ydoc: Y.Doc,
+  awareness: Awareness,
+  { readOnly, plugins = [], permanentUserData }: MilkdownEditorOptions,
+): Promise<Editor> {
+  const builder = Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, container);
+      if (readOnly) {
+        ctx.set(editorViewOptionsCtx, { editable: () => false });
+      }
+    })
+    .use(commonmark)
+    .use(gfm)
+    .use(suggestions)
+    .use(pageLinks)
+    .use(codeBlocks)
+    .use(math)
+    .use(plugins)
+    .use(collab)
+    .config((ctx) => {
+      const collabService = ctx.get(collabServiceCtx);
+      collabService.bindDoc(ydoc);
+      collabService.setAwareness(awareness);
+      collabService.mergeOptions({
+        ...(permanentUserData && { ySyncOpts: { permanentUserData } }),
+        yCursorOpts: {
+          cursorBuilder: () => {
+            const cursor = document.createElement('span');
+            cursor.classList.add('ProseMirror-yjs-cursor');
+            return cursor;
+          },
+        },
+      });
+    });
+
+  return builder.create();
+}
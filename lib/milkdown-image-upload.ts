@@ -0,0 +1,215 @@
+/**
+ * Uploading images pasted or dropped into the editor.
+ *
+ * Each image is stored as an attachment of the page (see
+ * server/attachments.ts) and inserted as a Markdown image pointing at
+ * its URL. A placeholder marks where it goes while it uploads; it moves
+ * with edits made in the meantime, local or remote. Images that cannot
+ * be uploaded leave a short-lived message in its place instead.
+ */
+
+import {
+  Plugin,
+  PluginKey,
+  type EditorState,
+  type Transaction,
+} from '@milkdown/prose/state';
+import {
+  Decoration,
+  DecorationSet,
+  type EditorView,
+} from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+import { isUploadAttachmentResponse, logResponseError } from './api';
+import { ATTACHMENT_TYPES } from './constants';
+import { logger } from './logger';
+
+const IMAGE = 'image';
+const UPLOAD_ERROR_DISPLAY_MS = 5000;
+
+type UploadImage = (file: File) => Promise<string>;
+
+type ImageUploadMeta =
+  | { add: { id: string; pos: number } }
+  | { fail: { id: string; message: string } }
+  | { remove: string };
+
+const imageUploadPluginKey = new PluginKey<DecorationSet>(
+  'markdown-board-image-upload',
+);
+
+let uploadCount = 0;
+
+/**
+ * Upload an image as an attachment of a page.
+ *
+ * @returns the URL of the stored image
+ */
+export async function uploadImage(pageId: string, file: File): Promise<string> {
+  const response = await fetch(`/api/pages/${pageId}/attachments`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
+  if (!response.ok) {
+    await logResponseError('UploadImage', response);
+    throw new Error(`Upload failed: ${response.status}`);
+  }
+  const data: unknown = await response.json();
+  if (!isUploadAttachmentResponse(data)) {
+    throw new Error('Unexpected upload response');
+  }
+  return data.url;
+}
+
+function getImageFiles(files: FileList | null | undefined): File[] {
+  return [...(files ?? [])].filter((file) => file.type.startsWith('image/'));
+}
+
+function findPlaceholder(state: EditorState, id: string): number | null {
+  const found = imageUploadPluginKey
+    .getState(state)
+    ?.find(undefined, undefined, (spec) => spec.id === id);
+  return found?.length ? found[0].from : null;
+}
+
+function createWidget(text: string, error: boolean): HTMLElement {
+  const widget = document.createElement('span');
+  widget.className = error
+    ? 'image-upload-placeholder image-upload-error'
+    : 'image-upload-placeholder';
+  widget.textContent = text;
+  return widget;
+}
+
+function applyState(tr: Transaction, value: DecorationSet): DecorationSet {
+  const placeholders = value.map(tr.mapping, tr.doc);
+  const meta = tr.getMeta(imageUploadPluginKey) as ImageUploadMeta | undefined;
+  if (!meta) return placeholders;
+
+  if ('add' in meta) {
+    return placeholders.add(tr.doc, [
+      Decoration.widget(
+        meta.add.pos,
+        createWidget('画像をアップロード中…', false),
+        { id: meta.add.id },
+      ),
+    ]);
+  }
+  const id = 'fail' in meta ? meta.fail.id : meta.remove;
+  const found = placeholders.find(
+    undefined,
+    undefined,
+    (spec) => spec.id === id,
+  );
+  // remove() clears the entries of the array it is given
+  const pos = found.length > 0 ? found[0].from : null;
+  const remaining = placeholders.remove(found);
+  if (!('fail' in meta) || pos === null) return remaining;
+  // The message replaces the placeholder, keeping its ID
+  return remaining.add(tr.doc, [
+    Decoration.widget(pos, createWidget(meta.fail.message, true), { id }),
+  ]);
+}
+
+/**
+ * Show message where the placeholder id was, for a few seconds.
+ */
+function showUploadError(view: EditorView, id: string, message: string) {
+  if (view.isDestroyed) return;
+  const fail: ImageUploadMeta = { fail: { id, message } };
+  view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, fail));
+  setTimeout(() => {
+    if (view.isDestroyed) return;
+    const remove: ImageUploadMeta = { remove: id };
+    view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, remove));
+  }, UPLOAD_ERROR_DISPLAY_MS);
+}
+
+/**
+ * Upload files and insert them as images at pos. Files of a type the
+ * server does not accept are not uploaded.
+ */
+export function insertImages(
+  view: EditorView,
+  files: File[],
+  pos: number,
+  upload: UploadImage,
+): void {
+  for (const file of files) {
+    uploadCount++;
+    const id = `upload-${uploadCount}`;
+    const add: ImageUploadMeta = { add: { id, pos } };
+    view.dispatch(view.state.tr.setMeta(imageUploadPluginKey, add));
+
+    if (!ATTACHMENT_TYPES.includes(file.type)) {
+      logger.warn(`[ImageUpload] Unsupported image type: ${file.type}`);
+      showUploadError(view, id, 'この形式の画像は貼り付けられません');
+      continue;
+    }
+
+    upload(file)
+      .then((src) => {
+        // The editor was closed while uploading
+        if (view.isDestroyed) return;
+        const at = findPlaceholder(view.state, id);
+        // The placeholder's text was deleted while uploading
+        if (at === null) return;
+        const image = view.state.schema.nodes[IMAGE].create({
+          src,
+          alt: file.name,
+        });
+        const remove: ImageUploadMeta = { remove: id };
+        view.dispatch(
+          view.state.tr
+            .replaceWith(at, at, image)
+            .setMeta(imageUploadPluginKey, remove),
+        );
+      })
+      .catch((error) => {
+        logger.error('[ImageUpload] Failed to upload image:', error);
+        showUploadError(view, id, '画像をアップロードできませんでした');
+      });
+  }
+}
+
+/**
+ * Upload images pasted or dropped into the editor with upload.
+ */
+export function imageUploadPlugin(upload: UploadImage): Plugin<DecorationSet> {
+  return new Plugin<DecorationSet>({
+    key: imageUploadPluginKey,
+    state: {
+      init: () => DecorationSet.empty,
+      apply: applyState,
+    },
+    props: {
+      decorations: (state) => imageUploadPluginKey.getState(state),
+      handlePaste: (view, event) => {
+        const files = getImageFiles(event.clipboardData?.files);
+        if (files.length === 0) return false;
+        const { from, to } = view.state.selection;
+        if (from !== to) view.dispatch(view.state.tr.deleteSelection());
+        insertImages(view, files, view.state.selection.from, upload);
+        return true;
+      },
+      handleDrop: (view, event) => {
+        const files = getImageFiles(event.dataTransfer?.files);
+        if (files.length === 0) return false;
+        event.preventDefault();
+        const pos =
+          view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos ??
+          view.state.selection.from;
+        insertImages(view, files, pos, upload);
+        return true;
+      },
+    },
+  });
+}
+
+/**
+ * Image uploads for pageId, whose attachments the images become.
+ */
+export function createImageUploadPlugin(pageId: string) {
+  return $prose(() => imageUploadPlugin((file) => uploadImage(pageId, file)));
+}
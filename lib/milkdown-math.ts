@@ -0,0 +1,194 @@
+/**
+ * Rendering and editing of math nodes (see server/math-nodes.ts).
+ *
+ * Formulas are shown rendered with KaTeX. While the cursor is inside
+ * one, its LaTeX source is shown for editing together with a live
+ * preview; clicking a rendered formula puts the cursor in its source.
+ * Typing `$…$` makes an inline formula and `$$` followed by a space at
+ * the start of a line makes a block.
+ */
+
+import { schemaCtx } from '@milkdown/core';
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import { InputRule, textblockTypeInputRule } from '@milkdown/prose/inputrules';
+import type { Node } from '@milkdown/prose/model';
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+} from '@milkdown/prose/state';
+import {
+  Decoration,
+  DecorationSet,
+  type EditorView,
+  type NodeView,
+  type ViewMutationRecord,
+} from '@milkdown/prose/view';
+import { $inputRule, $prose } from '@milkdown/utils';
+import katex from 'katex';
+import { MATH_BLOCK, MATH_INLINE, mathNodes } from '../server/math-nodes';
+
+// `$formula$` right before the cursor, not part of `$$`; the formula
+// does not start or end with a space, so prices like `$5 and $` stay text
+const INLINE_MATH_PATTERN = /(?<!\$)\$([^$\s](?:[^$]*[^$\s])?)\$$/;
+const BLOCK_MATH_PATTERN = /^\$\$\s$/;
+
+const mathPluginKey = new PluginKey('markdown-board-math');
+
+function isMath(node: Node): boolean {
+  return node.type.name === MATH_INLINE || node.type.name === MATH_BLOCK;
+}
+
+/**
+ * Render LaTeX into element. Invalid formulas show KaTeX's error text.
+ */
+export function renderMath(
+  element: HTMLElement,
+  tex: string,
+  displayMode: boolean,
+): void {
+  element.classList.toggle('math-empty', !tex.trim());
+  if (!tex.trim()) {
+    element.textContent = '数式';
+    return;
+  }
+  katex.render(tex, element, { displayMode, throwOnError: false });
+}
+
+/**
+ * Mark the formula holding the cursor, which shows its source.
+ */
+function createEditingDecorations(state: EditorState): DecorationSet {
+  const { $from, $to } = state.selection;
+  for (let depth = $from.depth; depth > 0; depth--) {
+    const node = $from.node(depth);
+    if (!isMath(node)) continue;
+    if ($to.pos > $from.end(depth)) break;
+    return DecorationSet.create(state.doc, [
+      Decoration.node($from.before(depth), $from.after(depth), {
+        class: 'math-editing',
+      }),
+    ]);
+  }
+  return DecorationSet.empty;
+}
+
+class MathView implements NodeView {
+  dom: HTMLElement;
+  contentDOM: HTMLElement;
+  private preview: HTMLElement;
+  private tex: string | null = null;
+
+  constructor(
+    private node: Node,
+    private view: EditorView,
+    private getPos: () => number | undefined,
+  ) {
+    const block = node.type.name === MATH_BLOCK;
+    const tag = block ? 'div' : 'span';
+
+    this.dom = document.createElement(tag);
+    this.dom.className = block ? 'math-block' : 'math-inline';
+    this.contentDOM = document.createElement(block ? 'pre' : 'code');
+    this.contentDOM.className = 'math-source';
+    this.contentDOM.spellcheck = false;
+    this.preview = document.createElement(tag);
+    this.preview.className = 'math-preview';
+    this.preview.contentEditable = 'false';
+    this.preview.addEventListener('mousedown', (event) => {
+      event.preventDefault();
+      this.edit();
+    });
+    this.dom.append(this.contentDOM, this.preview);
+    this.render();
+  }
+
+  // Put the cursor at the end of the source
+  private edit(): void {
+    const pos = this.getPos();
+    if (pos === undefined || !this.view.editable) return;
+    const end = pos + this.node.nodeSize - 1;
+    this.view.dispatch(
+      this.view.state.tr.setSelection(
+        TextSelection.create(this.view.state.doc, end),
+      ),
+    );
+    this.view.focus();
+  }
+
+  private render(): void {
+    const tex = this.node.textContent;
+    if (tex === this.tex) return;
+    this.tex = tex;
+    renderMath(this.preview, tex, this.node.type.name === MATH_BLOCK);
+  }
+
+  update(node: Node): boolean {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  stopEvent(event: Event): boolean {
+    return this.preview.contains(event.target as globalThis.Node);
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord): boolean {
+    if (mutation.type === 'selection') return false;
+    return !this.contentDOM.contains(mutation.target);
+  }
+}
+
+/**
+ * Node views for formulas and the marking of the one being edited.
+ */
+export function mathPlugin(): Plugin {
+  const createView = (
+    node: Node,
+    view: EditorView,
+    getPos: () => number | undefined,
+  ) => new MathView(node, view, getPos);
+
+  return new Plugin({
+    key: mathPluginKey,
+    props: {
+      decorations: createEditingDecorations,
+      nodeViews: {
+        [MATH_INLINE]: createView,
+        [MATH_BLOCK]: createView,
+      },
+    },
+  });
+}
+
+/**
+ * Input rule turning a typed `$formula$` into an inline formula.
+ */
+export function inlineMathRule(): InputRule {
+  return new InputRule(INLINE_MATH_PATTERN, (state, match, start, end) => {
+    const type = state.schema.nodes[MATH_INLINE];
+    return state.tr.replaceWith(
+      start,
+      end,
+      type.create(null, state.schema.text(match[1])),
+    );
+  });
+}
+
+const inlineMathInputRule = $inputRule(() => inlineMathRule());
+
+const blockMathInputRule = $inputRule((ctx) =>
+  textblockTypeInputRule(
+    BLOCK_MATH_PATTERN,
+    ctx.get(schemaCtx).nodes[MATH_BLOCK],
+  ),
+);
+
+export const math: MilkdownPlugin[] = [
+  mathNodes,
+  inlineMathInputRule,
+  blockMathInputRule,
+  $prose(() => mathPlugin()),
+].flat();
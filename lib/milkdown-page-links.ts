@@ -0,0 +1,325 @@
+/**
+ * `[[` links between pages.
+ *
+ * Typing `[[` opens a menu of pages whose titles match what follows it;
+ * choosing one replaces the typed text with a link node (see
+ * server/page-link-node.ts). Links show the page's current title from
+ * the page list, so they follow renames.
+ */
+
+import type { Node } from '@milkdown/prose/model';
+import {
+  Plugin,
+  PluginKey,
+  type EditorState,
+  type Transaction,
+} from '@milkdown/prose/state';
+import type { EditorView, NodeView } from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+import { getPageLinkHref, PAGE_LINK } from '../server/page-link-node';
+import type { PageListItem } from './types';
+
+const MAX_MATCHES = 8;
+// `[[` followed by the query, up to the cursor
+const TRIGGER_PATTERN = /\[\[([^[\]\n]*)$/;
+
+export interface PageLinkQuery {
+  // Range of the typed `[[query`
+  from: number;
+  to: number;
+  query: string;
+}
+
+interface PageLinkState {
+  // null until the page list is loaded
+  pages: PageListItem[] | null;
+  query: PageLinkQuery | null;
+  // Highlighted entry of the menu
+  index: number;
+  // Start of a query closed with Escape, which stays closed
+  dismissedFrom: number | null;
+}
+
+interface PageLinkMeta {
+  pages?: PageListItem[];
+  index?: number;
+  dismiss?: boolean;
+}
+
+const pageLinkPluginKey = new PluginKey<PageLinkState>(
+  'markdown-board-page-links',
+);
+
+/**
+ * The `[[query` right before the cursor, if any.
+ */
+export function findPageLinkQuery(state: EditorState): PageLinkQuery | null {
+  const { selection } = state;
+  if (!selection.empty) return null;
+  const { $from } = selection;
+  if (!$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+
+  const before = $from.parent.textBetween(
+    0,
+    $from.parentOffset,
+    undefined,
+    '￼',
+  );
+  const match = TRIGGER_PATTERN.exec(before);
+  if (!match) return null;
+  return {
+    from: $from.pos - match[0].length,
+    to: $from.pos,
+    query: match[1],
+  };
+}
+
+/**
+ * Pages whose title contains query, best matches first.
+ */
+export function matchPages(
+  pages: PageListItem[],
+  query: string,
+): PageListItem[] {
+  const needle = query.trim().toLowerCase();
+  return pages
+    .filter((page) => page.title.toLowerCase().includes(needle))
+    .sort(
+      (a, b) =>
+        Number(b.title.toLowerCase().startsWith(needle)) -
+        Number(a.title.toLowerCase().startsWith(needle)),
+    )
+    .slice(0, MAX_MATCHES);
+}
+
+function getMenu(
+  state: EditorState,
+): { query: PageLinkQuery; matches: PageListItem[]; index: number } | null {
+  const pluginState = pageLinkPluginKey.getState(state);
+  if (!pluginState?.query || !pluginState.pages) return null;
+  const matches = matchPages(pluginState.pages, pluginState.query.query);
+  if (matches.length === 0) return null;
+  return {
+    query: pluginState.query,
+    matches,
+    index: Math.min(pluginState.index, matches.length - 1),
+  };
+}
+
+/**
+ * Replace the typed `[[query` with a link to page.
+ */
+export function insertPageLink(
+  view: EditorView,
+  query: PageLinkQuery,
+  page: PageListItem,
+): void {
+  const type = view.state.schema.nodes[PAGE_LINK];
+  const link = type.create({ pageId: page.id, title: page.title });
+  view.dispatch(view.state.tr.replaceWith(query.from, query.to, link));
+  view.focus();
+}
+
+/**
+ * Give the plugin the current page list, for the menu and link titles.
+ */
+export function setPageLinkPages(
+  view: EditorView,
+  pages: PageListItem[],
+): void {
+  const meta: PageLinkMeta = { pages };
+  view.dispatch(
+    view.state.tr
+      .setMeta(pageLinkPluginKey, meta)
+      .setMeta('addToHistory', false),
+  );
+}
+
+function setMeta(view: EditorView, meta: PageLinkMeta): void {
+  view.dispatch(view.state.tr.setMeta(pageLinkPluginKey, meta));
+}
+
+function applyState(
+  tr: Transaction,
+  value: PageLinkState,
+  state: EditorState,
+): PageLinkState {
+  const meta = tr.getMeta(pageLinkPluginKey) as PageLinkMeta | undefined;
+  const found = findPageLinkQuery(state);
+  const dismissedFrom = meta?.dismiss
+    ? (value.query?.from ?? null)
+    : value.dismissedFrom !== null
+      ? tr.mapping.map(value.dismissedFrom)
+      : null;
+  const dismissed = found !== null && found.from === dismissedFrom;
+
+  return {
+    pages: meta?.pages ?? value.pages,
+    query: dismissed ? null : found,
+    // A changed query starts from the best match again
+    index:
+      meta?.index ?? (found?.query === value.query?.query ? value.index : 0),
+    dismissedFrom: found ? dismissedFrom : null,
+  };
+}
+
+class PageLinkView implements NodeView {
+  dom: HTMLAnchorElement;
+
+  constructor(
+    private node: Node,
+    private view: EditorView,
+    private onDestroy: (view: PageLinkView) => void,
+  ) {
+    this.dom = document.createElement('a');
+    this.dom.className = 'page-link';
+    this.render();
+  }
+
+  render(): void {
+    const { pageId, title } = this.node.attrs as {
+      pageId: string;
+      title: string;
+    };
+    const pages = pageLinkPluginKey.getState(this.view.state)?.pages;
+    const page = pages?.find((item) => item.id === pageId);
+    // Pages that were deleted or archived keep their last known title
+    const missing = !!pages && !page;
+
+    this.dom.href = getPageLinkHref(pageId);
+    this.dom.setAttribute('data-page-link', pageId);
+    this.dom.textContent = page?.title || title || 'Untitled';
+    this.dom.classList.toggle('page-link-missing', missing);
+    if (missing) {
+      this.dom.title = 'このページは見つかりません';
+    } else {
+      this.dom.removeAttribute('title');
+    }
+  }
+
+  update(node: Node): boolean {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  ignoreMutation(): boolean {
+    return true;
+  }
+
+  destroy(): void {
+    this.onDestroy(this);
+  }
+}
+
+function renderMenu(
+  menu: HTMLElement,
+  view: EditorView,
+  state: ReturnType<typeof getMenu>,
+): void {
+  if (!state) {
+    menu.hidden = true;
+    menu.replaceChildren();
+    return;
+  }
+
+  const items = state.matches.map((page, i) => {
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.className = 'page-link-menu-item';
+    item.setAttribute('role', 'option');
+    item.setAttribute('aria-selected', String(i === state.index));
+    item.textContent = page.title || 'Untitled';
+    // Keep the editor focused while choosing
+    item.addEventListener('mousedown', (event) => {
+      event.preventDefault();
+      insertPageLink(view, state.query, page);
+    });
+    return item;
+  });
+  menu.replaceChildren(...items);
+  menu.hidden = false;
+
+  const coords = view.coordsAtPos(state.query.from);
+  menu.style.left = `${coords.left}px`;
+  menu.style.top = `${coords.bottom + 4}px`;
+}
+
+/**
+ * Autocomplete for `[[` links and the rendering of link nodes.
+ * Navigation on click is left to the page (see hooks/usePageLinks.ts).
+ */
+export function pageLinkPlugin(): Plugin<PageLinkState> {
+  const linkViews = new Set<PageLinkView>();
+
+  return new Plugin<PageLinkState>({
+    key: pageLinkPluginKey,
+    state: {
+      init: () => ({
+        pages: null,
+        query: null,
+        index: 0,
+        dismissedFrom: null,
+      }),
+      apply: (tr, value, _oldState, newState) =>
+        applyState(tr, value, newState),
+    },
+    props: {
+      nodeViews: {
+        [PAGE_LINK]: (node, view) => {
+          const linkView = new PageLinkView(node, view, (destroyed) =>
+            linkViews.delete(destroyed),
+          );
+          linkViews.add(linkView);
+          return linkView;
+        },
+      },
+      handleKeyDown: (view, event) => {
+        const menu = getMenu(view.state);
+        if (!menu) return false;
+        const count = menu.matches.length;
+        switch (event.key) {
+          case 'ArrowDown':
+            setMeta(view, { index: (menu.index + 1) % count });
+            return true;
+          case 'ArrowUp':
+            setMeta(view, { index: (menu.index - 1 + count) % count });
+            return true;
+          case 'Enter':
+          case 'Tab':
+            insertPageLink(view, menu.query, menu.matches[menu.index]);
+            return true;
+          case 'Escape':
+            setMeta(view, { dismiss: true });
+            return true;
+          default:
+            return false;
+        }
+      },
+    },
+    view: () => {
+      const menu = document.createElement('div');
+      menu.className = 'page-link-menu';
+      menu.setAttribute('role', 'listbox');
+      menu.setAttribute('aria-label', 'リンクするページ');
+      menu.hidden = true;
+      document.body.append(menu);
+
+      return {
+        update: (view, prevState) => {
+          const pages = pageLinkPluginKey.getState(view.state)?.pages;
+          if (pages !== pageLinkPluginKey.getState(prevState)?.pages) {
+            linkViews.forEach((linkView) => linkView.render());
+          }
+          renderMenu(menu, view, view.editable ? getMenu(view.state) : null);
+        },
+        destroy: () => menu.remove(),
+      };
+    },
+  });
+}
+
+export function createPageLinkPlugin() {
+  return $prose(() => pageLinkPlugin());
+}
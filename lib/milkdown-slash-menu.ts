@@ -0,0 +1,420 @@
+/**
+ * `/` menu for inserting blocks without knowing the Markdown syntax.
+ *
+ * Typing `/` at the start of a line or after a space opens a menu of the
+ * block types in the editor's schema, filtered by what follows the `/`.
+ * Choosing one replaces the typed text with the block: an empty line
+ * becomes the block, otherwise it is added below the line.
+ */
+
+import { Fragment, type Node, type Schema } from '@milkdown/prose/model';
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from '@milkdown/prose/state';
+import type { EditorView } from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+
+// `/` at the start of the text or after whitespace, up to the cursor
+const TRIGGER_PATTERN = /(?:^|\s)\/([^\s/]*)$/;
+const TABLE_ROWS = 3;
+const TABLE_COLUMNS = 3;
+
+export interface SlashCommand {
+  id: string;
+  label: string;
+  // The Markdown it stands for, shown as a hint
+  syntax: string;
+  // Other words it can be found by
+  keywords: string[];
+  // The blocks to insert, or null if the schema lacks them
+  create: (schema: Schema) => Node[] | null;
+}
+
+export interface SlashQuery {
+  // Range of the typed `/query`
+  from: number;
+  to: number;
+  query: string;
+}
+
+interface SlashMenuState {
+  query: SlashQuery | null;
+  // Highlighted entry of the menu
+  index: number;
+  // Start of a query closed with Escape, which stays closed
+  dismissedFrom: number | null;
+}
+
+interface SlashMenuMeta {
+  index?: number;
+  dismiss?: boolean;
+}
+
+const slashMenuPluginKey = new PluginKey<SlashMenuState>(
+  'markdown-board-slash-menu',
+);
+
+function heading(level: number): SlashCommand['create'] {
+  return (schema) => {
+    const type = schema.nodes.heading;
+    return type ? [type.create({ level })] : null;
+  };
+}
+
+function list(
+  listName: string,
+  itemAttrs: Record<string, unknown> | null = null,
+): SlashCommand['create'] {
+  return (schema) => {
+    const { list_item: item, paragraph } = schema.nodes;
+    const type = schema.nodes[listName];
+    if (!type || !item) return null;
+    // Task items are list items with a checked state (GFM)
+    if (
+      itemAttrs &&
+      Object.keys(itemAttrs).some((key) => !item.spec.attrs?.[key])
+    ) {
+      return null;
+    }
+    return [type.create(null, item.create(itemAttrs, paragraph.create()))];
+  };
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    id: 'heading1',
+    label: '見出し1',
+    syntax: '#',
+    keywords: ['h1', 'heading'],
+    create: heading(1),
+  },
+  {
+    id: 'heading2',
+    label: '見出し2',
+    syntax: '##',
+    keywords: ['h2', 'heading'],
+    create: heading(2),
+  },
+  {
+    id: 'heading3',
+    label: '見出し3',
+    syntax: '###',
+    keywords: ['h3', 'heading'],
+    create: heading(3),
+  },
+  {
+    id: 'bullet_list',
+    label: '箇条書きリスト',
+    syntax: '-',
+    keywords: ['bullet', 'list', 'ul'],
+    create: list('bullet_list'),
+  },
+  {
+    id: 'ordered_list',
+    label: '番号付きリスト',
+    syntax: '1.',
+    keywords: ['ordered', 'numbered', 'list', 'ol'],
+    create: list('ordered_list'),
+  },
+  {
+    id: 'task_list',
+    label: 'タスクリスト',
+    syntax: '- [ ]',
+    keywords: ['task', 'todo', 'checkbox', 'list'],
+    create: list('bullet_list', { checked: false }),
+  },
+  {
+    id: 'blockquote',
+    label: '引用',
+    syntax: '>',
+    keywords: ['quote', 'blockquote'],
+    create: (schema) => {
+      const quote = schema.nodes.blockquote?.createAndFill();
+      return quote ? [quote] : null;
+    },
+  },
+  {
+    id: 'code_block',
+    label: 'コードブロック',
+    syntax: '```',
+    keywords: ['code'],
+    create: (schema) => {
+      const type = schema.nodes.code_block;
+      return type ? [type.create()] : null;
+    },
+  },
+  {
+    id: 'math_block',
+    label: '数式',
+    syntax: '$$',
+    keywords: ['math', 'latex', 'equation'],
+    create: (schema) => {
+      const type = schema.nodes.math_block;
+      return type ? [type.create()] : null;
+    },
+  },
+  {
+    id: 'table',
+    label: '表',
+    syntax: '|',
+    keywords: ['table'],
+    create: (schema) => {
+      const {
+        table,
+        table_header_row: headerRow,
+        table_header: header,
+        table_row: row,
+        table_cell: cell,
+      } = schema.nodes;
+      if (!table || !headerRow || !header || !row || !cell) return null;
+      const cells = (type: typeof cell) =>
+        Array.from({ length: TABLE_COLUMNS }, () => type.createAndFill()!);
+      const rows = Array.from({ length: TABLE_ROWS }, (_, i) =>
+        i === 0
+          ? headerRow.create(null, cells(header))
+          : row.create(null, cells(cell)),
+      );
+      return [table.create(null, rows)];
+    },
+  },
+  {
+    id: 'hr',
+    label: '区切り線',
+    syntax: '---',
+    keywords: ['divider', 'hr', 'line'],
+    // Followed by a line to keep writing on
+    create: (schema) => {
+      const type = schema.nodes.hr;
+      return type ? [type.create(), schema.nodes.paragraph.create()] : null;
+    },
+  },
+];
+
+/**
+ * The `/query` right before the cursor, if any.
+ */
+export function findSlashQuery(state: EditorState): SlashQuery | null {
+  const { selection } = state;
+  if (!selection.empty) return null;
+  const { $from } = selection;
+  if (!$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+
+  const before = $from.parent.textBetween(
+    0,
+    $from.parentOffset,
+    undefined,
+    '￼',
+  );
+  const match = TRIGGER_PATTERN.exec(before);
+  if (!match) return null;
+  // Leave out the whitespace before the `/`
+  const length = match[1].length + 1;
+  return { from: $from.pos - length, to: $from.pos, query: match[1] };
+}
+
+/**
+ * Commands whose label or keywords contain query.
+ */
+export function matchSlashCommands(
+  commands: SlashCommand[],
+  query: string,
+): SlashCommand[] {
+  const needle = query.toLowerCase();
+  return commands.filter(
+    (command) =>
+      command.label.toLowerCase().includes(needle) ||
+      command.keywords.some((keyword) => keyword.includes(needle)),
+  );
+}
+
+/**
+ * The transaction replacing the typed `/query` with command's blocks, or
+ * null if they cannot be placed there (e.g. a table inside a table).
+ */
+export function createSlashCommandTransaction(
+  state: EditorState,
+  query: SlashQuery,
+  command: SlashCommand,
+): Transaction | null {
+  const nodes = command.create(state.schema);
+  if (!nodes) return null;
+  const content = Fragment.from(nodes);
+
+  const $from = state.doc.resolve(query.from);
+  const parent = $from.node(-1);
+  const index = $from.index(-1);
+  const empty = $from.parent.content.size === query.to - query.from;
+  const tr = state.tr;
+  let start: number;
+
+  if (empty && parent.canReplace(index, index + 1, content)) {
+    start = $from.before();
+    tr.replaceWith(start, $from.after(), content);
+  } else if (parent.canReplace(index + 1, index + 1, content)) {
+    tr.delete(query.from, query.to);
+    start = tr.mapping.map($from.after());
+    tr.insert(start, content);
+  } else {
+    return null;
+  }
+
+  return tr
+    .setSelection(TextSelection.near(tr.doc.resolve(start + 1)))
+    .scrollIntoView();
+}
+
+function getMenu(state: EditorState): {
+  query: SlashQuery;
+  matches: SlashCommand[];
+  index: number;
+} | null {
+  const pluginState = slashMenuPluginKey.getState(state);
+  if (!pluginState?.query) return null;
+  const { query } = pluginState;
+  const matches = matchSlashCommands(SLASH_COMMANDS, query.query).filter(
+    (command) => createSlashCommandTransaction(state, query, command),
+  );
+  if (matches.length === 0) return null;
+  return {
+    query,
+    matches,
+    index: Math.min(pluginState.index, matches.length - 1),
+  };
+}
+
+function runCommand(
+  view: EditorView,
+  query: SlashQuery,
+  command: SlashCommand,
+): void {
+  const tr = createSlashCommandTransaction(view.state, query, command);
+  if (tr) view.dispatch(tr);
+  view.focus();
+}
+
+function setMeta(view: EditorView, meta: SlashMenuMeta): void {
+  view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, meta));
+}
+
+function applyState(
+  tr: Transaction,
+  value: SlashMenuState,
+  state: EditorState,
+): SlashMenuState {
+  const meta = tr.getMeta(slashMenuPluginKey) as SlashMenuMeta | undefined;
+  const found = findSlashQuery(state);
+  const dismissedFrom = meta?.dismiss
+    ? (value.query?.from ?? null)
+    : value.dismissedFrom !== null
+      ? tr.mapping.map(value.dismissedFrom)
+      : null;
+  const dismissed = found !== null && found.from === dismissedFrom;
+
+  return {
+    query: dismissed ? null : found,
+    // A changed query starts from the first match again
+    index:
+      meta?.index ?? (found?.query === value.query?.query ? value.index : 0),
+    dismissedFrom: found ? dismissedFrom : null,
+  };
+}
+
+function renderMenu(
+  menu: HTMLElement,
+  view: EditorView,
+  state: ReturnType<typeof getMenu>,
+): void {
+  if (!state) {
+    menu.hidden = true;
+    menu.replaceChildren();
+    return;
+  }
+
+  const items = state.matches.map((command, i) => {
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.className = 'slash-menu-item';
+    item.setAttribute('role', 'option');
+    item.setAttribute('aria-selected', String(i === state.index));
+    const label = document.createElement('span');
+    label.textContent = command.label;
+    const syntax = document.createElement('span');
+    syntax.className = 'slash-menu-syntax';
+    syntax.textContent = command.syntax;
+    item.append(label, syntax);
+    // Keep the editor focused while choosing
+    item.addEventListener('mousedown', (event) => {
+      event.preventDefault();
+      runCommand(view, state.query, command);
+    });
+    return item;
+  });
+  menu.replaceChildren(...items);
+  menu.hidden = false;
+
+  const coords = view.coordsAtPos(state.query.from);
+  menu.style.left = `${coords.left}px`;
+  menu.style.top = `${coords.bottom + 4}px`;
+}
+
+/**
+ * The `/` menu, with ↑↓ to choose, Enter or Tab to insert and Escape to
+ * close it.
+ */
+export function slashMenuPlugin(): Plugin<SlashMenuState> {
+  return new Plugin<SlashMenuState>({
+    key: slashMenuPluginKey,
+    state: {
+      init: () => ({ query: null, index: 0, dismissedFrom: null }),
+      apply: (tr, value, _oldState, newState) =>
+        applyState(tr, value, newState),
+    },
+    props: {
+      handleKeyDown: (view, event) => {
+        const menu = getMenu(view.state);
+        if (!menu) return false;
+        const count = menu.matches.length;
+        switch (event.key) {
+          case 'ArrowDown':
+            setMeta(view, { index: (menu.index + 1) % count });
+            return true;
+          case 'ArrowUp':
+            setMeta(view, { index: (menu.index - 1 + count) % count });
+            return true;
+          case 'Enter':
+          case 'Tab':
+            runCommand(view, menu.query, menu.matches[menu.index]);
+            return true;
+          case 'Escape':
+            setMeta(view, { dismiss: true });
+            return true;
+          default:
+            return false;
+        }
+      },
+    },
+    view: () => {
+      const menu = document.createElement('div');
+      menu.className = 'slash-menu';
+      menu.setAttribute('role', 'listbox');
+      menu.setAttribute('aria-label', '挿入するブロック');
+      menu.hidden = true;
+      document.body.append(menu);
+
+      return {
+        update: (view) => {
+          renderMenu(menu, view, view.editable ? getMenu(view.state) : null);
+        },
+        destroy: () => menu.remove(),
+      };
+    },
+  });
+}
+
+export function createSlashMenuPlugin() {
+  return $prose(() => slashMenuPlugin());
+}
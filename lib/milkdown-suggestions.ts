@@ -0,0 +1,394 @@
+/**
+ * Suggestion mode: while enabled, local edits are recorded as suggested
+ * insertions and deletions (see server/suggestion-marks.ts) instead of
+ * changing the text. The page owner then accepts or rejects each
+ * suggestion.
+ *
+ * Typed text is marked as inserted; deleted text is put back marked as
+ * deleted. Only such text changes can be reviewed, so other local edits
+ * are refused while suggesting: changes to the block structure
+ * (splitting or joining blocks, headings, lists), formatting, and edits
+ * in code blocks, which cannot carry marks. The WebSocket server applies
+ * the same rule to suggest-only share links (see server/room-access.ts).
+ */
+
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import {
+  Fragment,
+  Slice,
+  type Mark,
+  type MarkType,
+  type Node,
+} from '@milkdown/prose/model';
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type EditorState,
+  type Transaction,
+} from '@milkdown/prose/state';
+import { Mapping, ReplaceStep, type Step } from '@milkdown/prose/transform';
+import type { EditorView } from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+import * as random from 'lib0/random';
+import { ySyncPluginKey } from 'y-prosemirror';
+import {
+  SUGGESTION_DELETE,
+  SUGGESTION_INSERT,
+  suggestionMarks,
+} from '../server/suggestion-marks';
+
+interface SuggestionModeState {
+  enabled: boolean;
+  author: string;
+}
+
+interface SuggestionMeta {
+  mode?: SuggestionModeState;
+  // Set on transactions made by this plugin or by accept/reject
+  internal?: boolean;
+}
+
+export interface Suggestion {
+  id: string;
+  author: string;
+  createdAt: number;
+  // Suggested text; a replacement has both
+  inserted: string;
+  deleted: string;
+  // Position of the first suggested change
+  from: number;
+}
+
+const suggestionPluginKey = new PluginKey<SuggestionModeState>(
+  'markdown-board-suggestions',
+);
+
+function getMarkTypes(state: EditorState): {
+  insert: MarkType;
+  remove: MarkType;
+} {
+  return {
+    insert: state.schema.marks[SUGGESTION_INSERT],
+    remove: state.schema.marks[SUGGESTION_DELETE],
+  };
+}
+
+function findMark(node: Node | null | undefined, type: MarkType): Mark | null {
+  return node?.marks.find((mark) => mark.type === type) ?? null;
+}
+
+/**
+ * ID of a suggestion by the same author right next to a change, so that
+ * typing or deleting one character at a time builds up one suggestion.
+ */
+function findAdjacentId(
+  doc: Node,
+  from: number,
+  to: number,
+  types: MarkType[],
+  author: string,
+): string | null {
+  const before = doc.resolve(from).nodeBefore;
+  const after = doc.resolve(to).nodeAfter;
+  for (const node of [before, after]) {
+    for (const type of types) {
+      const mark = findMark(node, type);
+      if (mark && mark.attrs.author === author) return mark.attrs.id as string;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a step only changes inline content within one block that can
+ * carry suggestion marks, so it can be recorded as a suggestion.
+ */
+function canSuggest(step: Step, doc: Node, insertType: MarkType): boolean {
+  if (!(step instanceof ReplaceStep)) return false;
+  const { slice } = step;
+  if (slice.openStart > 0 || slice.openEnd > 0) return false;
+  let inline = true;
+  slice.content.forEach((node) => {
+    if (!node.isInline) inline = false;
+  });
+  const $from = doc.resolve(step.from);
+  return (
+    inline &&
+    $from.sameParent(doc.resolve(step.to)) &&
+    $from.parent.isTextblock &&
+    $from.parent.type.allowsMarkType(insertType)
+  );
+}
+
+/**
+ * Deleted content as it is put back: marked as deleted, except for the
+ * author's own suggested insertions, which are simply removed.
+ */
+function markDeleted(
+  fragment: Fragment,
+  mark: Mark,
+  insertType: MarkType,
+): Fragment {
+  let result = Fragment.empty;
+  fragment.forEach((node) => {
+    const inserted = findMark(node, insertType);
+    if (inserted && inserted.attrs.author === mark.attrs.author) return;
+    const next = findMark(node, mark.type)
+      ? node
+      : node.mark(mark.addToSet(node.marks));
+    result = result.append(Fragment.from(next));
+  });
+  return result;
+}
+
+interface RecordedStep {
+  step: ReplaceStep;
+  docBefore: Node;
+  // Index of the step's map in the mapping of all steps
+  index: number;
+}
+
+function recordChanges(
+  transactions: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+  mode: SuggestionModeState,
+): Transaction | null {
+  const mapping = new Mapping();
+  const recorded: RecordedStep[] = [];
+  for (const tr of transactions) {
+    tr.steps.forEach((step, i) => {
+      mapping.appendMap(step.getMap());
+      if (step instanceof ReplaceStep) {
+        recorded.push({
+          step,
+          docBefore: tr.docs[i],
+          index: mapping.maps.length - 1,
+        });
+      }
+    });
+  }
+  if (recorded.length === 0) return null;
+
+  const types = getMarkTypes(newState);
+  const tr = newState.tr;
+  const now = Date.now();
+  let cursor: number | null = null;
+
+  for (const { step, docBefore, index } of recorded) {
+    // Positions of the step's change in the current document
+    const rest = mapping.slice(index + 1);
+    const insertedSize = step.slice.size;
+    const from = tr.mapping.map(rest.map(step.from, -1), -1);
+    const to = tr.mapping.map(rest.map(step.from + insertedSize, 1), 1);
+
+    const id =
+      findAdjacentId(
+        tr.doc,
+        from,
+        to,
+        [types.insert, types.remove],
+        mode.author,
+      ) ?? random.uuidv4();
+    const attrs = { id, author: mode.author, createdAt: now };
+
+    if (insertedSize > 0) {
+      tr.addMark(from, to, types.insert.create(attrs));
+    }
+
+    if (step.to > step.from) {
+      // Deletions stay within one textblock (see canSuggest)
+      const deleted = docBefore.slice(step.from, step.to);
+      const content = markDeleted(
+        deleted.content,
+        types.remove.create(attrs),
+        types.insert,
+      );
+      tr.replace(from, from, new Slice(content, 0, 0));
+
+      // Backspace keeps the cursor in front of the deleted text
+      const { selection } = oldState;
+      if (
+        recorded.length === 1 &&
+        selection.empty &&
+        selection.head === step.to
+      ) {
+        cursor = from;
+      }
+    }
+  }
+
+  if (cursor !== null) {
+    tr.setSelection(TextSelection.create(tr.doc, cursor));
+  }
+  if (!tr.docChanged) return null;
+  const meta: SuggestionMeta = { internal: true };
+  return tr.setMeta(suggestionPluginKey, meta);
+}
+
+function isLocalChange(tr: Transaction): boolean {
+  return (
+    !tr.getMeta(ySyncPluginKey) &&
+    !(tr.getMeta(suggestionPluginKey) as SuggestionMeta | undefined)?.internal
+  );
+}
+
+/**
+ * Records local edits as suggestions while suggestion mode is on, and
+ * refuses local edits that cannot be recorded. Remote changes arrive
+ * already marked and are left alone.
+ */
+export const suggestionPlugin = new Plugin<SuggestionModeState>({
+  key: suggestionPluginKey,
+  state: {
+    init: () => ({ enabled: false, author: '' }),
+    apply: (tr, value) => {
+      const meta = tr.getMeta(suggestionPluginKey) as
+        | SuggestionMeta
+        | undefined;
+      return meta?.mode ?? value;
+    },
+  },
+  filterTransaction: (tr, state) => {
+    const mode = suggestionPluginKey.getState(state);
+    if (!mode?.enabled || !tr.docChanged || !isLocalChange(tr)) return true;
+    const { insert } = getMarkTypes(state);
+    return tr.steps.every((step, i) => canSuggest(step, tr.docs[i], insert));
+  },
+  appendTransaction: (transactions, oldState, newState) => {
+    const mode = suggestionPluginKey.getState(newState);
+    if (!mode?.enabled) return null;
+    const changes = transactions.filter((tr) => tr.docChanged);
+    if (changes.length === 0 || !changes.every(isLocalChange)) return null;
+    return recordChanges(changes, oldState, newState, mode);
+  },
+});
+
+/**
+ * Suggestion marks and the plugin that records them. Loaded in every
+ * editor, including read-only ones, so that suggestions are rendered.
+ */
+export const suggestions: MilkdownPlugin[] = [
+  ...suggestionMarks,
+  $prose(() => suggestionPlugin),
+].flat();
+
+/**
+ * Turn suggestion mode on or off. Edits are attributed to author.
+ */
+export function setSuggestionMode(
+  view: EditorView,
+  enabled: boolean,
+  author: string,
+): void {
+  const meta: SuggestionMeta = { mode: { enabled, author } };
+  view.dispatch(
+    view.state.tr
+      .setMeta(suggestionPluginKey, meta)
+      .setMeta('addToHistory', false),
+  );
+}
+
+export function isSuggestionModeEnabled(state: EditorState): boolean {
+  return suggestionPluginKey.getState(state)?.enabled ?? false;
+}
+
+/**
+ * Pending suggestions in document order.
+ */
+export function listSuggestions(doc: Node): Suggestion[] {
+  const byId = new Map<string, Suggestion>();
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    for (const mark of node.marks) {
+      const name = mark.type.name;
+      if (name !== SUGGESTION_INSERT && name !== SUGGESTION_DELETE) continue;
+      const id = mark.attrs.id as string;
+      let suggestion = byId.get(id);
+      if (!suggestion) {
+        suggestion = {
+          id,
+          author: mark.attrs.author as string,
+          createdAt: mark.attrs.createdAt as number,
+          inserted: '',
+          deleted: '',
+          from: pos,
+        };
+        byId.set(id, suggestion);
+      }
+      const text = node.text ?? '';
+      if (name === SUGGESTION_INSERT) {
+        suggestion.inserted += text;
+      } else {
+        suggestion.deleted += text;
+      }
+    }
+    return false;
+  });
+  return [...byId.values()];
+}
+
+function resolveSuggestion(
+  view: EditorView,
+  id: string,
+  accept: boolean,
+): boolean {
+  const { state } = view;
+  const types = getMarkTypes(state);
+  // Text that goes away and marks that are dropped
+  const removed: Array<{ from: number; to: number }> = [];
+  const unmarked: Array<{ from: number; to: number; type: MarkType }> = [];
+
+  state.doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    const range = { from: pos, to: pos + node.nodeSize };
+    const inserted = findMark(node, types.insert);
+    const deleted = findMark(node, types.remove);
+    if (deleted?.attrs.id === id) {
+      if (accept) {
+        removed.push(range);
+      } else {
+        unmarked.push({ ...range, type: types.remove });
+      }
+    } else if (inserted?.attrs.id === id) {
+      if (accept) {
+        unmarked.push({ ...range, type: types.insert });
+      } else {
+        removed.push(range);
+      }
+    }
+    return false;
+  });
+  if (removed.length === 0 && unmarked.length === 0) return false;
+
+  const tr = state.tr;
+  for (const { from, to, type } of unmarked) {
+    tr.removeMark(from, to, type);
+  }
+  // Delete from the end so that earlier positions stay valid
+  for (const { from, to } of removed.reverse()) {
+    tr.delete(from, to);
+  }
+  const meta: SuggestionMeta = { internal: true };
+  view.dispatch(tr.setMeta(suggestionPluginKey, meta));
+  return true;
+}
+
+/**
+ * Apply a suggestion: inserted text stays, deleted text goes.
+ *
+ * @returns false if the suggestion does not exist
+ */
+export function acceptSuggestion(view: EditorView, id: string): boolean {
+  return resolveSuggestion(view, id, true);
+}
+
+/**
+ * Discard a suggestion: inserted text goes, deleted text stays.
+ *
+ * @returns false if the suggestion does not exist
+ */
+export function rejectSuggestion(view: EditorView, id: string): boolean {
+  return resolveSuggestion(view, id, false);
+}
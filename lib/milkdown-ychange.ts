@@ -0,0 +1,28 @@
+import { $markSchema } from '@milkdown/utils';
+
+/**
+ * The `ychange` mark that y-prosemirror attaches to text while rendering a
+ * snapshot diff. It only exists in the read-only diff editor, so it is never
+ * parsed from or written to Markdown.
+ */
+export const ychangeSchema = $markSchema('ychange', () => ({
+  attrs: {
+    user: { default: null },
+    type: { default: null },
+    color: { default: null },
+  },
+  inclusive: false,
+  parseDOM: [],
+  toDOM: (mark) => [
+    mark.attrs.type === 'removed' ? 'del' : 'ins',
+    { class: `ychange ychange-${mark.attrs.type}` },
+  ],
+  parseMarkdown: {
+    match: () => false,
+    runner: () => {},
+  },
+  toMarkdown: {
+    match: (mark) => mark.type.name === 'ychange',
+    runner: () => {},
+  },
+}));
@@ -0,0 +1,125 @@
+/**
+ * Copies of page documents kept in IndexedDB by y-indexeddb.
+ *
+ * A cached page opens without waiting for the server, and while offline,
+ * and edits made without a connection survive closing the tab. They are
+ * sent to the server by the WebSocket provider when it reconnects.
+ */
+
+import { clearDocument, IndexeddbPersistence } from 'y-indexeddb';
+import type * as Y from 'yjs';
+import { logger } from './logger';
+
+const CACHE_NAME_PREFIX = 'markdown-board:page:';
+
+// Deleting a database waits until every connection to it is closed
+const openCaches = new Set<IndexeddbPersistence>();
+
+function getCacheName(pageId: string): string {
+  return `${CACHE_NAME_PREFIX}${pageId}`;
+}
+
+/**
+ * Keep ydoc in the page's cache, loading what is already stored.
+ */
+export function openOfflineCache(
+  pageId: string,
+  ydoc: Y.Doc,
+): IndexeddbPersistence {
+  // Destroyed together with ydoc
+  const persistence = new IndexeddbPersistence(getCacheName(pageId), ydoc);
+  openCaches.add(persistence);
+  ydoc.once('destroy', () => openCaches.delete(persistence));
+  return persistence;
+}
+
+/**
+ * Resolve once the cached copy is loaded into the document. A browser
+ * without usable IndexedDB (e.g. some private modes) never loads it, so
+ * this gives up after timeoutMs.
+ *
+ * @returns false if the cache could not be loaded in time
+ */
+export function waitForOfflineCache(
+  persistence: IndexeddbPersistence,
+  timeoutMs: number,
+): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    const timeout = setTimeout(() => {
+      logger.log('[Cache] Offline cache timeout, proceeding');
+      resolve(false);
+    }, timeoutMs);
+    persistence.whenSynced.then(() => {
+      clearTimeout(timeout);
+      resolve(true);
+    });
+  });
+}
+
+/**
+ * Whether this browser has a cached copy of a page.
+ */
+export async function hasOfflineCache(pageId: string): Promise<boolean> {
+  if (typeof indexedDB === 'undefined' || !indexedDB.databases) return false;
+  try {
+    const databases = await indexedDB.databases();
+    return databases.some(({ name }) => name === getCacheName(pageId));
+  } catch (error) {
+    logger.error('[Cache] Failed to list offline caches:', error);
+    return false;
+  }
+}
+
+/**
+ * Remove the cached copy of a page, e.g. after it was deleted.
+ */
+export async function clearOfflineCache(pageId: string): Promise<void> {
+  try {
+    await clearDocument(getCacheName(pageId));
+  } catch (error) {
+    logger.error('[Cache] Failed to clear offline cache:', error);
+  }
+}
+
+/**
+ * Remove the cached copies of all pages, e.g. on logout. Caches open in
+ * this tab are closed first; ones still open in other tabs are removed
+ * once those close, so this gives up waiting after timeoutMs.
+ */
+export async function clearOfflineCaches(timeoutMs: number): Promise<void> {
+  if (typeof indexedDB === 'undefined' || !indexedDB.databases) return;
+  try {
+    const open = [...openCaches];
+    openCaches.clear();
+    const openNames = new Set(open.map((persistence) => persistence.name));
+    const databases = await indexedDB.databases();
+    const cleared = Promise.all([
+      ...open.map((persistence) => persistence.clearData()),
+      ...databases
+        .map(({ name }) => name)
+        .filter(
+          (name): name is string =>
+            !!name?.startsWith(CACHE_NAME_PREFIX) && !openNames.has(name),
+        )
+        .map((name) => clearDocument(name)),
+    ]);
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        logger.log('[Cache] Offline caches still in use, not waiting');
+        resolve();
+      }, timeoutMs);
+      cleared.then(
+        () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+        (error: unknown) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      );
+    });
+  } catch (error) {
+    logger.error('[Cache] Failed to clear offline caches:', error);
+  }
+}
@@ -12,3 +12,39 @@ export interface ArchiveListItem {
   updated_at: number;
   archived_at: number;
 }
+
+export interface PageVersionListItem {
+  id: number;
+  title: string;
+  created_at: number;
+}
+
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  updated_at: number;
+  archived_at: number | null;
+  snippet: SearchSnippetPart[];
+}
+
+export interface BacklinkItem {
+  id: string;
+  title: string;
+  updated_at: number;
+}
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  display_name: string;
+}
+
+export interface SessionInfo {
+  mode: 'anonymous' | 'local';
+  user: SessionUser | null;
+}
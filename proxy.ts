@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import getDb from '@/lib/db';
+import { logger } from '@/lib/logger';
+import {
+  getAuthMode,
+  getSessionUser,
+  SESSION_COOKIE_NAME,
+} from '@/server/auth';
+
+// Reachable without signing in: the login flow, share links, which
+// carry their own credentials, and attachments, which check access to
+// their page themselves so that they also show on shared pages
+const PUBLIC_PATHS = [
+  /^\/login$/,
+  /^\/api\/auth\//,
+  /^\/s\//,
+  /^\/api\/shares\//,
+  /^\/api\/attachments\/[^/]+$/,
+];
+
+/**
+ * Require a session for every page and API route when AUTH_MODE=local.
+ */
+export function proxy(request: NextRequest) {
+  try {
+    if (getAuthMode() === 'anonymous') return NextResponse.next();
+
+    const { pathname, search } = request.nextUrl;
+    if (PUBLIC_PATHS.some((pattern) => pattern.test(pathname))) {
+      return NextResponse.next();
+    }
+
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+    if (token && getSessionUser(getDb(), token)) {
+      return NextResponse.next();
+    }
+
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 },
+      );
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  } catch (error) {
+    logger.error('Failed to check authentication:', error);
+    return NextResponse.json(
+      { error: 'Failed to check authentication' },
+      { status: 500 },
+    );
+  }
+}
+
+export const config = {
+  // Static assets never need a session. Browsers fetch the manifest and
+  // the service worker script without cookies.
+  matcher: [
+    '/((?!_next/static|_next/image|favicon.ico|manifest.webmanifest|sw.js|icon.svg).*)',
+  ],
+};
@@ -0,0 +1,115 @@
+/**
+ * Service worker that keeps the app usable without a network.
+ *
+ * - Build assets (/_next/static, including milkdown.css) never change
+ *   under the same URL, so they are served from the cache first.
+ * - Pages and the page list (GET /api/pages) come from the network when
+ *   it answers and from the last cached response when it does not.
+ *
+ * Page contents are cached separately by y-indexeddb (lib/offline-cache.ts).
+ */
+
+// Bump to drop everything cached by an older version
+const CACHE_NAME = 'markdown-board-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name !== CACHE_NAME)
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+function isStaticAsset(url) {
+  return url.pathname.startsWith('/_next/static/');
+}
+
+function isPageList(url) {
+  return url.pathname === '/api/pages' && url.search === '';
+}
+
+function isCacheable(response) {
+  // Redirects (e.g. to the login page) are not the requested page
+  return response.ok && response.type === 'basic' && !response.redirected;
+}
+
+async function fetchAndCache(request) {
+  const response = await fetch(request);
+  if (isCacheable(response)) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function cacheFirst(request) {
+  return (await caches.match(request)) ?? fetchAndCache(request);
+}
+
+async function networkFirst(request) {
+  try {
+    return await fetchAndCache(request);
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Cached pages and page titles must not outlive the session
+  if (request.method === 'POST' && url.pathname === '/api/auth/logout') {
+    event.respondWith(caches.delete(CACHE_NAME).then(() => fetch(request)));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (isStaticAsset(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate' || isPageList(url)) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// The page that registered the worker was loaded without it; the page
+// sends its URL and what it loaded so that it also opens offline next time
+self.addEventListener('message', (event) => {
+  const { type, page, urls } = event.data ?? {};
+  if (type !== 'cache-loaded' || !Array.isArray(urls)) return;
+
+  const resources = urls
+    .map((href) => new URL(href, self.location.origin))
+    .filter(
+      (url) =>
+        url.origin === self.location.origin &&
+        (isStaticAsset(url) || isPageList(url)),
+    );
+  const pageUrl = new URL(page, self.location.origin);
+  if (pageUrl.origin === self.location.origin) resources.push(pageUrl);
+
+  event.waitUntil(
+    Promise.all(
+      resources.map((url) =>
+        caches
+          .match(url.href)
+          .then((cached) => cached ?? fetchAndCache(url.href))
+          .catch(() => undefined),
+      ),
+    ),
+  );
+});
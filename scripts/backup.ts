@@ -0,0 +1,96 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Online backup and restore of the SQLite database
+ * Backups are safe to take while the servers are running; run this as a
+ * cron job or scheduled task. Restoring requires both servers to be stopped.
+ *
+ * @env {string} DATABASE_PATH - Database file (default: data/markdown-board.db)
+ * @env {string} BACKUP_DIR - Directory for backups (default: data/backups)
+ * @env {number} BACKUP_KEEP - Number of newest backups to keep, 0 for all (default: 14)
+ * @env {number} BACKUP_MAX_AGE_DAYS - Delete backups older than this, 0 to disable (default: 30)
+ *
+ * @example
+ * # Take a backup and remove old ones
+ * npx tsx backup.ts
+ *
+ * # Check a backup without restoring it
+ * npx tsx backup.ts check data/backups/markdown-board-20260101T000000000Z.db
+ *
+ * # Replace the database with a backup (stop the servers first)
+ * npx tsx backup.ts restore data/backups/markdown-board-20260101T000000000Z.db
+ */
+
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DB_DIR, DB_PATH } from '../server/db-config';
+import {
+  checkDatabaseFile,
+  createBackup,
+  pruneBackups,
+  restoreBackup,
+} from '../server/backup';
+
+const BACKUP_DIR = process.env.BACKUP_DIR || path.join(DB_DIR, 'backups');
+const BACKUP_KEEP = Number(process.env.BACKUP_KEEP ?? 14);
+const BACKUP_MAX_AGE_DAYS = Number(process.env.BACKUP_MAX_AGE_DAYS ?? 30);
+const USAGE = 'Usage: backup.ts [backup] | check <file> | restore <file>';
+
+async function backup() {
+  const db = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+  try {
+    const file = await createBackup(db, BACKUP_DIR);
+    console.log(`Backed up ${DB_PATH} to ${file}`);
+  } finally {
+    db.close();
+  }
+
+  const deleted = pruneBackups(BACKUP_DIR, {
+    keep: BACKUP_KEEP,
+    maxAgeDays: BACKUP_MAX_AGE_DAYS,
+  });
+  for (const file of deleted) {
+    console.log(`Deleted old backup ${file}`);
+  }
+}
+
+function check(file: string): boolean {
+  const { errors, warnings } = checkDatabaseFile(file);
+  warnings.forEach((warning) => console.warn(`warning: ${warning}`));
+  errors.forEach((error) => console.error(`error: ${error}`));
+  if (errors.length === 0) {
+    console.log(`${file} passed the consistency check`);
+  }
+  return errors.length === 0;
+}
+
+function restore(file: string) {
+  if (!check(file)) process.exit(1);
+  const previous = restoreBackup(file, DB_PATH);
+  console.log(`Restored ${DB_PATH} from ${file}`);
+  if (previous) {
+    console.log(`The previous database was kept as ${previous}`);
+  }
+}
+
+async function main() {
+  const [command = 'backup', file] = process.argv.slice(2);
+
+  try {
+    if (command === 'backup') {
+      await backup();
+    } else if (command === 'check' && file) {
+      if (!check(file)) process.exit(1);
+    } else if (command === 'restore' && file) {
+      restore(file);
+    } else {
+      console.error(USAGE);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`Error during ${command}:`, error);
+    process.exit(1);
+  }
+}
+
+main();
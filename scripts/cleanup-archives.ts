@@ -5,6 +5,7 @@
  * This can be run as a cron job or scheduled task
  *
  * @env {string} API_URL - Base URL of the API server (default: http://localhost:3000)
+ * @env {string} API_SESSION_TOKEN - Session token when the server uses AUTH_MODE=local (see users.ts token)
  *
  * @example
  * # Run with default URL
@@ -14,7 +15,10 @@
  * API_URL=https://api.example.com npx tsx cleanup-archives.ts
  */
 
+import { SESSION_COOKIE_NAME } from '../server/auth';
+
 const API_URL = process.env.API_URL || 'http://localhost:3000';
+const API_SESSION_TOKEN = process.env.API_SESSION_TOKEN;
 
 async function cleanupOldArchives() {
   console.log(`Connecting to API at ${API_URL}...`);
@@ -22,6 +26,9 @@ async function cleanupOldArchives() {
   try {
     const response = await fetch(`${API_URL}/api/archives`, {
       method: 'DELETE',
+      headers: API_SESSION_TOKEN
+        ? { Cookie: `${SESSION_COOKIE_NAME}=${API_SESSION_TOKEN}` }
+        : {},
     });
 
     if (!response.ok) {
@@ -0,0 +1,101 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Manage local accounts for AUTH_MODE=local
+ * Works on the database directly, so it can create the first account
+ * before anyone is able to sign in. Passwords are read from stdin.
+ *
+ * @env {string} DATABASE_PATH - Database file (default: data/markdown-board.db)
+ *
+ * @example
+ * # Create an account (prompts for the password)
+ * npx tsx users.ts add alice "Alice Liddell"
+ *
+ * # Change a password; signs the user out everywhere
+ * npx tsx users.ts passwd alice
+ *
+ * # Issue a session token for scripts (use as API_SESSION_TOKEN)
+ * npx tsx users.ts token alice
+ */
+
+import { createInterface } from 'readline/promises';
+import {
+  createSession,
+  createUser,
+  deleteUser,
+  getUserByUsername,
+  InvalidUserError,
+  listUsers,
+  setUserPassword,
+} from '../server/auth';
+import { openDatabase } from '../server/db-config';
+import { runMigrations } from '../server/migrations';
+
+const USAGE =
+  'Usage: users.ts list | add <username> [display name] | passwd <username> | remove <username> | token <username>';
+
+async function readPassword(): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await rl.question('Password: ');
+  } finally {
+    rl.close();
+  }
+}
+
+async function main() {
+  const [command, username, displayName] = process.argv.slice(2);
+  if (command !== 'list' && !username) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const db = openDatabase();
+  try {
+    runMigrations(db);
+
+    if (command === 'list') {
+      for (const user of listUsers(db)) {
+        console.log(`${user.username}\t${user.display_name}`);
+      }
+    } else if (command === 'add') {
+      const password = await readPassword();
+      createUser(db, { username, password, displayName });
+      console.log(`Created user ${username}`);
+    } else if (command === 'passwd') {
+      const password = await readPassword();
+      if (!setUserPassword(db, username, password)) {
+        console.error(`User ${username} does not exist`);
+        process.exit(1);
+      }
+      console.log(`Changed the password of ${username}`);
+    } else if (command === 'remove') {
+      if (!deleteUser(db, username)) {
+        console.error(`User ${username} does not exist`);
+        process.exit(1);
+      }
+      console.log(`Removed user ${username}`);
+    } else if (command === 'token') {
+      const user = getUserByUsername(db, username);
+      if (!user) {
+        console.error(`User ${username} does not exist`);
+        process.exit(1);
+      }
+      console.log(createSession(db, user.id));
+    } else {
+      console.error(USAGE);
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof InvalidUserError) {
+      console.error(error.message);
+    } else {
+      console.error(`Error during ${command}:`, error);
+    }
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,97 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Export or import the whole workspace as a zip archive
+ * Useful for moving a board between servers and for offline backups
+ *
+ * @env {string} API_URL - Base URL of the API server (default: http://localhost:3000)
+ * @env {string} API_SESSION_TOKEN - Session token when the server uses AUTH_MODE=local (see users.ts token)
+ *
+ * @example
+ * # Export every page as Markdown to workspace.zip
+ * npx tsx workspace.ts export workspace.zip
+ *
+ * # Also include the raw Yjs state so nothing is lost
+ * npx tsx workspace.ts export workspace.zip --yjs
+ *
+ * # Recreate the pages of an archive on another server
+ * API_URL=https://board.example.com npx tsx workspace.ts import workspace.zip
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { SESSION_COOKIE_NAME } from '../server/auth';
+
+const API_URL = process.env.API_URL || 'http://localhost:3000';
+const API_SESSION_TOKEN = process.env.API_SESSION_TOKEN;
+const AUTH_HEADERS: Record<string, string> = API_SESSION_TOKEN
+  ? { Cookie: `${SESSION_COOKIE_NAME}=${API_SESSION_TOKEN}` }
+  : {};
+const USAGE =
+  'Usage: workspace.ts export <file.zip> [--yjs] | import <file.zip>';
+
+async function exportWorkspace(file: string, includeYjsState: boolean) {
+  const query = includeYjsState ? '?yjs=1' : '';
+  const response = await fetch(`${API_URL}/api/workspace/export${query}`, {
+    headers: AUTH_HEADERS,
+  });
+  if (!response.ok) {
+    console.error(
+      `Failed to export workspace: ${response.status} ${response.statusText}`,
+    );
+    process.exit(1);
+  }
+
+  const archive = Buffer.from(await response.arrayBuffer());
+  await writeFile(file, archive);
+  console.log(`Exported workspace to ${file} (${archive.length} bytes)`);
+}
+
+async function importWorkspace(file: string) {
+  const archive = await readFile(file);
+  const response = await fetch(`${API_URL}/api/workspace/import`, {
+    method: 'POST',
+    headers: { ...AUTH_HEADERS, 'Content-Type': 'application/zip' },
+    body: archive,
+  });
+  if (!response.ok) {
+    console.error(
+      `Failed to import workspace: ${response.status} ${response.statusText}`,
+      await response.text(),
+    );
+    process.exit(1);
+  }
+
+  const result = (await response.json()) as {
+    pages: Array<{ id: string; original_id: string }>;
+  };
+  const renamed = result.pages.filter((page) => page.id !== page.original_id);
+  console.log(`Imported ${result.pages.length} page(s)`);
+  for (const page of renamed) {
+    console.log(
+      `  ${page.original_id} already existed, imported as ${page.id}`,
+    );
+  }
+}
+
+async function main() {
+  const [command, file, ...flags] = process.argv.slice(2);
+  if (!file || (command !== 'export' && command !== 'import')) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  console.log(`Connecting to API at ${API_URL}...`);
+
+  try {
+    if (command === 'export') {
+      await exportWorkspace(file, flags.includes('--yjs'));
+    } else {
+      await importWorkspace(file);
+    }
+  } catch (error) {
+    console.error(`Error during workspace ${command}:`, error);
+    process.exit(1);
+  }
+}
+
+main();
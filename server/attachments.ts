@@ -0,0 +1,203 @@
+/**
+ * Images attached to pages (pasted or dropped into the editor).
+ *
+ * Attachments are stored in the attachments table, so database backups
+ * include them, and are removed together with their page (see
+ * delete-page.ts). Their URLs contain only their own random ID, not
+ * the page ID, so that images can show on share links without revealing
+ * the page. Reading one requires access to its page: a session, or the
+ * share cookie set when a link to the page is opened (see
+ * page-shares.ts).
+ */
+
+import { randomBytes } from 'crypto';
+import type Database from 'better-sqlite3';
+import * as Y from 'yjs';
+import { ATTACHMENT_TYPES } from '../lib/constants';
+import { getAuthMode, getSessionUser, SESSION_COOKIE_NAME } from './auth';
+import { SHARE_COOKIE_PREFIX, verifyShareToken } from './page-shares';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENTS_PATH = '/api/attachments';
+
+// 22 base64url characters
+const ATTACHMENT_ID_BYTES = 16;
+const ATTACHMENT_ID_PATTERN = /^[\w-]{22}$/;
+// Base for resolving relative image URLs; only the path is used
+const URL_BASE = 'http://localhost';
+
+export interface Attachment {
+  id: string;
+  page_id: string;
+  content_type: string;
+  size: number;
+  created_at: number;
+}
+
+export interface AttachmentWithData extends Attachment {
+  data: Buffer;
+}
+
+export function isAttachmentType(value: string): boolean {
+  return ATTACHMENT_TYPES.includes(value);
+}
+
+export function createAttachmentId(): string {
+  return randomBytes(ATTACHMENT_ID_BYTES).toString('base64url');
+}
+
+export function isAttachmentId(value: string): boolean {
+  return ATTACHMENT_ID_PATTERN.test(value);
+}
+
+export function getAttachmentUrl(attachmentId: string): string {
+  return `${ATTACHMENTS_PATH}/${attachmentId}`;
+}
+
+/**
+ * The attachment an image URL points to, or null for other images.
+ */
+function getAttachmentIdFromUrl(src: string): string | null {
+  try {
+    const { pathname } = new URL(src, URL_BASE);
+    const prefix = `${ATTACHMENTS_PATH}/`;
+    if (!pathname.startsWith(prefix)) return null;
+    const id = pathname.slice(prefix.length);
+    return isAttachmentId(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Point the images of a page document at other attachments, e.g. when
+ * the attachments were imported under new IDs.
+ *
+ * @param attachmentIds - the new ID of each attachment whose images move
+ */
+export function rewriteAttachmentUrls(
+  ydoc: Y.Doc,
+  attachmentIds: ReadonlyMap<string, string>,
+): void {
+  if (attachmentIds.size === 0) return;
+
+  const visit = (node: Y.XmlFragment | Y.XmlElement) => {
+    if (node instanceof Y.XmlElement && node.nodeName === 'image') {
+      const id = getAttachmentIdFromUrl(node.getAttribute('src') ?? '');
+      const newId = id === null ? undefined : attachmentIds.get(id);
+      if (newId !== undefined) {
+        node.setAttribute('src', getAttachmentUrl(newId));
+      }
+    }
+    node.toArray().forEach((child) => {
+      if (child instanceof Y.XmlElement) visit(child);
+    });
+  };
+
+  ydoc.transact(() => visit(ydoc.getXmlFragment('prosemirror')));
+}
+
+/**
+ * Store an attachment for a page.
+ *
+ * @returns the attachment, or null if the page does not exist or is
+ *   archived (archived pages are read-only)
+ */
+export function createAttachment(
+  db: Database.Database,
+  pageId: string,
+  contentType: string,
+  data: Buffer,
+): Attachment | null {
+  const page = db
+    .prepare('SELECT 1 FROM pages WHERE id = ? AND archived_at IS NULL')
+    .get(pageId);
+  if (!page) return null;
+
+  const attachment: Attachment = {
+    id: createAttachmentId(),
+    page_id: pageId,
+    content_type: contentType,
+    size: data.length,
+    created_at: Date.now(),
+  };
+  insertAttachment(db, { ...attachment, data });
+  return attachment;
+}
+
+/**
+ * Store an attachment as it is, e.g. when importing a workspace.
+ * Unlike createAttachment this does not check the page.
+ */
+export function insertAttachment(
+  db: Database.Database,
+  attachment: AttachmentWithData,
+): void {
+  db.prepare(
+    `INSERT INTO attachments (id, page_id, content_type, size, data, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  ).run(
+    attachment.id,
+    attachment.page_id,
+    attachment.content_type,
+    attachment.size,
+    attachment.data,
+    attachment.created_at,
+  );
+}
+
+/**
+ * An attachment with its contents.
+ */
+export function getAttachment(
+  db: Database.Database,
+  attachmentId: string,
+): AttachmentWithData | undefined {
+  return db
+    .prepare(
+      `SELECT id, page_id, content_type, size, data, created_at
+       FROM attachments
+       WHERE id = ?`,
+    )
+    .get(attachmentId) as AttachmentWithData | undefined;
+}
+
+/**
+ * Every attachment of a page with its contents, oldest first.
+ */
+export function listAttachments(
+  db: Database.Database,
+  pageId: string,
+): AttachmentWithData[] {
+  return db
+    .prepare(
+      `SELECT id, page_id, content_type, size, data, created_at
+       FROM attachments
+       WHERE page_id = ?
+       ORDER BY created_at ASC, id ASC`,
+    )
+    .all(pageId) as AttachmentWithData[];
+}
+
+/**
+ * Whether a request with the given cookies may read an attachment.
+ * Without authentication every page is open; otherwise a session grants
+ * every page and a share cookie only the page of its link.
+ */
+export function canReadAttachment(
+  db: Database.Database,
+  attachment: Attachment,
+  cookies: ReadonlyArray<{ name: string; value: string }>,
+  now: number = Date.now(),
+): boolean {
+  if (getAuthMode() === 'anonymous') return true;
+
+  const session = cookies.find(({ name }) => name === SESSION_COOKIE_NAME);
+  if (session && getSessionUser(db, session.value, now)) return true;
+
+  return cookies.some(
+    ({ name, value }) =>
+      name.startsWith(SHARE_COOKIE_PREFIX) &&
+      verifyShareToken(db, value, now)?.pageId === attachment.page_id,
+  );
+}
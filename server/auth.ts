@@ -0,0 +1,306 @@
+/**
+ * Optional authentication with local accounts and cookie sessions.
+ *
+ * AUTH_MODE selects how requests are authenticated:
+ * - `anonymous` (default): no login; anyone who knows a page ID can
+ *   open it, as before accounts existed
+ * - `local`: users from the users table sign in with a password and
+ *   receive a session cookie; only share links work without one
+ *
+ * The Next.js proxy and the WebSocket server both read the session
+ * cookie and look it up here. Only a SHA-256 hash of each session token
+ * is stored, so a copy of the database cannot be used to sign in.
+ */
+
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type Database from 'better-sqlite3';
+
+export type AuthMode = 'anonymous' | 'local';
+
+export const SESSION_COOKIE_NAME = 'markdown_board_session';
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const AUTH_MODES: readonly AuthMode[] = ['anonymous', 'local'];
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{1,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_KEY_LENGTH = 64;
+const SESSION_TOKEN_BYTES = 32;
+const USER_ID_BYTES = 9;
+
+export interface User {
+  id: string;
+  username: string;
+  display_name: string;
+  created_at: number;
+}
+
+/**
+ * Thrown when a user cannot be created or updated with the given input.
+ */
+export class InvalidUserError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidUserError';
+  }
+}
+
+/**
+ * The configured AUTH_MODE. Unknown values are rejected rather than
+ * silently falling back to anonymous access.
+ */
+export function getAuthMode(): AuthMode {
+  const mode = process.env.AUTH_MODE || 'anonymous';
+  if (!AUTH_MODES.includes(mode as AuthMode)) {
+    throw new Error(`Unknown AUTH_MODE: ${mode}`);
+  }
+  return mode as AuthMode;
+}
+
+/**
+ * Hash a password as `scrypt:<salt>:<key>` (base64url).
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(PASSWORD_SALT_BYTES);
+  const key = scryptSync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt:${salt.toString('base64url')}:${key.toString('base64url')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64url');
+  const actual = scryptSync(
+    password,
+    Buffer.from(salt, 'base64url'),
+    expected.length,
+  );
+  return timingSafeEqual(expected, actual);
+}
+
+function validatePassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new InvalidUserError(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+}
+
+export function createUser(
+  db: Database.Database,
+  {
+    username,
+    password,
+    displayName = username,
+  }: { username: string; password: string; displayName?: string },
+  now: number = Date.now(),
+): User {
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new InvalidUserError(
+      'Username must be 1-32 letters, digits, "_", "." or "-"',
+    );
+  }
+  validatePassword(password);
+  if (getUserByUsername(db, username)) {
+    throw new InvalidUserError(`User ${username} already exists`);
+  }
+
+  const user: User = {
+    id: randomBytes(USER_ID_BYTES).toString('base64url'),
+    username,
+    display_name: displayName.trim() || username,
+    created_at: now,
+  };
+  db.prepare(
+    `INSERT INTO users (id, username, display_name, password_hash, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+  ).run(
+    user.id,
+    user.username,
+    user.display_name,
+    hashPassword(password),
+    user.created_at,
+  );
+  return user;
+}
+
+export function getUserByUsername(
+  db: Database.Database,
+  username: string,
+): User | undefined {
+  return db
+    .prepare(
+      `SELECT id, username, display_name, created_at
+       FROM users WHERE username = ?`,
+    )
+    .get(username) as User | undefined;
+}
+
+export function listUsers(db: Database.Database): User[] {
+  return db
+    .prepare(
+      `SELECT id, username, display_name, created_at
+       FROM users ORDER BY username`,
+    )
+    .all() as User[];
+}
+
+/**
+ * Change a user's password and sign out all of their sessions.
+ *
+ * @returns false if the user does not exist
+ */
+export function setUserPassword(
+  db: Database.Database,
+  username: string,
+  password: string,
+): boolean {
+  validatePassword(password);
+  const user = getUserByUsername(db, username);
+  if (!user) return false;
+
+  const run = db.transaction(() => {
+    db.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(
+      hashPassword(password),
+      user.id,
+    );
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(user.id);
+  });
+  run();
+  return true;
+}
+
+/**
+ * Delete a user together with their sessions.
+ *
+ * @returns false if the user does not exist
+ */
+export function deleteUser(db: Database.Database, username: string): boolean {
+  const user = getUserByUsername(db, username);
+  if (!user) return false;
+
+  const run = db.transaction(() => {
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(user.id);
+    db.prepare('DELETE FROM users WHERE id = ?').run(user.id);
+  });
+  run();
+  return true;
+}
+
+let dummyPasswordHash: string | null = null;
+
+function getDummyPasswordHash(): string {
+  dummyPasswordHash ??= hashPassword(randomBytes(16).toString('base64url'));
+  return dummyPasswordHash;
+}
+
+/**
+ * Check a username and password.
+ *
+ * @returns the user, or null if either is wrong
+ */
+export function authenticate(
+  db: Database.Database,
+  username: string,
+  password: string,
+): User | null {
+  const row = db
+    .prepare(
+      `SELECT id, username, display_name, created_at, password_hash
+       FROM users WHERE username = ?`,
+    )
+    .get(username) as (User & { password_hash: string }) | undefined;
+  // Unknown usernames are checked against a dummy hash, so that the
+  // response time does not reveal which usernames exist
+  const valid = verifyPassword(
+    password,
+    row?.password_hash ?? getDummyPasswordHash(),
+  );
+  if (!row || !valid) return null;
+
+  return {
+    id: row.id,
+    username: row.username,
+    display_name: row.display_name,
+    created_at: row.created_at,
+  };
+}
+
+function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session for a user.
+ *
+ * @returns the token to store in the session cookie
+ */
+export function createSession(
+  db: Database.Database,
+  userId: string,
+  now: number = Date.now(),
+): string {
+  const token = randomBytes(SESSION_TOKEN_BYTES).toString('base64url');
+  db.prepare(
+    `INSERT INTO sessions (id, user_id, created_at, expires_at)
+     VALUES (?, ?, ?, ?)`,
+  ).run(hashSessionToken(token), userId, now, now + SESSION_TTL_MS);
+  return token;
+}
+
+/**
+ * The user signed in with a session token.
+ *
+ * @returns null if the session does not exist or has expired
+ */
+export function getSessionUser(
+  db: Database.Database,
+  token: string,
+  now: number = Date.now(),
+): User | null {
+  const user = db
+    .prepare(
+      `SELECT users.id, users.username, users.display_name, users.created_at
+       FROM sessions JOIN users ON users.id = sessions.user_id
+       WHERE sessions.id = ? AND sessions.expires_at > ?`,
+    )
+    .get(hashSessionToken(token), now) as User | undefined;
+  return user ?? null;
+}
+
+export function deleteSession(db: Database.Database, token: string): void {
+  db.prepare('DELETE FROM sessions WHERE id = ?').run(hashSessionToken(token));
+}
+
+/**
+ * Remove expired sessions.
+ *
+ * @returns the number of deleted sessions
+ */
+export function deleteExpiredSessions(
+  db: Database.Database,
+  now: number = Date.now(),
+): number {
+  return db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now)
+    .changes;
+}
+
+/**
+ * Read the session token from a Cookie header.
+ */
+export function getSessionTokenFromCookieHeader(
+  header: string | undefined | null,
+): string | null {
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name !== SESSION_COOKIE_NAME) continue;
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,232 @@
+/**
+ * Online backup and restore of the SQLite database.
+ *
+ * Backups use SQLite's online backup API through better-sqlite3, which
+ * produces a consistent copy while the WebSocket server keeps writing.
+ * Copying the .db file directly can miss pages still held in the WAL.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import * as Y from 'yjs';
+
+const BACKUP_PREFIX = 'markdown-board-';
+const BACKUP_SUFFIX = '.db';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BackupRetention {
+  // Number of newest backups to keep; 0 keeps all
+  keep: number;
+  // Backups older than this are removed; 0 disables the age limit
+  maxAgeDays: number;
+}
+
+export interface BackupFile {
+  path: string;
+  created_at: number;
+}
+
+export interface BackupCheckResult {
+  errors: string[];
+  warnings: string[];
+}
+
+function formatTimestamp(now: number): string {
+  // 2026-01-02T03:04:05.678Z -> 20260102T030405678Z
+  return new Date(now).toISOString().replace(/[-:.]/g, '');
+}
+
+function parseTimestamp(name: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/.exec(
+    name,
+  );
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, ms] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute, second, ms);
+}
+
+/**
+ * Write a consistent copy of the database into backupDir.
+ *
+ * @returns the path of the new backup file
+ */
+export async function createBackup(
+  db: Database.Database,
+  backupDir: string,
+  now: number = Date.now(),
+): Promise<string> {
+  fs.mkdirSync(backupDir, { recursive: true });
+  const file = path.join(
+    backupDir,
+    `${BACKUP_PREFIX}${formatTimestamp(now)}${BACKUP_SUFFIX}`,
+  );
+  await db.backup(file);
+  return file;
+}
+
+/**
+ * List backups in backupDir, newest first.
+ * Files not created by createBackup are ignored.
+ */
+export function listBackups(backupDir: string): BackupFile[] {
+  if (!fs.existsSync(backupDir)) return [];
+
+  const backups: BackupFile[] = [];
+  for (const name of fs.readdirSync(backupDir)) {
+    if (!name.startsWith(BACKUP_PREFIX) || !name.endsWith(BACKUP_SUFFIX)) {
+      continue;
+    }
+    const createdAt = parseTimestamp(
+      name.slice(BACKUP_PREFIX.length, -BACKUP_SUFFIX.length),
+    );
+    if (createdAt !== null) {
+      backups.push({ path: path.join(backupDir, name), created_at: createdAt });
+    }
+  }
+  return backups.sort((a, b) => b.created_at - a.created_at);
+}
+
+/**
+ * Delete backups outside the retention settings.
+ * The newest backup is always kept.
+ *
+ * @returns the paths of the deleted backups
+ */
+export function pruneBackups(
+  backupDir: string,
+  { keep, maxAgeDays }: BackupRetention,
+  now: number = Date.now(),
+): string[] {
+  const oldestAllowed = maxAgeDays > 0 ? now - maxAgeDays * DAY_MS : -Infinity;
+
+  const deleted: string[] = [];
+  listBackups(backupDir).forEach((backup, index) => {
+    if (index === 0) return;
+    const overCount = keep > 0 && index >= keep;
+    if (overCount || backup.created_at < oldestAllowed) {
+      fs.rmSync(backup.path);
+      deleted.push(backup.path);
+    }
+  });
+  return deleted;
+}
+
+function hasTable(db: Database.Database, name: string): boolean {
+  return (
+    db
+      .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .get(name) !== undefined
+  );
+}
+
+/**
+ * Check that a database file is intact and that pages and yjs_updates
+ * agree with each other.
+ * Errors make the file unusable; warnings are reported but harmless.
+ */
+export function checkDatabaseFile(file: string): BackupCheckResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let db: Database.Database;
+  try {
+    db = new Database(file, { readonly: true, fileMustExist: true });
+  } catch (error) {
+    return { errors: [`Cannot open ${file}: ${String(error)}`], warnings };
+  }
+
+  try {
+    let integrity: unknown;
+    try {
+      integrity = db.pragma('integrity_check', { simple: true });
+    } catch (error) {
+      integrity = error instanceof Error ? error.message : error;
+    }
+    if (integrity !== 'ok') {
+      errors.push(`Integrity check failed: ${String(integrity)}`);
+      return { errors, warnings };
+    }
+
+    for (const table of ['pages', 'yjs_updates']) {
+      if (!hasTable(db, table)) errors.push(`Table ${table} is missing`);
+    }
+    if (errors.length > 0) return { errors, warnings };
+
+    const orphans = db
+      .prepare(
+        `SELECT DISTINCT doc_name FROM yjs_updates
+         WHERE doc_name NOT IN (SELECT id FROM pages)`,
+      )
+      .all() as Array<{ doc_name: string }>;
+    for (const { doc_name } of orphans) {
+      warnings.push(`yjs_updates for ${doc_name} have no pages row`);
+    }
+
+    const docNames = db
+      .prepare('SELECT DISTINCT doc_name FROM yjs_updates')
+      .all() as Array<{ doc_name: string }>;
+    const getUpdates = db.prepare(
+      'SELECT value FROM yjs_updates WHERE doc_name = ? ORDER BY clock ASC',
+    );
+    for (const { doc_name } of docNames) {
+      const rows = getUpdates.all(doc_name) as Array<{ value: Buffer }>;
+      const ydoc = new Y.Doc();
+      try {
+        Y.applyUpdate(ydoc, Y.mergeUpdates(rows.map((row) => row.value)));
+      } catch (error) {
+        errors.push(`yjs_updates for ${doc_name} are corrupted: ${error}`);
+      } finally {
+        ydoc.destroy();
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Replace the database at dbPath with a backup.
+ * The backup is checked first and the current database is kept next to
+ * it as `<name>.before-restore-<timestamp>`. Both servers must be
+ * stopped while restoring.
+ *
+ * @returns the path the previous database was moved to, or null if
+ *   there was no database at dbPath
+ */
+export function restoreBackup(
+  backupPath: string,
+  dbPath: string,
+  now: number = Date.now(),
+): string | null {
+  const { errors } = checkDatabaseFile(backupPath);
+  if (errors.length > 0) {
+    throw new Error(
+      `Backup failed the consistency check:\n${errors.join('\n')}`,
+    );
+  }
+
+  let previous: string | null = null;
+  if (fs.existsSync(dbPath)) {
+    // Closing the last connection folds the WAL into the main file and
+    // deletes it, so a WAL left behind means another process has it open
+    const current = new Database(dbPath);
+    current.pragma('wal_checkpoint(TRUNCATE)');
+    current.close();
+    if (fs.existsSync(`${dbPath}-wal`)) {
+      throw new Error(`${dbPath} is in use; stop the servers first`);
+    }
+    previous = `${dbPath}.before-restore-${formatTimestamp(now)}`;
+  }
+
+  // Copy next to the target first so the final swap is a rename
+  const staged = `${dbPath}.restoring`;
+  fs.copyFileSync(backupPath, staged);
+  if (previous) fs.renameSync(dbPath, previous);
+  fs.rmSync(`${dbPath}-shm`, { force: true });
+  fs.renameSync(staged, dbPath);
+
+  return previous;
+}
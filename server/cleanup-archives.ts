@@ -4,18 +4,19 @@
  */
 
 import type Database from 'better-sqlite3';
+import { deletePage } from './delete-page';
 
 export const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
 export const ONE_HOUR_MS = 60 * 60 * 1000;
 
 /**
  * Delete archived pages older than 30 days from the given database,
- * including their associated yjs_updates records.
+ * including every per-page record removed by deletePage.
  */
 export function cleanupOldArchives(db: Database.Database): number {
   const thirtyDaysAgo = Date.now() - THIRTY_DAYS_MS;
 
-  // Find pages to delete first, then delete yjs_updates and pages in a transaction
+  // Find pages to delete first, then delete each page with its records in a transaction
   const deleteOldArchives = db.transaction(() => {
     const pages = db
       .prepare(
@@ -23,19 +24,11 @@ export function cleanupOldArchives(db: Database.Database): number {
       )
       .all(thirtyDaysAgo) as { id: string }[];
 
-    if (pages.length === 0) return 0;
-
-    const deleteYjs = db.prepare('DELETE FROM yjs_updates WHERE doc_name = ?');
+    let deleted = 0;
     for (const page of pages) {
-      deleteYjs.run(page.id);
+      if (deletePage(db, page.id)) deleted++;
     }
-
-    const result = db
-      .prepare(
-        'DELETE FROM pages WHERE archived_at IS NOT NULL AND archived_at < ?',
-      )
-      .run(thirtyDaysAgo);
-    return result.changes;
+    return deleted;
   });
 
   return deleteOldArchives();
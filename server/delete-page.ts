@@ -0,0 +1,32 @@
+/**
+ * Removal of a page and every record that hangs off it.
+ * Shared by the DELETE API route, archive cleanup and empty-page removal
+ * in the WebSocket server so that new per-page tables only need to be
+ * registered here.
+ */
+
+import type Database from 'better-sqlite3';
+
+/**
+ * Delete a page row together with its yjs_updates, page_snapshots,
+ * page_search, page_shares and attachments entries, and the page_links
+ * rows from and to it.
+ * Runs in its own transaction (nested calls become savepoints).
+ *
+ * @returns true if the pages row existed and was deleted
+ */
+export function deletePage(db: Database.Database, pageId: string): boolean {
+  const run = db.transaction(() => {
+    db.prepare('DELETE FROM yjs_updates WHERE doc_name = ?').run(pageId);
+    db.prepare('DELETE FROM page_snapshots WHERE doc_name = ?').run(pageId);
+    db.prepare('DELETE FROM page_search WHERE doc_name = ?').run(pageId);
+    db.prepare('DELETE FROM page_shares WHERE page_id = ?').run(pageId);
+    db.prepare('DELETE FROM attachments WHERE page_id = ?').run(pageId);
+    db.prepare(
+      'DELETE FROM page_links WHERE source_id = ? OR target_id = ?',
+    ).run(pageId, pageId);
+    return db.prepare('DELETE FROM pages WHERE id = ?').run(pageId);
+  });
+
+  return run().changes > 0;
+}
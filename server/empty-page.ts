@@ -0,0 +1,47 @@
+/**
+ * Detection of pages left empty, e.g. created and closed without typing
+ * anything. The WebSocket server deletes them when their room closes.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Node } from '@milkdown/prose/model';
+import { yXmlFragmentToProseMirrorRootNode } from 'y-prosemirror';
+import type * as Y from 'yjs';
+import { deletePage } from './delete-page';
+import { getPageSchema } from './markdown';
+
+/**
+ * Whether a document has no content: no text other than whitespace and
+ * no leaf nodes such as images, page links or horizontal rules. Line
+ * breaks alone do not count.
+ */
+export function isDocEmpty(doc: Node): boolean {
+  let empty = true;
+  doc.descendants((node) => {
+    if (!empty) return false;
+    if (node.isText) {
+      empty = !node.text?.trim();
+    } else if (node.isLeaf && node.type.name !== 'hard_break') {
+      empty = false;
+    }
+    return empty;
+  });
+  return empty;
+}
+
+/**
+ * Delete a page together with its attachments if its document is empty.
+ *
+ * @returns true if the page was deleted
+ */
+export async function deletePageIfEmpty(
+  db: Database.Database,
+  pageId: string,
+  ydoc: Y.Doc,
+): Promise<boolean> {
+  const doc = yXmlFragmentToProseMirrorRootNode(
+    ydoc.getXmlFragment('prosemirror'),
+    await getPageSchema(),
+  );
+  return isDocEmpty(doc) && deletePage(db, pageId);
+}
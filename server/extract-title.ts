@@ -1,7 +1,9 @@
 /**
  * Extract a title from a ProseMirror JSON document structure.
  *
- * Concatenates all text nodes within the first node of the document.
+ * Concatenates all text nodes within the first node of the document,
+ * leaving out pending suggested insertions (see suggestion-marks.ts).
+ * Links to other pages count with the title stored in the link.
  * Returns 'Untitled' if no text is found.
  *
  * This is the canonical implementation shared by both the Next.js app
@@ -27,12 +29,22 @@ export function extractTitleFromProsemirrorJSON(
   return text.trim() || 'Untitled';
 }
 
+function isSuggestedInsertion(node: Record<string, unknown>): boolean {
+  const marks = node.marks as Array<{ type?: unknown }> | undefined;
+  return !!marks?.some((mark) => mark.type === 'suggestion_insert');
+}
+
 function collectText(nodes: Array<Record<string, unknown>>): string {
   let result = '';
   for (const node of nodes) {
+    if (isSuggestedInsertion(node)) continue;
     if (node.type === 'text' && typeof node.text === 'string') {
       result += node.text;
     }
+    const attrs = node.attrs as { title?: unknown } | undefined;
+    if (node.type === 'page_link' && typeof attrs?.title === 'string') {
+      result += attrs.title;
+    }
     const children = node.content as Array<Record<string, unknown>> | undefined;
     if (children) {
       result += collectText(children);
@@ -0,0 +1,51 @@
+/**
+ * Creation of pages from Markdown files.
+ */
+
+import type Database from 'better-sqlite3';
+import * as Y from 'yjs';
+import { yDocToProsemirrorJSON } from 'y-prosemirror';
+import { extractTitleFromProsemirrorJSON } from './extract-title';
+import { markdownToYDoc } from './markdown';
+import { extractLinkedPageIds, updatePageLinks } from './page-links';
+import {
+  extractPlainTextFromProsemirrorJSON,
+  indexPageText,
+} from './page-search';
+import { YjsSqlitePersistence } from './yjs-sqlite-persistence';
+
+/**
+ * Create a page whose document is parsed from Markdown.
+ * The whole document is stored as the first yjs_updates row, so the
+ * page opens in the editor like any other page.
+ *
+ * @returns the extracted title of the new page
+ */
+export async function importMarkdownPage(
+  db: Database.Database,
+  pageId: string,
+  markdown: string,
+  now: number = Date.now(),
+): Promise<string> {
+  const ydoc = await markdownToYDoc(markdown);
+  try {
+    const json = yDocToProsemirrorJSON(ydoc, 'prosemirror');
+    const title = extractTitleFromProsemirrorJSON(json);
+    const persistence = new YjsSqlitePersistence(db);
+
+    const run = db.transaction(() => {
+      db.prepare(
+        `INSERT INTO pages (id, title, created_at, updated_at, archived_at)
+         VALUES (?, ?, ?, ?, NULL)`,
+      ).run(pageId, title, now, now);
+      persistence.storeUpdate(pageId, Y.encodeStateAsUpdate(ydoc));
+      indexPageText(db, pageId, extractPlainTextFromProsemirrorJSON(json));
+      updatePageLinks(db, pageId, extractLinkedPageIds(json));
+    });
+    run();
+
+    return title;
+  } finally {
+    ydoc.destroy();
+  }
+}
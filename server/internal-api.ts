@@ -0,0 +1,61 @@
+/**
+ * Authentication of the WebSocket server's internal HTTP endpoints,
+ * which the Next.js app calls to apply changes to live documents.
+ *
+ * Checking for a loopback address is not enough: behind a reverse proxy
+ * on the same host, every public request arrives from 127.0.0.1. The
+ * app sends a shared secret in INTERNAL_SECRET_HEADER instead.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type Database from 'better-sqlite3';
+
+export const INTERNAL_SECRET_HEADER = 'x-internal-secret';
+
+// Where the app reaches the WebSocket server; the port is shared with the
+// client (see useCollabEditor.ts)
+export const WS_SERVER_URL = `http://127.0.0.1:${process.env.NEXT_PUBLIC_WS_PORT || 1234}`;
+
+const SECRET_SETTING_KEY = 'internal_api_secret';
+
+/**
+ * Secret shared by the Next.js app and the WebSocket server.
+ * INTERNAL_API_SECRET takes precedence; otherwise a random secret is
+ * generated once and kept in app_settings, like the share token secret.
+ */
+export function getInternalApiSecret(db: Database.Database): string {
+  const fromEnv = process.env.INTERNAL_API_SECRET;
+  if (fromEnv) return fromEnv;
+
+  db.prepare(
+    'INSERT OR IGNORE INTO app_settings (key, value) VALUES (?, ?)',
+  ).run(SECRET_SETTING_KEY, randomBytes(32).toString('base64url'));
+  const row = db
+    .prepare('SELECT value FROM app_settings WHERE key = ?')
+    .get(SECRET_SETTING_KEY) as { value: string };
+  return row.value;
+}
+
+/**
+ * Headers to send with requests to the internal endpoints.
+ */
+export function getInternalRequestHeaders(
+  db: Database.Database,
+): Record<string, string> {
+  return { [INTERNAL_SECRET_HEADER]: getInternalApiSecret(db) };
+}
+
+/**
+ * Whether a request to an internal endpoint carries the shared secret.
+ */
+export function isInternalRequest(
+  db: Database.Database,
+  headers: IncomingHttpHeaders,
+): boolean {
+  const provided = headers[INTERNAL_SECRET_HEADER];
+  if (typeof provided !== 'string') return false;
+  const expected = Buffer.from(getInternalApiSecret(db));
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,135 @@
+/**
+ * Markdown conversion on the server using the editor's own
+ * commonmark + GFM schema, parser and serializer.
+ *
+ * Milkdown's Editor always mounts a ProseMirror EditorView, which needs
+ * a DOM. Only the schema, parser and serializer are needed here, so the
+ * internal plugins that provide them are run on a bare Ctx instead.
+ */
+
+import {
+  commands,
+  config,
+  editorState,
+  editorViewCtx,
+  init,
+  keymap,
+  parser,
+  parserCtx,
+  pasteRule,
+  schema,
+  schemaCtx,
+  serializer,
+  serializerCtx,
+  type Editor,
+} from '@milkdown/core';
+import { Clock, Container, Ctx, type MilkdownPlugin } from '@milkdown/ctx';
+import { commonmark } from '@milkdown/preset-commonmark';
+import { gfm } from '@milkdown/preset-gfm';
+import type { Schema } from '@milkdown/prose/model';
+import * as Y from 'yjs';
+import {
+  prosemirrorToYXmlFragment,
+  yXmlFragmentToProseMirrorRootNode,
+} from 'y-prosemirror';
+import { mathNodes } from './math-nodes';
+import { pageLinks } from './page-link-node';
+import { suggestionMarks, withoutSuggestions } from './suggestion-marks';
+
+let transformerPromise: ReturnType<typeof createTransformer> | null = null;
+
+/**
+ * Milkdown's plugin timers signal readiness through global DOM events.
+ * Node has no global event target, so one is provided if missing.
+ */
+function ensureGlobalEventTarget(): void {
+  if (typeof globalThis.dispatchEvent === 'function') return;
+  const target = new EventTarget();
+  globalThis.addEventListener = target.addEventListener.bind(target);
+  globalThis.removeEventListener = target.removeEventListener.bind(target);
+  globalThis.dispatchEvent = target.dispatchEvent.bind(target);
+}
+
+async function createTransformer() {
+  ensureGlobalEventTarget();
+
+  const ctx = new Ctx(new Container(), new Clock());
+  // Some node serializers look up the view; an empty one is never used
+  ctx.inject(editorViewCtx, {} as never);
+
+  const plugins: MilkdownPlugin[] = [
+    schema,
+    parser,
+    serializer,
+    commands,
+    keymap,
+    pasteRule,
+    editorState,
+    // init only reads the editor to inject it into the context
+    init({} as Editor),
+    config(async () => {}),
+    ...commonmark,
+    ...gfm,
+    ...suggestionMarks,
+    ...pageLinks,
+    ...mathNodes,
+  ];
+  // Like Editor.create: every plugin records its timers before any runs
+  const handlers = plugins.map((plugin) => plugin(ctx.produce()));
+  await Promise.all(handlers.map((handler) => handler()));
+
+  return {
+    schema: ctx.get(schemaCtx),
+    parser: ctx.get(parserCtx),
+    serializer: ctx.get(serializerCtx),
+  };
+}
+
+/**
+ * Shared transformer, created on first use and reused for the lifetime
+ * of the process.
+ */
+function getTransformer() {
+  transformerPromise ??= createTransformer().catch((error) => {
+    transformerPromise = null;
+    throw error;
+  });
+  return transformerPromise;
+}
+
+/**
+ * The schema of page documents, the same one the editor uses.
+ */
+export async function getPageSchema(): Promise<Schema> {
+  const { schema } = await getTransformer();
+  return schema;
+}
+
+/**
+ * Serialize the `prosemirror` fragment of a Y.Doc to Markdown.
+ * Pending suggestions are not part of the output.
+ */
+export async function yDocToMarkdown(ydoc: Y.Doc): Promise<string> {
+  const { schema, serializer } = await getTransformer();
+  const node = withoutSuggestions(
+    yXmlFragmentToProseMirrorRootNode(
+      ydoc.getXmlFragment('prosemirror'),
+      schema,
+    ),
+  );
+  // The remark stringifier cannot handle a root without children
+  if (node.childCount === 0) return '';
+  return serializer(node);
+}
+
+/**
+ * Parse Markdown into a new Y.Doc whose `prosemirror` fragment holds
+ * the document, in the same shape the collaborative editor produces.
+ */
+export async function markdownToYDoc(markdown: string): Promise<Y.Doc> {
+  const { parser } = await getTransformer();
+  const node = parser(markdown);
+  const ydoc = new Y.Doc();
+  prosemirrorToYXmlFragment(node, ydoc.getXmlFragment('prosemirror'));
+  return ydoc;
+}
@@ -0,0 +1,79 @@
+/**
+ * Nodes for LaTeX math, inline and as a block.
+ *
+ * The formula is the node's text, so it is stored as plain text in the
+ * Y.Doc and exported with `$$` delimiters (remark-math). The editor
+ * renders it with KaTeX (see lib/milkdown-math.ts).
+ *
+ * Shared by the editor and the server-side Markdown conversion, since
+ * y-prosemirror deletes nodes that the schema does not know.
+ */
+
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node } from '@milkdown/prose/model';
+import { $nodeSchema, $remark } from '@milkdown/utils';
+import remarkMath from 'remark-math';
+
+export const MATH_INLINE = 'math_inline';
+export const MATH_BLOCK = 'math_block';
+
+// Single dollars stay text in Markdown, so that prose with prices such
+// as `$5 and $10` is not read as a formula; inline math is `$$…$$`
+const remarkMathPlugin = $remark('remarkMath', () => remarkMath, {
+  singleDollarTextMath: false,
+});
+
+const mathInlineSchema = $nodeSchema(MATH_INLINE, () => ({
+  group: 'inline',
+  inline: true,
+  content: 'text*',
+  marks: '',
+  // Keeps the `[[` and `/` menus out of formulas
+  code: true,
+  parseDOM: [{ tag: 'span[data-math-inline]', preserveWhitespace: 'full' }],
+  toDOM: () => ['span', { 'data-math-inline': '', class: 'math-inline' }, 0],
+  parseMarkdown: {
+    match: ({ type }) => type === 'inlineMath',
+    runner: (state, node, type) => {
+      state.openNode(type);
+      if (node.value) state.addText(node.value as string);
+      state.closeNode();
+    },
+  },
+  toMarkdown: {
+    match: (node: Node) => node.type.name === MATH_INLINE,
+    runner: (state, node) => {
+      state.addNode('inlineMath', undefined, node.textContent);
+    },
+  },
+}));
+
+const mathBlockSchema = $nodeSchema(MATH_BLOCK, () => ({
+  group: 'block',
+  content: 'text*',
+  marks: '',
+  code: true,
+  defining: true,
+  parseDOM: [{ tag: 'div[data-math-block]', preserveWhitespace: 'full' }],
+  toDOM: () => ['div', { 'data-math-block': '', class: 'math-block' }, 0],
+  parseMarkdown: {
+    match: ({ type }) => type === 'math',
+    runner: (state, node, type) => {
+      state.openNode(type);
+      if (node.value) state.addText(node.value as string);
+      state.closeNode();
+    },
+  },
+  toMarkdown: {
+    match: (node: Node) => node.type.name === MATH_BLOCK,
+    runner: (state, node) => {
+      state.addNode('math', undefined, node.textContent);
+    },
+  },
+}));
+
+export const mathNodes: MilkdownPlugin[] = [
+  remarkMathPlugin,
+  mathInlineSchema,
+  mathBlockSchema,
+].flat();
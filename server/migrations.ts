@@ -0,0 +1,249 @@
+/**
+ * Versioned schema migrations shared by the Next.js app and the
+ * WebSocket server.
+ *
+ * Both processes run runMigrations at startup, so the schema is defined
+ * only here. Applied versions are recorded in schema_version. Each
+ * migration runs in its own IMMEDIATE transaction and re-checks the
+ * version inside it, so when both processes start at once the second
+ * one waits for the first and then skips what is already applied.
+ *
+ * Migrations are append-only: never edit or renumber one that has been
+ * released, add a new one instead. The first migrations use
+ * IF NOT EXISTS because they adopt databases created before this module.
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create pages and yjs_updates',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pages (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL DEFAULT 'Untitled',
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          archived_at INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pages_archived_at ON pages(archived_at);
+        CREATE INDEX IF NOT EXISTS idx_pages_created_at ON pages(created_at);
+        CREATE INDEX IF NOT EXISTS idx_pages_updated_at ON pages(updated_at);
+
+        CREATE TABLE IF NOT EXISTS yjs_updates (
+          doc_name TEXT NOT NULL,
+          clock INTEGER NOT NULL,
+          value BLOB NOT NULL,
+          PRIMARY KEY (doc_name, clock)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'drop pages.content from the pre-Yjs schema',
+    up: (db) => {
+      const hasContentColumn = db
+        .prepare(
+          "SELECT COUNT(*) as cnt FROM pragma_table_info('pages') WHERE name='content'",
+        )
+        .get() as { cnt: number };
+      if (hasContentColumn.cnt > 0) {
+        db.exec('ALTER TABLE pages DROP COLUMN content');
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'create page_snapshots',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS page_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          doc_name TEXT NOT NULL,
+          title TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          snapshot BLOB NOT NULL,
+          state BLOB NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_page_snapshots_doc_name
+          ON page_snapshots(doc_name, created_at);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'create page_search',
+    up: (db) => {
+      // See server/page-search.ts for the choice of tokenizer
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS page_search USING fts5(
+          doc_name UNINDEXED,
+          body,
+          tokenize = 'trigram'
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'create page_shares and app_settings',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE page_shares (
+          id TEXT PRIMARY KEY,
+          page_id TEXT NOT NULL,
+          scope TEXT NOT NULL CHECK (scope IN ('read', 'write')),
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          revoked_at INTEGER
+        );
+
+        CREATE INDEX idx_page_shares_page_id ON page_shares(page_id);
+
+        CREATE TABLE app_settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'create users and sessions',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE users (
+          id TEXT PRIMARY KEY,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          display_name TEXT NOT NULL,
+          password_hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'create page_links',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE page_links (
+          source_id TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          PRIMARY KEY (source_id, target_id)
+        );
+
+        CREATE INDEX idx_page_links_target_id ON page_links(target_id);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'create attachments',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE attachments (
+          id TEXT PRIMARY KEY,
+          page_id TEXT NOT NULL,
+          content_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          data BLOB NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_attachments_page_id ON attachments(page_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'allow suggest scope for page_shares',
+    // SQLite cannot change a CHECK constraint, so the table is rebuilt
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE page_shares_new (
+          id TEXT PRIMARY KEY,
+          page_id TEXT NOT NULL,
+          scope TEXT NOT NULL CHECK (scope IN ('read', 'suggest', 'write')),
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          revoked_at INTEGER
+        );
+
+        INSERT INTO page_shares_new SELECT * FROM page_shares;
+        DROP TABLE page_shares;
+        ALTER TABLE page_shares_new RENAME TO page_shares;
+
+        CREATE INDEX idx_page_shares_page_id ON page_shares(page_id);
+      `);
+    },
+  },
+];
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+}
+
+/**
+ * Highest applied migration version, or 0 for a new database.
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  ensureVersionTable(db);
+  const row = db
+    .prepare('SELECT MAX(version) as version FROM schema_version')
+    .get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Apply every migration newer than the current schema version.
+ *
+ * @returns the versions applied by this call
+ */
+export function runMigrations(
+  db: Database.Database,
+  list: Migration[] = migrations,
+): number[] {
+  ensureVersionTable(db);
+  const record = db.prepare(
+    'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+  );
+
+  const applied: number[] = [];
+  for (const migration of [...list].sort((a, b) => a.version - b.version)) {
+    const apply = db.transaction(() => {
+      if (getSchemaVersion(db) >= migration.version) return;
+      migration.up(db);
+      record.run(migration.version, migration.name, Date.now());
+      applied.push(migration.version);
+    });
+    apply.immediate();
+  }
+  return applied;
+}
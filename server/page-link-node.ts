@@ -0,0 +1,68 @@
+/**
+ * Node for links between pages (`[[` links in the editor).
+ *
+ * A link stores the ID of the page it points to, so that it keeps
+ * working when the page is renamed, and the title the page had when the
+ * link was made. The editor shows the page's current title instead
+ * (see lib/milkdown-page-links.ts); the stored title is used where the
+ * current one is not known, like in exported Markdown.
+ *
+ * Shared by the editor and the server-side Markdown conversion, since
+ * y-prosemirror deletes nodes that the schema does not know.
+ */
+
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node } from '@milkdown/prose/model';
+import { $nodeSchema } from '@milkdown/utils';
+
+export const PAGE_LINK = 'page_link';
+
+export function getPageLinkHref(pageId: string): string {
+  return `/p/${pageId}`;
+}
+
+const pageLinkSchema = $nodeSchema(PAGE_LINK, () => ({
+  group: 'inline',
+  inline: true,
+  atom: true,
+  attrs: {
+    pageId: { default: '' },
+    title: { default: '' },
+  },
+  parseDOM: [
+    {
+      tag: 'a[data-page-link]',
+      getAttrs: (dom: HTMLElement) => ({
+        pageId: dom.getAttribute('data-page-link') ?? '',
+        title: dom.textContent ?? '',
+      }),
+    },
+  ],
+  toDOM: (node: Node) => [
+    'a',
+    {
+      href: getPageLinkHref(node.attrs.pageId),
+      'data-page-link': node.attrs.pageId,
+      class: 'page-link',
+    },
+    node.attrs.title || 'Untitled',
+  ],
+  // Imported Markdown links stay plain links
+  parseMarkdown: {
+    match: () => false,
+    runner: () => {},
+  },
+  toMarkdown: {
+    match: (node: Node) => node.type.name === PAGE_LINK,
+    runner: (state, node) => {
+      state
+        .openNode('link', undefined, {
+          url: getPageLinkHref(node.attrs.pageId),
+        })
+        .addNode('text', undefined, node.attrs.title || 'Untitled')
+        .closeNode();
+    },
+  },
+}));
+
+export const pageLinks: MilkdownPlugin[] = [pageLinkSchema].flat();
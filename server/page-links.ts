@@ -0,0 +1,197 @@
+/**
+ * Links between pages, for backlinks.
+ *
+ * The page_links table holds one row per page that links to another
+ * page, through a `[[` link or a plain link to `/p/<id>`. The WebSocket
+ * server rewrites the rows of a page whenever its content is synced,
+ * together with the title and the search index.
+ */
+
+import type Database from 'better-sqlite3';
+import * as Y from 'yjs';
+
+// Path of a page in the app; links may also use the full URL
+const PAGE_PATH = /^\/p\/([^/?#]+)\/?$/;
+// Base for resolving relative hrefs; only the path is used
+const URL_BASE = 'http://localhost';
+// Hrefs with a scheme are full URLs; others are kept relative
+const ABSOLUTE_URL = /^[a-z][a-z\d+.-]*:/i;
+// app_settings key recorded once existing pages have been scanned
+const BACKFILL_SETTING = 'page_links_backfilled';
+
+export interface Backlink {
+  id: string;
+  title: string;
+  updated_at: number;
+}
+
+/**
+ * The page ID a link points to, or null for links elsewhere.
+ */
+export function getLinkedPageId(href: string): string | null {
+  try {
+    const match = PAGE_PATH.exec(new URL(href, URL_BASE).pathname);
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * href pointed at another page, keeping its host, query and fragment.
+ */
+function replaceLinkedPageId(href: string, pageId: string): string {
+  const url = new URL(href, URL_BASE);
+  url.pathname = `/p/${encodeURIComponent(pageId)}`;
+  return ABSOLUTE_URL.test(href)
+    ? url.toString()
+    : `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Point the links of a page document at other pages, e.g. when the
+ * pages it links to were imported under new IDs.
+ *
+ * @param pageIds - the new ID of each page whose links move
+ */
+export function rewritePageLinks(
+  ydoc: Y.Doc,
+  pageIds: ReadonlyMap<string, string>,
+): void {
+  if (pageIds.size === 0) return;
+
+  const visit = (node: Y.XmlFragment | Y.XmlElement | Y.XmlText) => {
+    if (node instanceof Y.XmlText) {
+      let index = 0;
+      const delta = node.toDelta() as Array<{
+        insert: unknown;
+        attributes?: { link?: { href?: unknown } };
+      }>;
+      for (const { insert, attributes } of delta) {
+        const length = typeof insert === 'string' ? insert.length : 1;
+        const link = attributes?.link;
+        const href = link?.href;
+        const id = typeof href === 'string' ? getLinkedPageId(href) : null;
+        const newId = id === null ? undefined : pageIds.get(id);
+        if (typeof href === 'string' && newId !== undefined) {
+          node.format(index, length, {
+            link: { ...link, href: replaceLinkedPageId(href, newId) },
+          });
+        }
+        index += length;
+      }
+      return;
+    }
+    if (node instanceof Y.XmlElement && node.nodeName === 'page_link') {
+      const newId = pageIds.get(node.getAttribute('pageId') ?? '');
+      if (newId !== undefined) node.setAttribute('pageId', newId);
+    }
+    node.toArray().forEach((child) => {
+      if (!(child instanceof Y.XmlHook)) visit(child);
+    });
+  };
+
+  ydoc.transact(() => visit(ydoc.getXmlFragment('prosemirror')));
+}
+
+/**
+ * IDs of the pages a ProseMirror JSON document links to.
+ */
+export function extractLinkedPageIds(json: Record<string, unknown>): string[] {
+  const ids = new Set<string>();
+
+  const visit = (node: Record<string, unknown>) => {
+    const attrs = node.attrs as { pageId?: unknown } | undefined;
+    if (node.type === 'page_link' && typeof attrs?.pageId === 'string') {
+      ids.add(attrs.pageId);
+    }
+    const marks = node.marks as
+      | Array<{ type?: unknown; attrs?: { href?: unknown } }>
+      | undefined;
+    for (const mark of marks ?? []) {
+      if (mark.type !== 'link' || typeof mark.attrs?.href !== 'string') {
+        continue;
+      }
+      const id = getLinkedPageId(mark.attrs.href);
+      if (id) ids.add(id);
+    }
+    const children = node.content as Array<Record<string, unknown>> | undefined;
+    children?.forEach(visit);
+  };
+
+  visit(json);
+  return [...ids];
+}
+
+/**
+ * Replace the links recorded for a page. Links to itself and to pages
+ * that do not exist (e.g. deleted ones) are not recorded.
+ */
+export function updatePageLinks(
+  db: Database.Database,
+  sourceId: string,
+  targetIds: string[],
+): void {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO page_links (source_id, target_id)
+     SELECT ?, id FROM pages WHERE id = ?`,
+  );
+  const run = db.transaction(() => {
+    db.prepare('DELETE FROM page_links WHERE source_id = ?').run(sourceId);
+    for (const targetId of targetIds) {
+      if (targetId !== sourceId) insert.run(sourceId, targetId);
+    }
+  });
+  run();
+}
+
+/**
+ * Pages that link to a page, most recently updated first. Archived pages
+ * are left out like in the page list.
+ */
+export function listBacklinks(
+  db: Database.Database,
+  targetId: string,
+): Backlink[] {
+  return db
+    .prepare(
+      `SELECT p.id, p.title, p.updated_at
+       FROM page_links l
+       JOIN pages p ON p.id = l.source_id
+       WHERE l.target_id = ? AND p.archived_at IS NULL
+       ORDER BY p.updated_at DESC`,
+    )
+    .all(targetId) as Backlink[];
+}
+
+/**
+ * Record the links of every page once, for pages stored before links
+ * were tracked. Later calls do nothing.
+ *
+ * @param loadJson - returns the ProseMirror JSON of a stored page
+ * @returns the number of pages scanned
+ */
+export function backfillPageLinks(
+  db: Database.Database,
+  loadJson: (pageId: string) => Record<string, unknown>,
+): number {
+  const run = db.transaction(() => {
+    const done = db
+      .prepare('SELECT 1 FROM app_settings WHERE key = ?')
+      .get(BACKFILL_SETTING);
+    if (done) return 0;
+
+    const pages = db.prepare('SELECT id FROM pages').all() as Array<{
+      id: string;
+    }>;
+    for (const { id } of pages) {
+      updatePageLinks(db, id, extractLinkedPageIds(loadJson(id)));
+    }
+    db.prepare('INSERT INTO app_settings (key, value) VALUES (?, ?)').run(
+      BACKFILL_SETTING,
+      String(Date.now()),
+    );
+    return pages.length;
+  });
+  return run();
+}
@@ -0,0 +1,256 @@
+/**
+ * Full-text search over page bodies.
+ *
+ * The plain text of every page is kept in the page_search FTS5 table.
+ * The trigram tokenizer is used because page bodies are mostly Japanese,
+ * which has no word boundaries for the default unicode61 tokenizer to
+ * split on. Trigrams cannot match terms shorter than three characters,
+ * so such queries fall back to a LIKE scan over the same table.
+ */
+
+import type Database from 'better-sqlite3';
+import type * as Y from 'yjs';
+import { yDocToProsemirrorJSON } from 'y-prosemirror';
+
+const SEARCH_RESULT_LIMIT = 50;
+// Characters of context shown on each side of the first match
+const SNIPPET_CONTEXT_CHARS = 40;
+const TRIGRAM_LENGTH = 3;
+const BLOCK_SEPARATOR = '\n';
+
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface PageSearchResult {
+  id: string;
+  title: string;
+  updated_at: number;
+  archived_at: number | null;
+  snippet: SearchSnippetPart[];
+}
+
+interface PageSearchRow {
+  id: string;
+  title: string;
+  updated_at: number;
+  archived_at: number | null;
+  body: string;
+}
+
+/**
+ * Extract the plain text of a ProseMirror JSON document.
+ * Block nodes are separated by newlines so that words in adjacent
+ * paragraphs do not run together. Pending suggested insertions are left
+ * out (see suggestion-marks.ts).
+ */
+export function extractPlainTextFromProsemirrorJSON(
+  json: Record<string, unknown>,
+): string {
+  const blocks: string[] = [];
+
+  const visit = (node: Record<string, unknown>): string => {
+    const marks = node.marks as Array<{ type?: unknown }> | undefined;
+    if (marks?.some((mark) => mark.type === 'suggestion_insert')) return '';
+    if (node.type === 'text' && typeof node.text === 'string') {
+      return node.text;
+    }
+    // Links to other pages read as the title stored in the link
+    const attrs = node.attrs as { title?: unknown } | undefined;
+    if (node.type === 'page_link' && typeof attrs?.title === 'string') {
+      return attrs.title;
+    }
+    const children = node.content as Array<Record<string, unknown>> | undefined;
+    if (!children) return '';
+
+    let inline = '';
+    for (const child of children) {
+      const text = visit(child);
+      if (child.type === 'text' || child.type === 'page_link') {
+        inline += text;
+      } else if (text) {
+        blocks.push(text);
+      }
+    }
+    return inline;
+  };
+
+  const rest = visit(json);
+  if (rest) blocks.push(rest);
+  return blocks.join(BLOCK_SEPARATOR);
+}
+
+/**
+ * Replace the indexed text of a page.
+ */
+export function indexPageText(
+  db: Database.Database,
+  docName: string,
+  body: string,
+): void {
+  const run = db.transaction(() => {
+    db.prepare('DELETE FROM page_search WHERE doc_name = ?').run(docName);
+    db.prepare('INSERT INTO page_search (doc_name, body) VALUES (?, ?)').run(
+      docName,
+      body,
+    );
+  });
+  run();
+}
+
+/**
+ * Index every page that has no entry in page_search yet, e.g. pages
+ * created before search existed.
+ *
+ * @param loadBody - returns the plain text of a stored page
+ * @returns the number of pages indexed
+ */
+export function backfillSearchIndex(
+  db: Database.Database,
+  loadBody: (docName: string) => string,
+): number {
+  const missing = db
+    .prepare(
+      `SELECT id FROM pages
+       WHERE id NOT IN (SELECT doc_name FROM page_search)`,
+    )
+    .all() as Array<{ id: string }>;
+
+  for (const { id } of missing) {
+    indexPageText(db, id, loadBody(id));
+  }
+  return missing.length;
+}
+
+/**
+ * Plain text of a Y.Doc as stored in the search index.
+ */
+export function extractPlainTextFromYDoc(ydoc: Y.Doc): string {
+  return extractPlainTextFromProsemirrorJSON(
+    yDocToProsemirrorJSON(ydoc, 'prosemirror'),
+  );
+}
+
+function splitTerms(query: string): string[] {
+  return query.trim().split(/\s+/).filter(Boolean);
+}
+
+function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function escapeRegExp(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toFtsPhrase(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build a snippet around the first occurrence of any term, splitting the
+ * text into matching and non-matching parts for highlighting.
+ */
+export function buildSnippet(
+  body: string,
+  terms: string[],
+): SearchSnippetPart[] {
+  const text = body.replace(/\s+/g, ' ').trim();
+  // Matched on the original text: lowercasing can change its length
+  // (e.g. 'İ'), which would shift the highlights. Longer terms come
+  // first so they win when several match at the same position.
+  const pattern = new RegExp(
+    [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|'),
+    'giu',
+  );
+
+  const firstMatch = text.search(pattern);
+  const center = firstMatch === -1 ? 0 : firstMatch;
+  const start = Math.max(0, center - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(text.length, center + SNIPPET_CONTEXT_CHARS * 2);
+
+  const parts: SearchSnippetPart[] = [];
+  const push = (part: string, match: boolean) => {
+    if (!part) return;
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) {
+      last.text += part;
+    } else {
+      parts.push({ text: part, match });
+    }
+  };
+
+  if (start > 0) push('…', false);
+  let position = start;
+  pattern.lastIndex = start;
+  for (
+    let match = pattern.exec(text);
+    match && match.index < end;
+    match = pattern.exec(text)
+  ) {
+    push(text.slice(position, match.index), false);
+    push(match[0], true);
+    position = match.index + match[0].length;
+  }
+  push(text.slice(position, end), false);
+  if (end < text.length) push('…', false);
+
+  return parts;
+}
+
+/**
+ * Search page bodies. Every whitespace-separated term must appear in
+ * the page. Active pages come before archived ones, so that archives
+ * cannot push them past the result limit; within each group results are
+ * ranked by relevance, or by recency when the query contains terms too
+ * short for the trigram index.
+ */
+export function searchPages(
+  db: Database.Database,
+  query: string,
+): PageSearchResult[] {
+  const terms = splitTerms(query);
+  if (terms.length === 0) return [];
+
+  const select = `
+    SELECT p.id, p.title, p.updated_at, p.archived_at, page_search.body
+    FROM page_search
+    JOIN pages p ON p.id = page_search.doc_name`;
+
+  let rows: PageSearchRow[];
+  // Trigrams are made of characters, not UTF-16 code units
+  if (terms.every((term) => [...term].length >= TRIGRAM_LENGTH)) {
+    rows = db
+      .prepare(
+        `${select}
+         WHERE page_search MATCH ?
+         ORDER BY p.archived_at IS NOT NULL, page_search.rank
+         LIMIT ?`,
+      )
+      .all(
+        terms.map(toFtsPhrase).join(' AND '),
+        SEARCH_RESULT_LIMIT,
+      ) as PageSearchRow[];
+  } else {
+    rows = db
+      .prepare(
+        `${select}
+         WHERE ${terms.map(() => "page_search.body LIKE ? ESCAPE '\\'").join(' AND ')}
+         ORDER BY p.archived_at IS NOT NULL, p.updated_at DESC
+         LIMIT ?`,
+      )
+      .all(
+        ...terms.map((term) => `%${escapeLikePattern(term)}%`),
+        SEARCH_RESULT_LIMIT,
+      ) as PageSearchRow[];
+  }
+
+  return rows.map(({ body, ...page }) => ({
+    ...page,
+    snippet: buildSnippet(body, terms),
+  }));
+}
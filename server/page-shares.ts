@@ -0,0 +1,208 @@
+/**
+ * Share links for pages.
+ *
+ * A share grants access to a single page with a `read`, `suggest` or
+ * `write` scope until it expires or is revoked. `suggest` links may only
+ * add suggestions (see room-access.ts). Tokens have the form
+ * `<share id>.<scope>.<expires_at>.<signature>`, where the signature is
+ * an HMAC over those fields and the page ID. The page ID itself is not
+ * part of the token, so a link holder never learns it and cannot fall
+ * back to the unrestricted /p/<id> URL.
+ *
+ * Shares are also stored in page_shares so they can be listed and
+ * revoked; a token is only accepted while its row is not revoked.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type Database from 'better-sqlite3';
+
+export type ShareScope = 'read' | 'suggest' | 'write';
+
+export const SHARE_SCOPES: readonly ShareScope[] = ['read', 'suggest', 'write'];
+export const DEFAULT_SHARE_TTL_SECONDS = 24 * 60 * 60;
+export const MAX_SHARE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Opening a link stores its token in a cookie named after the share, so
+// that the browser can load the page's attachments (see attachments.ts)
+export const SHARE_COOKIE_PREFIX = 'markdown_board_share_';
+
+const SECRET_SETTING_KEY = 'share_token_secret';
+// 12 base64url characters; never contains the '.' token separator
+const SHARE_ID_BYTES = 9;
+
+export interface PageShare {
+  id: string;
+  page_id: string;
+  scope: ShareScope;
+  created_at: number;
+  expires_at: number;
+  revoked_at: number | null;
+}
+
+export interface CreatedPageShare extends PageShare {
+  token: string;
+}
+
+export interface ShareGrant {
+  shareId: string;
+  pageId: string;
+  scope: ShareScope;
+  expiresAt: number;
+}
+
+export function getShareCookieName(shareId: string): string {
+  return `${SHARE_COOKIE_PREFIX}${shareId}`;
+}
+
+export function isShareScope(value: unknown): value is ShareScope {
+  return SHARE_SCOPES.includes(value as ShareScope);
+}
+
+/**
+ * Secret used to sign share tokens.
+ * SHARE_TOKEN_SECRET takes precedence; otherwise a random secret is
+ * generated once and kept in app_settings, so the Next.js app and the
+ * WebSocket server agree on it without extra configuration.
+ */
+export function getShareSecret(db: Database.Database): string {
+  const fromEnv = process.env.SHARE_TOKEN_SECRET;
+  if (fromEnv) return fromEnv;
+
+  db.prepare(
+    'INSERT OR IGNORE INTO app_settings (key, value) VALUES (?, ?)',
+  ).run(SECRET_SETTING_KEY, randomBytes(32).toString('base64url'));
+  const row = db
+    .prepare('SELECT value FROM app_settings WHERE key = ?')
+    .get(SECRET_SETTING_KEY) as { value: string };
+  return row.value;
+}
+
+function sign(
+  secret: string,
+  share: Pick<PageShare, 'id' | 'page_id' | 'scope' | 'expires_at'>,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${share.id}.${share.page_id}.${share.scope}.${share.expires_at}`)
+    .digest('base64url');
+}
+
+function formatToken(secret: string, share: PageShare): string {
+  return `${share.id}.${share.scope}.${share.expires_at}.${sign(secret, share)}`;
+}
+
+/**
+ * Create a share for a page.
+ *
+ * @returns the stored share and its token, or null if the page does not exist
+ */
+export function createShare(
+  db: Database.Database,
+  pageId: string,
+  { scope, ttlSeconds }: { scope: ShareScope; ttlSeconds: number },
+  now: number = Date.now(),
+): CreatedPageShare | null {
+  const page = db.prepare('SELECT 1 FROM pages WHERE id = ?').get(pageId);
+  if (!page) return null;
+
+  const share: PageShare = {
+    id: randomBytes(SHARE_ID_BYTES).toString('base64url'),
+    page_id: pageId,
+    scope,
+    created_at: now,
+    expires_at: now + ttlSeconds * 1000,
+    revoked_at: null,
+  };
+  db.prepare(
+    `INSERT INTO page_shares (id, page_id, scope, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?)`,
+  ).run(
+    share.id,
+    share.page_id,
+    share.scope,
+    share.created_at,
+    share.expires_at,
+  );
+
+  return { ...share, token: formatToken(getShareSecret(db), share) };
+}
+
+/**
+ * Shares of a page, newest first. Tokens are not stored and cannot be
+ * listed again after creation.
+ */
+export function listShares(db: Database.Database, pageId: string): PageShare[] {
+  return db
+    .prepare(
+      `SELECT id, page_id, scope, created_at, expires_at, revoked_at
+       FROM page_shares
+       WHERE page_id = ?
+       ORDER BY created_at DESC`,
+    )
+    .all(pageId) as PageShare[];
+}
+
+/**
+ * Revoke a share of a page.
+ *
+ * @returns false if the share does not exist for the page or was
+ *   already revoked
+ */
+export function revokeShare(
+  db: Database.Database,
+  pageId: string,
+  shareId: string,
+  now: number = Date.now(),
+): boolean {
+  const result = db
+    .prepare(
+      `UPDATE page_shares SET revoked_at = ?
+       WHERE id = ? AND page_id = ? AND revoked_at IS NULL`,
+    )
+    .run(now, shareId, pageId);
+  return result.changes > 0;
+}
+
+/**
+ * Check a share token.
+ *
+ * @returns the access it grants, or null if the token is malformed,
+ *   forged, expired or revoked
+ */
+export function verifyShareToken(
+  db: Database.Database,
+  token: string,
+  now: number = Date.now(),
+): ShareGrant | null {
+  const parts = token.split('.');
+  if (parts.length !== 4) return null;
+  const [id, scope, expiresAt, signature] = parts;
+
+  const share = db
+    .prepare(
+      `SELECT id, page_id, scope, created_at, expires_at, revoked_at
+       FROM page_shares WHERE id = ?`,
+    )
+    .get(id) as PageShare | undefined;
+  if (
+    !share ||
+    share.scope !== scope ||
+    String(share.expires_at) !== expiresAt
+  ) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(getShareSecret(db), share));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  if (share.revoked_at !== null || share.expires_at <= now) return null;
+
+  return {
+    shareId: share.id,
+    pageId: share.page_id,
+    scope: share.scope,
+    expiresAt: share.expires_at,
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Point-in-time snapshots of page documents (version history).
+ *
+ * compactDocument merges every stored update into one row, so the
+ * update log alone cannot be used to look back in time. Each snapshot
+ * keeps the Y.snapshot (state vector + delete set) together with the
+ * full encoded document state at that moment. The full state is needed
+ * because the live documents run with gc enabled, so deleted content
+ * cannot be reconstructed from a Y.snapshot alone.
+ */
+
+import type Database from 'better-sqlite3';
+import * as Y from 'yjs';
+import { yDocToProsemirrorJSON } from 'y-prosemirror';
+import { extractTitleFromProsemirrorJSON } from './extract-title';
+
+export interface PageSnapshotListItem {
+  id: number;
+  title: string;
+  created_at: number;
+}
+
+export interface PageSnapshotRow extends PageSnapshotListItem {
+  doc_name: string;
+  snapshot: Buffer;
+  state: Buffer;
+}
+
+// Every snapshot is kept for a day, then the newest one per hour for a
+// week, then the newest one per day
+const ONE_HOUR_MS = 60 * 60 * 1000;
+const ONE_DAY_MS = 24 * ONE_HOUR_MS;
+const KEEP_ALL_MS = ONE_DAY_MS;
+const KEEP_HOURLY_MS = 7 * ONE_DAY_MS;
+
+function getLatestSnapshot(
+  db: Database.Database,
+  docName: string,
+): Y.Snapshot | null {
+  const row = db
+    .prepare(
+      'SELECT snapshot FROM page_snapshots WHERE doc_name = ? ORDER BY id DESC LIMIT 1',
+    )
+    .get(docName) as Pick<PageSnapshotRow, 'snapshot'> | undefined;
+  return row ? Y.decodeSnapshot(row.snapshot) : null;
+}
+
+/**
+ * Record a snapshot of the given document, then thin out the older
+ * snapshots of the page (see prunePageSnapshots).
+ * Skipped when nothing changed since the latest snapshot of the page:
+ * neither its state vector nor its deletions.
+ *
+ * @returns the id of the new snapshot, or null if it was skipped
+ */
+export function capturePageSnapshot(
+  db: Database.Database,
+  docName: string,
+  ydoc: Y.Doc,
+  now: number = Date.now(),
+): number | null {
+  const snapshot = Y.snapshot(ydoc);
+
+  const latest = getLatestSnapshot(db, docName);
+  if (latest && Y.equalSnapshots(latest, snapshot)) {
+    return null;
+  }
+
+  const title = extractTitleFromProsemirrorJSON(
+    yDocToProsemirrorJSON(ydoc, 'prosemirror'),
+  );
+
+  const result = db
+    .prepare(
+      `INSERT INTO page_snapshots (doc_name, title, created_at, snapshot, state)
+       VALUES (?, ?, ?, ?, ?)`,
+    )
+    .run(
+      docName,
+      title,
+      now,
+      Buffer.from(Y.encodeSnapshot(snapshot)),
+      Buffer.from(Y.encodeStateAsUpdate(ydoc)),
+    );
+  prunePageSnapshots(db, docName, now);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Delete the snapshots of a page that the retention policy drops: all
+ * snapshots of the last day are kept, older ones only as the newest of
+ * their hour (up to a week old) or of their day.
+ *
+ * @returns the number of deleted snapshots
+ */
+export function prunePageSnapshots(
+  db: Database.Database,
+  docName: string,
+  now: number = Date.now(),
+): number {
+  const rows = db
+    .prepare(
+      `SELECT id, created_at
+       FROM page_snapshots
+       WHERE doc_name = ? AND created_at < ?
+       ORDER BY created_at DESC, id DESC`,
+    )
+    .all(docName, now - KEEP_ALL_MS) as Array<
+    Pick<PageSnapshotRow, 'id' | 'created_at'>
+  >;
+
+  const buckets = new Set<string>();
+  const deleteSnapshot = db.prepare('DELETE FROM page_snapshots WHERE id = ?');
+  return db.transaction(() => {
+    let deleted = 0;
+    for (const row of rows) {
+      const bucket =
+        row.created_at >= now - KEEP_HOURLY_MS
+          ? `h${Math.floor(row.created_at / ONE_HOUR_MS)}`
+          : `d${Math.floor(row.created_at / ONE_DAY_MS)}`;
+      if (buckets.has(bucket)) {
+        deleteSnapshot.run(row.id);
+        deleted++;
+      } else {
+        buckets.add(bucket);
+      }
+    }
+    return deleted;
+  })();
+}
+
+/**
+ * List snapshots of a page, newest first.
+ */
+export function listPageSnapshots(
+  db: Database.Database,
+  docName: string,
+): PageSnapshotListItem[] {
+  return db
+    .prepare(
+      `SELECT id, title, created_at
+       FROM page_snapshots
+       WHERE doc_name = ?
+       ORDER BY created_at DESC, id DESC`,
+    )
+    .all(docName) as PageSnapshotListItem[];
+}
+
+/**
+ * Fetch a single snapshot of a page, including its encoded state.
+ */
+export function getPageSnapshot(
+  db: Database.Database,
+  docName: string,
+  snapshotId: number,
+): PageSnapshotRow | undefined {
+  return db
+    .prepare('SELECT * FROM page_snapshots WHERE doc_name = ? AND id = ?')
+    .get(docName, snapshotId) as PageSnapshotRow | undefined;
+}
+
+/**
+ * Rebuild the document stored in a snapshot as ProseMirror JSON.
+ */
+export function renderSnapshotContent(
+  row: PageSnapshotRow,
+): Record<string, unknown> {
+  const doc = new Y.Doc();
+  try {
+    Y.applyUpdate(doc, row.state);
+    return yDocToProsemirrorJSON(doc, 'prosemirror');
+  } finally {
+    doc.destroy();
+  }
+}
+
+/**
+ * Build a Yjs update that brings currentDoc back to the content of a
+ * snapshot without rewriting history.
+ *
+ * The changes made since the snapshot are replayed onto a copy of the
+ * snapshot state and undone there; the resulting update only contains
+ * new operations (re-inserted content and deletions), so it can be
+ * applied to the live document and synced to connected clients like
+ * any other remote edit.
+ */
+export function createRestoreUpdate(
+  currentDoc: Y.Doc,
+  snapshotState: Uint8Array,
+): Uint8Array {
+  // gc must stay off so content deleted after the snapshot can be undone
+  const snapshotDoc = new Y.Doc({ gc: false });
+  try {
+    Y.applyUpdate(snapshotDoc, snapshotState);
+
+    const currentStateVector = Y.encodeStateVector(currentDoc);
+    const changesSinceSnapshot = Y.encodeStateAsUpdate(
+      currentDoc,
+      Y.encodeStateVector(snapshotDoc),
+    );
+
+    const origin = Symbol('restore');
+    const undoManager = new Y.UndoManager(
+      snapshotDoc.getXmlFragment('prosemirror'),
+      { trackedOrigins: new Set([origin]) },
+    );
+    Y.applyUpdate(snapshotDoc, changesSinceSnapshot, origin);
+    undoManager.undo();
+    undoManager.destroy();
+
+    return Y.encodeStateAsUpdate(snapshotDoc, currentStateVector);
+  } finally {
+    snapshotDoc.destroy();
+  }
+}
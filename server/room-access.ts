@@ -0,0 +1,199 @@
+/**
+ * Access control for collaboration rooms on the WebSocket server.
+ *
+ * A room is only opened for an existing page. Archived pages can still
+ * be loaded for the read-only preview, but document updates sent on
+ * such connections are dropped before they reach the shared Y.Doc.
+ *
+ * Share link holders connect to `s/<token>` instead of the page ID;
+ * the token decides which document they join and whether they may edit
+ * or only suggest changes.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Schema } from '@milkdown/prose/model';
+import type { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as decoding from 'lib0/decoding';
+import { yXmlFragmentToProseMirrorRootNode } from 'y-prosemirror';
+import { messageYjsSyncStep2, messageYjsUpdate } from 'y-protocols/sync';
+import { verifyShareToken } from './page-shares';
+import { withoutSuggestions } from './suggestion-marks';
+
+// Message type used by @y/websocket-server for the sync protocol
+const MESSAGE_SYNC = 0;
+// Room name prefix for connections made through a share link
+export const SHARED_ROOM_PREFIX = 's/';
+
+export type RoomAccess = 'read-write' | 'suggest-only' | 'read-only';
+
+export interface ResolvedRoom {
+  docName: string;
+  access: RoomAccess;
+  // Set for connections made through a share link
+  share: { id: string; expiresAt: number } | null;
+}
+
+/**
+ * Decide how a client may connect to a room.
+ *
+ * @returns null if no page exists for the room
+ */
+export function getRoomAccess(
+  db: Database.Database,
+  roomName: string,
+): RoomAccess | null {
+  const page = db
+    .prepare('SELECT archived_at FROM pages WHERE id = ?')
+    .get(roomName) as { archived_at: number | null } | undefined;
+  if (!page) return null;
+  return page.archived_at === null ? 'read-write' : 'read-only';
+}
+
+/**
+ * Map the room name of a connection to the document it opens.
+ *
+ * @returns null if the page does not exist or the share token is invalid
+ */
+export function resolveRoom(
+  db: Database.Database,
+  roomName: string,
+  now: number = Date.now(),
+): ResolvedRoom | null {
+  if (!roomName.startsWith(SHARED_ROOM_PREFIX)) {
+    const access = getRoomAccess(db, roomName);
+    return access && { docName: roomName, access, share: null };
+  }
+
+  const grant = verifyShareToken(
+    db,
+    roomName.slice(SHARED_ROOM_PREFIX.length),
+    now,
+  );
+  if (!grant) return null;
+  const access = getRoomAccess(db, grant.pageId);
+  if (!access) return null;
+
+  const shareAccess: Record<typeof grant.scope, RoomAccess> = {
+    read: 'read-only',
+    suggest: 'suggest-only',
+    write: 'read-write',
+  };
+  return {
+    docName: grant.pageId,
+    access: access === 'read-write' ? shareAccess[grant.scope] : access,
+    share: { id: grant.shareId, expiresAt: grant.expiresAt },
+  };
+}
+
+/**
+ * Whether a y-websocket message carries document changes.
+ * Sync step 1 (a request for the server state) and awareness messages
+ * do not modify the document.
+ */
+export function isDocumentUpdateMessage(message: Uint8Array): boolean {
+  try {
+    const decoder = decoding.createDecoder(message);
+    if (decoding.readVarUint(decoder) !== MESSAGE_SYNC) return false;
+    const syncType = decoding.readVarUint(decoder);
+    return syncType === messageYjsSyncStep2 || syncType === messageYjsUpdate;
+  } catch {
+    // Unreadable messages are treated as updates so they are never applied
+    return true;
+  }
+}
+
+/**
+ * The Yjs update carried by a document update message, or null if it
+ * cannot be read.
+ */
+function readDocumentUpdate(message: Uint8Array): Uint8Array | null {
+  try {
+    const decoder = decoding.createDecoder(message);
+    decoding.readVarUint(decoder);
+    decoding.readVarUint(decoder);
+    return decoding.readVarUint8Array(decoder);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Filter the document updates a connection sends through the message
+ * listeners that setupWSConnection registers afterwards. Other messages
+ * are passed on; the client still receives the document and every
+ * later update.
+ *
+ * @param accept - whether to apply a document update message
+ */
+function filterDocumentUpdates(
+  conn: WebSocket,
+  accept: (message: Uint8Array) => boolean,
+): void {
+  const on = conn.on.bind(conn);
+  conn.on = ((event: string, listener: (...args: unknown[]) => void) => {
+    if (event !== 'message') return on(event, listener);
+    return on('message', (data: ArrayBuffer, ...rest: unknown[]) => {
+      const message = new Uint8Array(data);
+      if (isDocumentUpdateMessage(message) && !accept(message)) return;
+      listener(data, ...rest);
+    });
+  }) as WebSocket['on'];
+}
+
+/**
+ * Make a connection read-only by dropping every document update.
+ */
+export function dropDocumentUpdates(conn: WebSocket): void {
+  filterDocumentUpdates(conn, () => false);
+}
+
+/**
+ * Whether applying update to doc only adds or withdraws suggestions:
+ * the document must read the same with pending suggestions left out.
+ */
+export function isSuggestionUpdate(
+  doc: Y.Doc,
+  update: Uint8Array,
+  schema: Schema,
+): boolean {
+  const copy = new Y.Doc();
+  try {
+    Y.applyUpdate(copy, Y.encodeStateAsUpdate(doc));
+    const read = () =>
+      withoutSuggestions(
+        yXmlFragmentToProseMirrorRootNode(
+          copy.getXmlFragment('prosemirror'),
+          schema,
+        ),
+      );
+    const before = read();
+    Y.applyUpdate(copy, update);
+    // Parts held back for missing changes would be applied unchecked
+    // once those arrive
+    if (copy.store.pendingStructs || copy.store.pendingDs) return false;
+    return read().eq(before);
+  } catch {
+    return false;
+  } finally {
+    copy.destroy();
+  }
+}
+
+/**
+ * Limit a connection to suggesting changes: document updates that would
+ * change the text other than through suggestions are dropped.
+ *
+ * @param getDoc - the room's document, once the connection has joined it
+ */
+export function keepSuggestionsOnly(
+  conn: WebSocket,
+  getDoc: () => Y.Doc | undefined,
+  schema: Schema,
+): void {
+  filterDocumentUpdates(conn, (message) => {
+    const doc = getDoc();
+    const update = readDocumentUpdate(message);
+    return !!doc && !!update && isSuggestionUpdate(doc, update, schema);
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Marks for suggested changes (suggestion mode).
+ *
+ * A suggested insertion is text marked `suggestion_insert`; a suggested
+ * deletion is text that stays in the document marked `suggestion_delete`
+ * until the suggestion is accepted. Both are stored in the Y.Doc like any
+ * other mark, so every schema that reads page documents must include
+ * them: y-prosemirror deletes text whose marks the schema does not know.
+ *
+ * Shared by the editor (via lib/milkdown-suggestions.ts) and the
+ * server-side Markdown conversion.
+ */
+
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import { Fragment, type Mark, type Node } from '@milkdown/prose/model';
+import { $markSchema } from '@milkdown/utils';
+
+export const SUGGESTION_INSERT = 'suggestion_insert';
+export const SUGGESTION_DELETE = 'suggestion_delete';
+
+export type SuggestionKind = 'insert' | 'delete';
+
+function suggestionMarkSchema(name: string, kind: SuggestionKind) {
+  return $markSchema(name, () => ({
+    attrs: {
+      id: { default: '' },
+      author: { default: '' },
+      createdAt: { default: 0 },
+    },
+    inclusive: false,
+    // Suggestions are only created by suggestion mode, never by pasting
+    parseDOM: [],
+    toDOM: (mark: Mark) => [
+      kind === 'insert' ? 'ins' : 'del',
+      {
+        class: `suggestion suggestion-${kind}`,
+        'data-suggestion-id': mark.attrs.id,
+        title: `${mark.attrs.author}の提案（${kind === 'insert' ? '追加' : '削除'}）`,
+      },
+    ],
+    parseMarkdown: {
+      match: () => false,
+      runner: () => {},
+    },
+    // Documents are serialized without pending suggestions
+    // (see withoutSuggestions), so this never writes anything
+    toMarkdown: {
+      match: (mark: Mark) => mark.type.name === name,
+      runner: () => {},
+    },
+  }));
+}
+
+export const suggestionMarks: MilkdownPlugin[] = [
+  suggestionMarkSchema(SUGGESTION_INSERT, 'insert'),
+  suggestionMarkSchema(SUGGESTION_DELETE, 'delete'),
+].flat();
+
+function stripFragment(fragment: Fragment): Fragment {
+  // append() joins adjacent text nodes whose marks became equal
+  let result = Fragment.empty;
+  fragment.forEach((node) => {
+    if (node.marks.some((mark) => mark.type.name === SUGGESTION_INSERT)) {
+      return;
+    }
+    const marks = node.marks.filter(
+      (mark) => mark.type.name !== SUGGESTION_DELETE,
+    );
+    const stripped = node.isText
+      ? node.mark(marks)
+      : node.copy(stripFragment(node.content)).mark(marks);
+    result = result.append(Fragment.from(stripped));
+  });
+  return result;
+}
+
+/**
+ * The document as it reads before any pending suggestion is accepted:
+ * suggested insertions are left out and suggested deletions kept.
+ */
+export function withoutSuggestions(node: Node): Node {
+  return node.copy(stripFragment(node.content));
+}
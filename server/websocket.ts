@@ -3,21 +3,57 @@
 /**
  * WebSocket server for Yjs collaborative editing
  * Uses the official @y/websocket-server implementation
- * with SQLite-backed Yjs persistence and debounced title sync.
+ * with SQLite-backed Yjs persistence, debounced title and search
+ * index sync and periodic version snapshots.
  */
 
-import { WebSocketServer } from 'ws';
+import { WebSocketServer, type WebSocket } from 'ws';
 import http from 'http';
 import * as Y from 'yjs';
+import type { Schema } from '@milkdown/prose/model';
 
 // Import y-websocket server utilities
 import {
+  docs,
   setupWSConnection,
   setPersistence,
   type WSSharedDoc,
 } from '@y/websocket-server/utils';
+import {
+  getAuthMode,
+  getSessionTokenFromCookieHeader,
+  getSessionUser,
+  type User,
+} from './auth';
 import { startPeriodicCleanup } from './cleanup-archives';
 import { openDatabase } from './db-config';
+import { deletePageIfEmpty } from './empty-page';
+import { isInternalRequest } from './internal-api';
+import { runMigrations } from './migrations';
+import { getPageSchema } from './markdown';
+import {
+  dropDocumentUpdates,
+  keepSuggestionsOnly,
+  resolveRoom,
+  SHARED_ROOM_PREFIX,
+  type ResolvedRoom,
+} from './room-access';
+import {
+  capturePageSnapshot,
+  createRestoreUpdate,
+  getPageSnapshot,
+} from './page-snapshots';
+import {
+  backfillPageLinks,
+  extractLinkedPageIds,
+  updatePageLinks,
+} from './page-links';
+import {
+  backfillSearchIndex,
+  extractPlainTextFromProsemirrorJSON,
+  extractPlainTextFromYDoc,
+  indexPageText,
+} from './page-search';
 import { YjsSqlitePersistence } from './yjs-sqlite-persistence';
 import { yDocToProsemirrorJSON } from 'y-prosemirror';
 import { createDebouncer } from 'lib0/eventloop';
@@ -28,65 +64,84 @@ import { extractTitleFromProsemirrorJSON } from './extract-title';
 const PORT = process.env.NEXT_PUBLIC_WS_PORT || 1234;
 const TITLE_SYNC_DEBOUNCE_MS = 3000;
 const TITLE_SYNC_MAX_WAIT_MS = 10000;
+// Open rooms are snapshotted at this interval in addition to on close;
+// unchanged rooms are skipped and old snapshots thinned out
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+// Internal HTTP endpoints used by the Next.js restore and share API routes
+const RESTORE_PATH = /^\/pages\/([^/]+)\/versions\/(\d+)\/restore$/;
+const REVOKE_SHARE_PATH = /^\/shares\/([^/]+)\/revoke$/;
+// Close code sent to share link connections when the link stops being valid
+const SHARE_CLOSE_CODE = 4403;
 // Yjs encodes an empty document as 2 bytes: [0, 0]
 const EMPTY_YJS_STATE_SIZE = 2;
 
 // Open a persistent DB connection for the WebSocket server process
 const db = openDatabase();
 
-// Minimal schema duplicated from lib/db.ts because this process starts
-// independently and may run before Next.js initializes its own DB connection.
-db.exec(`
-  CREATE TABLE IF NOT EXISTS pages (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL DEFAULT 'Untitled',
-    created_at INTEGER NOT NULL,
-    updated_at INTEGER NOT NULL,
-    archived_at INTEGER
-  );
-`);
+// Both processes apply the same migrations; whichever starts first wins
+runMigrations(db);
 
-const persistence = new YjsSqlitePersistence(db);
+// Read once at startup so a misconfigured AUTH_MODE fails immediately
+const AUTH_MODE = getAuthMode();
 
-// Per-document debouncer map for title sync
-type DebounceFn = (cb: (() => void) | null) => void;
-const titleDebouncers = new Map<string, DebounceFn>();
-
-// Strict local types for isDocEmpty/hasText traversal.
-// extract-title.ts intentionally uses Record<string, unknown> to accept
-// untyped output from yDocToProsemirrorJSON without casts at call sites.
-interface ProseMirrorNode {
-  type: string;
-  text?: string;
-  content?: ProseMirrorNode[];
-}
+const persistence = new YjsSqlitePersistence(db);
 
-interface ProseMirrorJSON {
-  content?: ProseMirrorNode[];
+// Index pages that were never opened since search was introduced
+try {
+  const indexed = backfillSearchIndex(db, (docName) => {
+    const ydoc = persistence.getYDoc(docName);
+    try {
+      return extractPlainTextFromYDoc(ydoc);
+    } finally {
+      ydoc.destroy();
+    }
+  });
+  if (indexed > 0) {
+    console.log(`[persistence] Indexed ${indexed} page(s) for search`);
+  }
+} catch (error) {
+  console.error('[persistence] Failed to backfill search index:', error);
 }
 
-function hasText(nodes: ProseMirrorNode[]): boolean {
-  for (const node of nodes) {
-    if (node.type === 'text' && typeof node.text === 'string') {
-      if (node.text.trim().length > 0) return true;
+// Record links of pages stored before backlinks existed
+try {
+  const scanned = backfillPageLinks(db, (pageId) => {
+    const ydoc = persistence.getYDoc(pageId);
+    try {
+      return yDocToProsemirrorJSON(ydoc, 'prosemirror');
+    } finally {
+      ydoc.destroy();
     }
-    if (node.content && hasText(node.content)) return true;
+  });
+  if (scanned > 0) {
+    console.log(`[persistence] Recorded links of ${scanned} page(s)`);
   }
-  return false;
+} catch (error) {
+  console.error('[persistence] Failed to backfill page links:', error);
 }
 
-function isDocEmpty(json: ProseMirrorJSON): boolean {
-  const content = json?.content;
-  if (!content || content.length === 0) return true;
+// Per-document debouncer map for title sync
+type DebounceFn = (cb: (() => void) | null) => void;
+const titleDebouncers = new Map<string, DebounceFn>();
 
-  for (const node of content) {
-    if (node.content && hasText(node.content)) return false;
+/**
+ * Record a version snapshot of the document.
+ * Failures are logged; a missed snapshot must not block persistence.
+ */
+function snapshotDoc(docName: string, ydoc: Y.Doc): void {
+  try {
+    const id = capturePageSnapshot(db, docName, ydoc);
+    if (id !== null) {
+      console.log(`[persistence] Captured snapshot ${id} for ${docName}`);
+    }
+  } catch (error) {
+    console.error(`[persistence] Failed to snapshot ${docName}:`, error);
   }
-  return true;
 }
 
 /**
- * Sync title and updated_at to pages table.
+ * Sync title and updated_at to pages table, and the page text and links
+ * to the search index and page_links.
  */
 function syncTitleToDb(docName: string, ydoc: Y.Doc): void {
   try {
@@ -94,16 +149,82 @@ function syncTitleToDb(docName: string, ydoc: Y.Doc): void {
     const title = extractTitleFromProsemirrorJSON(json);
     const now = Date.now();
 
-    db.prepare('UPDATE pages SET title = ?, updated_at = ? WHERE id = ?').run(
-      title,
-      now,
-      docName,
-    );
+    const result = db
+      .prepare('UPDATE pages SET title = ?, updated_at = ? WHERE id = ?')
+      .run(title, now, docName);
+    // Rooms without a pages row (e.g. deleted pages) are not indexed
+    if (result.changes > 0) {
+      indexPageText(db, docName, extractPlainTextFromProsemirrorJSON(json));
+      updatePageLinks(db, docName, extractLinkedPageIds(json));
+    }
   } catch (error) {
     console.error(`[persistence] Failed to sync title for ${docName}:`, error);
   }
 }
 
+/**
+ * Restore a page to the content of a stored snapshot.
+ * Open rooms receive the rollback as a regular update, so connected
+ * clients see it like any other remote edit; for closed rooms the
+ * update is appended to yjs_updates.
+ *
+ * @returns false if the snapshot does not exist
+ */
+function restoreSnapshot(docName: string, snapshotId: number): boolean {
+  const row = getPageSnapshot(db, docName, snapshotId);
+  if (!row) return false;
+
+  const liveDoc = docs.get(docName);
+  const ydoc = liveDoc ?? persistence.getYDoc(docName);
+  try {
+    // Keep the state being rolled back restorable
+    capturePageSnapshot(db, docName, ydoc);
+
+    const update = createRestoreUpdate(ydoc, row.state);
+    if (!liveDoc) {
+      persistence.storeUpdate(docName, update);
+    }
+    // Live rooms persist and broadcast it through their 'update' handlers
+    Y.applyUpdate(ydoc, update);
+
+    syncTitleToDb(docName, ydoc);
+    capturePageSnapshot(db, docName, ydoc);
+  } finally {
+    if (!liveDoc) ydoc.destroy();
+  }
+
+  console.log(`[persistence] Restored ${docName} to snapshot ${snapshotId}`);
+  return true;
+}
+
+// Open connections made through each share link, closed on revocation
+const shareConnections = new Map<string, Set<WebSocket>>();
+
+function trackShareConnection(shareId: string, conn: WebSocket): void {
+  const conns = shareConnections.get(shareId) ?? new Set<WebSocket>();
+  conns.add(conn);
+  shareConnections.set(shareId, conns);
+}
+
+function untrackShareConnection(shareId: string, conn: WebSocket): void {
+  const conns = shareConnections.get(shareId);
+  if (!conns) return;
+  conns.delete(conn);
+  if (conns.size === 0) shareConnections.delete(shareId);
+}
+
+/**
+ * Disconnect every client connected through a share link.
+ *
+ * @returns the number of closed connections
+ */
+function closeShareConnections(shareId: string): number {
+  const conns = shareConnections.get(shareId);
+  if (!conns) return 0;
+  conns.forEach((conn) => conn.close(SHARE_CLOSE_CODE, 'Share link revoked'));
+  return conns.size;
+}
+
 // Configure Yjs persistence
 setPersistence({
   provider: null,
@@ -148,14 +269,7 @@ setPersistence({
 
     // 2. Check if the document is empty; if so, delete the page
     try {
-      const json = yDocToProsemirrorJSON(ydoc, 'prosemirror');
-      const title = extractTitleFromProsemirrorJSON(json);
-      if (title === 'Untitled' && isDocEmpty(json)) {
-        const deleteTransaction = db.transaction(() => {
-          db.prepare('DELETE FROM yjs_updates WHERE doc_name = ?').run(docName);
-          db.prepare('DELETE FROM pages WHERE id = ?').run(docName);
-        });
-        deleteTransaction();
+      if (await deletePageIfEmpty(db, docName, ydoc)) {
         console.log(`[persistence] Deleted empty page: ${docName}`);
         return;
       }
@@ -169,7 +283,10 @@ setPersistence({
     // 3. Final title sync (immediate)
     syncTitleToDb(docName, ydoc);
 
-    // 4. Compact stored updates
+    // 4. Keep a restorable point before the update log is merged
+    snapshotDoc(docName, ydoc);
+
+    // 5. Compact stored updates
     try {
       persistence.compactDocument(docName);
     } catch (error) {
@@ -183,40 +300,186 @@ setPersistence({
   },
 });
 
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown,
+): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
 const server = http.createServer((request, response) => {
+  const { pathname } = new URL(request.url || '/', 'http://localhost');
+  const restoreMatch = RESTORE_PATH.exec(pathname);
+  const revokeShareMatch = REVOKE_SHARE_PATH.exec(pathname);
+
+  if (restoreMatch && request.method === 'POST') {
+    // Only the Next.js app may trigger restores
+    if (!isInternalRequest(db, request.headers)) {
+      sendJson(response, 403, { error: 'Forbidden' });
+      return;
+    }
+    try {
+      const docName = decodeURIComponent(restoreMatch[1]);
+      if (!restoreSnapshot(docName, Number(restoreMatch[2]))) {
+        sendJson(response, 404, { error: 'Version not found' });
+        return;
+      }
+      sendJson(response, 200, { success: true });
+    } catch (error) {
+      console.error('[persistence] Failed to restore snapshot:', error);
+      sendJson(response, 500, { error: 'Failed to restore version' });
+    }
+    return;
+  }
+
+  if (revokeShareMatch && request.method === 'POST') {
+    if (!isInternalRequest(db, request.headers)) {
+      sendJson(response, 403, { error: 'Forbidden' });
+      return;
+    }
+    const shareId = decodeURIComponent(revokeShareMatch[1]);
+    const closed = closeShareConnections(shareId);
+    console.log(`Closed ${closed} connection(s) of revoked share ${shareId}`);
+    sendJson(response, 200, { success: true, closed });
+    return;
+  }
+
   response.writeHead(200, { 'Content-Type': 'text/plain' });
   response.end('WebSocket server for Yjs\n');
 });
 
-const wss = new WebSocketServer({ server });
+// Upgrades are handled manually so rooms can be checked before connecting
+const wss = new WebSocketServer({ noServer: true });
 
-console.log(`✓ WebSocket server running on ws://localhost:${PORT}`);
+console.log(
+  `✓ WebSocket server running on ws://localhost:${PORT} (auth: ${AUTH_MODE})`,
+);
 
-wss.on('connection', (conn, req) => {
-  const roomName =
-    new URL(req.url || '/', 'http://localhost').pathname.slice(1) || 'default';
-  console.log(`Client connected to room: ${roomName}`);
+server.on('upgrade', async (request, socket, head) => {
+  const roomName = new URL(
+    request.url || '/',
+    'http://localhost',
+  ).pathname.slice(1);
+  // Share tokens are credentials and must not end up in the logs
+  const roomLabel = roomName.startsWith(SHARED_ROOM_PREFIX)
+    ? 'share link'
+    : roomName;
 
-  setupWSConnection(conn, req, {
-    // Add custom logging
-    docName: roomName,
-    gc: true, // Enable garbage collection
-  });
+  let room: ResolvedRoom | null;
+  try {
+    room = resolveRoom(db, roomName);
+  } catch (error) {
+    console.error(`Failed to check access to room ${roomLabel}:`, error);
+    room = null;
+  }
+  if (!room) {
+    console.log(`Rejected connection to unknown room: ${roomLabel}`);
+    socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+    return;
+  }
+
+  // Share links carry their own credentials; everything else needs a
+  // session when accounts are enabled
+  let user: User | null = null;
+  if (AUTH_MODE === 'local' && !room.share) {
+    const token = getSessionTokenFromCookieHeader(request.headers.cookie);
+    try {
+      user = token ? getSessionUser(db, token) : null;
+    } catch (error) {
+      console.error('Failed to check session:', error);
+    }
+    if (!user) {
+      console.log(`Rejected unauthenticated connection to room: ${roomLabel}`);
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return;
+    }
+  }
+
+  // Updates of suggest-only connections are checked against the schema
+  let schema: Schema | null = null;
+  if (room.access === 'suggest-only') {
+    try {
+      schema = await getPageSchema();
+    } catch (error) {
+      console.error('Failed to load the page schema:', error);
+      socket.end(
+        'HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n',
+      );
+      return;
+    }
+  }
 
-  conn.on('close', () => {
-    console.log(`Client disconnected from room: ${roomName}`);
+  wss.handleUpgrade(request, socket, head, (conn) => {
+    wss.emit('connection', conn, request, room, user, schema);
   });
 });
 
+wss.on(
+  'connection',
+  (
+    conn: WebSocket,
+    req: http.IncomingMessage,
+    room: ResolvedRoom,
+    user: User | null,
+    schema: Schema | null,
+  ) => {
+    const { docName, access, share } = room;
+    const via = share
+      ? `, share ${share.id}`
+      : user
+        ? `, user ${user.username}`
+        : '';
+    console.log(`Client connected to room: ${docName} (${access}${via})`);
+
+    // Must run before setupWSConnection registers its message listener
+    if (access === 'suggest-only' && schema) {
+      keepSuggestionsOnly(conn, () => docs.get(docName), schema);
+    } else if (access !== 'read-write') {
+      dropDocumentUpdates(conn);
+    }
+
+    setupWSConnection(conn, req, {
+      // Share link connections join the page's document, not the token
+      docName,
+      gc: true, // Enable garbage collection
+    });
+
+    let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+    if (share) {
+      trackShareConnection(share.id, conn);
+      expiryTimer = setTimeout(
+        () => conn.close(SHARE_CLOSE_CODE, 'Share link expired'),
+        share.expiresAt - Date.now(),
+      );
+    }
+
+    conn.on('close', () => {
+      if (share) {
+        untrackShareConnection(share.id, conn);
+        if (expiryTimer) clearTimeout(expiryTimer);
+      }
+      console.log(`Client disconnected from room: ${docName}`);
+    });
+  },
+);
+
 server.listen(PORT);
 
 // Start periodic cleanup of old archived pages
 const cleanupInterval = startPeriodicCleanup(openDatabase);
 
+// Periodically snapshot rooms that stay open for a long time
+const snapshotInterval = setInterval(() => {
+  docs.forEach((ydoc, docName) => snapshotDoc(docName, ydoc));
+}, SNAPSHOT_INTERVAL_MS);
+
 // Graceful shutdown
 const shutdown = () => {
   console.log('Shutting down WebSocket server...');
   clearInterval(cleanupInterval);
+  clearInterval(snapshotInterval);
   wss.clients.forEach((client) => {
     client.close();
   });
@@ -0,0 +1,369 @@
+/**
+ * Whole-workspace export and import as a zip archive.
+ *
+ * An archive holds one `<id>.md` file per page, the page's attachments
+ * as `attachments/<attachment id>` and a manifest.json with the page
+ * metadata. The raw Yjs state of each page can be included as
+ * `yjs/<id>.bin`; when present it is imported instead of the Markdown,
+ * so formatting the Markdown serializer cannot express is kept.
+ * Version history (page_snapshots) is not part of the archive.
+ */
+
+import type Database from 'better-sqlite3';
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import * as Y from 'yjs';
+import { yDocToProsemirrorJSON } from 'y-prosemirror';
+import { isGeneratedId } from '../lib/id';
+import {
+  createAttachmentId,
+  insertAttachment,
+  isAttachmentId,
+  isAttachmentType,
+  listAttachments,
+  MAX_ATTACHMENT_BYTES,
+  rewriteAttachmentUrls,
+  type AttachmentWithData,
+} from './attachments';
+import { markdownToYDoc, yDocToMarkdown } from './markdown';
+import {
+  extractLinkedPageIds,
+  rewritePageLinks,
+  updatePageLinks,
+} from './page-links';
+import {
+  extractPlainTextFromProsemirrorJSON,
+  indexPageText,
+} from './page-search';
+import { YjsSqlitePersistence } from './yjs-sqlite-persistence';
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_VERSION = 1;
+
+export interface WorkspaceManifestAttachment {
+  id: string;
+  content_type: string;
+  created_at: number;
+  file: string;
+}
+
+export interface WorkspaceManifestPage {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  archived_at: number | null;
+  markdown: string;
+  yjs_state?: string;
+  // Missing in archives exported before attachments were included
+  attachments?: WorkspaceManifestAttachment[];
+}
+
+export interface WorkspaceManifest {
+  version: number;
+  exported_at: number;
+  pages: WorkspaceManifestPage[];
+}
+
+export interface ImportedPage {
+  id: string;
+  original_id: string;
+  title: string;
+}
+
+/**
+ * Thrown when an uploaded archive is not a valid workspace export.
+ */
+export class InvalidWorkspaceArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWorkspaceArchiveError';
+  }
+}
+
+/**
+ * Build a zip archive of every page in the database.
+ */
+export async function exportWorkspace(
+  db: Database.Database,
+  { includeYjsState = false }: { includeYjsState?: boolean } = {},
+  now: number = Date.now(),
+): Promise<Uint8Array> {
+  const persistence = new YjsSqlitePersistence(db);
+  const pages = db
+    .prepare(
+      `SELECT id, title, created_at, updated_at, archived_at
+       FROM pages
+       ORDER BY created_at ASC`,
+    )
+    .all() as Array<
+    Omit<WorkspaceManifestPage, 'markdown' | 'yjs_state' | 'attachments'>
+  >;
+
+  const files: Zippable = {};
+  const manifest: WorkspaceManifest = {
+    version: MANIFEST_VERSION,
+    exported_at: now,
+    pages: [],
+  };
+
+  for (const page of pages) {
+    const ydoc = persistence.getYDoc(page.id);
+    try {
+      const entry: WorkspaceManifestPage = {
+        ...page,
+        markdown: `${page.id}.md`,
+        attachments: [],
+      };
+      files[entry.markdown] = strToU8(await yDocToMarkdown(ydoc));
+      if (includeYjsState) {
+        entry.yjs_state = `yjs/${page.id}.bin`;
+        files[entry.yjs_state] = Y.encodeStateAsUpdate(ydoc);
+      }
+      for (const attachment of listAttachments(db, page.id)) {
+        const file = `attachments/${attachment.id}`;
+        files[file] = new Uint8Array(attachment.data);
+        entry.attachments?.push({
+          id: attachment.id,
+          content_type: attachment.content_type,
+          created_at: attachment.created_at,
+          file,
+        });
+      }
+      manifest.pages.push(entry);
+    } finally {
+      ydoc.destroy();
+    }
+  }
+
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+  return zipSync(files);
+}
+
+function isManifestAttachment(
+  value: unknown,
+): value is WorkspaceManifestAttachment {
+  if (typeof value !== 'object' || value === null) return false;
+  const attachment = value as Record<string, unknown>;
+  return (
+    typeof attachment.id === 'string' &&
+    typeof attachment.content_type === 'string' &&
+    typeof attachment.created_at === 'number' &&
+    typeof attachment.file === 'string'
+  );
+}
+
+function isManifestPage(value: unknown): value is WorkspaceManifestPage {
+  if (typeof value !== 'object' || value === null) return false;
+  const page = value as Record<string, unknown>;
+  return (
+    typeof page.id === 'string' &&
+    typeof page.title === 'string' &&
+    typeof page.created_at === 'number' &&
+    typeof page.updated_at === 'number' &&
+    (page.archived_at === null || typeof page.archived_at === 'number') &&
+    typeof page.markdown === 'string' &&
+    (page.yjs_state === undefined || typeof page.yjs_state === 'string') &&
+    (page.attachments === undefined ||
+      (Array.isArray(page.attachments) &&
+        page.attachments.every(isManifestAttachment)))
+  );
+}
+
+function readManifest(files: Record<string, Uint8Array>): WorkspaceManifest {
+  const raw = files[MANIFEST_FILE];
+  if (!raw) {
+    throw new InvalidWorkspaceArchiveError(`${MANIFEST_FILE} is missing`);
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(strFromU8(raw));
+  } catch {
+    throw new InvalidWorkspaceArchiveError(`${MANIFEST_FILE} is not JSON`);
+  }
+
+  const { version, pages } = manifest as Partial<WorkspaceManifest>;
+  if (version !== MANIFEST_VERSION) {
+    throw new InvalidWorkspaceArchiveError(
+      `Unsupported manifest version: ${String(version)}`,
+    );
+  }
+  if (!Array.isArray(pages) || !pages.every(isManifestPage)) {
+    throw new InvalidWorkspaceArchiveError(`${MANIFEST_FILE} is malformed`);
+  }
+  return manifest as WorkspaceManifest;
+}
+
+async function loadPageDoc(
+  files: Record<string, Uint8Array>,
+  page: WorkspaceManifestPage,
+): Promise<Y.Doc> {
+  const state = page.yjs_state ? files[page.yjs_state] : undefined;
+  if (state) {
+    const ydoc = new Y.Doc();
+    Y.applyUpdate(ydoc, state);
+    return ydoc;
+  }
+
+  const markdown = files[page.markdown];
+  if (!markdown) {
+    throw new InvalidWorkspaceArchiveError(`${page.markdown} is missing`);
+  }
+  return markdownToYDoc(strFromU8(markdown));
+}
+
+function loadAttachments(
+  files: Record<string, Uint8Array>,
+  page: WorkspaceManifestPage,
+): Array<Omit<AttachmentWithData, 'page_id'>> {
+  return (page.attachments ?? []).map((attachment) => {
+    const data = files[attachment.file];
+    if (!data) {
+      throw new InvalidWorkspaceArchiveError(`${attachment.file} is missing`);
+    }
+    if (!isAttachmentType(attachment.content_type)) {
+      throw new InvalidWorkspaceArchiveError(
+        `${attachment.file} has an unsupported type: ${attachment.content_type}`,
+      );
+    }
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      throw new InvalidWorkspaceArchiveError(`${attachment.file} is too large`);
+    }
+    return {
+      id: attachment.id,
+      content_type: attachment.content_type,
+      size: data.length,
+      data: Buffer.from(data),
+      created_at: attachment.created_at,
+    };
+  });
+}
+
+/**
+ * Recreate the pages of a workspace archive.
+ * Page IDs are kept unless a page with the same ID already exists or
+ * the ID is not one the app could have generated, in which case the
+ * page is imported under a new ID and links to it from the other
+ * imported pages follow it. Attachments are imported the same way, under
+ * a new ID if theirs is taken, with the images pointing at them
+ * following. Nothing is written unless the whole archive can be read.
+ *
+ * @param createId - generates an ID for pages whose ID is taken or invalid
+ */
+export async function importWorkspace(
+  db: Database.Database,
+  archive: Uint8Array,
+  createId: () => string,
+): Promise<ImportedPage[]> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(archive);
+  } catch {
+    throw new InvalidWorkspaceArchiveError('Not a zip archive');
+  }
+  const manifest = readManifest(files);
+
+  const docs: Array<{
+    page: WorkspaceManifestPage;
+    ydoc: Y.Doc;
+    attachments: Array<Omit<AttachmentWithData, 'page_id'>>;
+  }> = [];
+  try {
+    for (const page of manifest.pages) {
+      docs.push({
+        page,
+        ydoc: await loadPageDoc(files, page),
+        attachments: loadAttachments(files, page),
+      });
+    }
+
+    const persistence = new YjsSqlitePersistence(db);
+    const exists = db.prepare('SELECT 1 FROM pages WHERE id = ?');
+    const attachmentExists = db.prepare(
+      'SELECT 1 FROM attachments WHERE id = ?',
+    );
+    const insertPage = db.prepare(
+      `INSERT INTO pages (id, title, created_at, updated_at, archived_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    );
+
+    const run = db.transaction(() => {
+      // IDs are assigned first so links can be rewritten before storing
+      const taken = new Set<string>();
+      const ids = docs.map(({ page }) => {
+        // Other IDs could break routing, e.g. `s/…` is a share room
+        let id = isGeneratedId(page.id) ? page.id : createId();
+        while (taken.has(id) || exists.get(id)) id = createId();
+        taken.add(id);
+        return id;
+      });
+      const remapped = new Map<string, string>();
+      docs.forEach(({ page }, i) => {
+        if (!ids.includes(page.id) && !remapped.has(page.id)) {
+          remapped.set(page.id, ids[i]);
+        }
+      });
+
+      const takenAttachments = new Set<string>();
+      const attachmentIds = docs.map(({ attachments }) =>
+        attachments.map((attachment) => {
+          let id = isAttachmentId(attachment.id)
+            ? attachment.id
+            : createAttachmentId();
+          while (takenAttachments.has(id) || attachmentExists.get(id)) {
+            id = createAttachmentId();
+          }
+          takenAttachments.add(id);
+          return id;
+        }),
+      );
+      const remappedAttachments = new Map<string, string>();
+      docs.forEach(({ attachments }, i) =>
+        attachments.forEach(({ id }, j) => {
+          if (!takenAttachments.has(id) && !remappedAttachments.has(id)) {
+            remappedAttachments.set(id, attachmentIds[i][j]);
+          }
+        }),
+      );
+
+      const imported = docs.map(({ page, ydoc, attachments }, i) => {
+        const id = ids[i];
+        rewritePageLinks(ydoc, remapped);
+        rewriteAttachmentUrls(ydoc, remappedAttachments);
+        insertPage.run(
+          id,
+          page.title,
+          page.created_at,
+          page.updated_at,
+          page.archived_at,
+        );
+        attachments.forEach((attachment, j) =>
+          insertAttachment(db, {
+            ...attachment,
+            id: attachmentIds[i][j],
+            page_id: id,
+          }),
+        );
+        persistence.storeUpdate(id, Y.encodeStateAsUpdate(ydoc));
+        const json = yDocToProsemirrorJSON(ydoc, 'prosemirror');
+        indexPageText(db, id, extractPlainTextFromProsemirrorJSON(json));
+        return { id, json };
+      });
+      // Links are recorded once every page exists, since only links to
+      // existing pages are kept
+      imported.forEach(({ id, json }) =>
+        updatePageLinks(db, id, extractLinkedPageIds(json)),
+      );
+      return imported.map(
+        ({ id }, i): ImportedPage => ({
+          id,
+          original_id: docs[i].page.id,
+          title: docs[i].page.title,
+        }),
+      );
+    });
+    return run();
+  } finally {
+    docs.forEach(({ ydoc }) => ydoc.destroy());
+  }
+}
@@ -4,6 +4,10 @@ import {
   isArchiveListItemArray,
   isCreatePageResponse,
   isArchivePageResponse,
+  isUploadAttachmentResponse,
+  isPageVersionListItemArray,
+  isBacklinkItemArray,
+  isSessionInfo,
 } from '@/lib/api';
 
 describe('isPageListItemArray', () => {
@@ -119,6 +123,24 @@ describe('isCreatePageResponse', () => {
   });
 });
 
+describe('isUploadAttachmentResponse', () => {
+  it('accepts a valid response', () => {
+    expect(
+      isUploadAttachmentResponse({
+        success: true,
+        id: 'x',
+        url: '/api/attachments/x',
+      }),
+    ).toBe(true);
+  });
+
+  it('rejects responses without url', () => {
+    expect(isUploadAttachmentResponse({ id: 'x' })).toBe(false);
+    expect(isUploadAttachmentResponse({ id: 'x', url: 1 })).toBe(false);
+    expect(isUploadAttachmentResponse(null)).toBe(false);
+  });
+});
+
 describe('isArchivePageResponse', () => {
   it('accepts a valid response', () => {
     expect(isArchivePageResponse({ archived_at: 1234567890 })).toBe(true);
@@ -142,3 +164,58 @@ describe('isArchivePageResponse', () => {
     expect(isArchivePageResponse([])).toBe(false);
   });
 });
+
+describe('isPageVersionListItemArray', () => {
+  it('accepts a valid version list', () => {
+    expect(
+      isPageVersionListItemArray([
+        { id: 2, title: 'B', created_at: 2000 },
+        { id: 1, title: 'A', created_at: 1000 },
+      ]),
+    ).toBe(true);
+    expect(isPageVersionListItemArray([])).toBe(true);
+  });
+
+  it('rejects non-numeric ids', () => {
+    expect(
+      isPageVersionListItemArray([{ id: '1', title: 'A', created_at: 1000 }]),
+    ).toBe(false);
+  });
+
+  it('rejects non-array values', () => {
+    expect(isPageVersionListItemArray(null)).toBe(false);
+    expect(isPageVersionListItemArray({})).toBe(false);
+  });
+});
+
+describe('isBacklinkItemArray', () => {
+  it('accepts a valid backlink list', () => {
+    expect(
+      isBacklinkItemArray([{ id: 'a', title: 'A', updated_at: 1000 }]),
+    ).toBe(true);
+    expect(isBacklinkItemArray([])).toBe(true);
+  });
+
+  it('rejects items without a title', () => {
+    expect(isBacklinkItemArray([{ id: 'a', updated_at: 1000 }])).toBe(false);
+  });
+});
+
+describe('isSessionInfo', () => {
+  it('accepts anonymous and signed-in sessions', () => {
+    expect(isSessionInfo({ mode: 'anonymous', user: null })).toBe(true);
+    expect(
+      isSessionInfo({
+        mode: 'local',
+        user: { id: 'u1', username: 'alice', display_name: 'Alice' },
+      }),
+    ).toBe(true);
+  });
+
+  it('rejects unknown modes and malformed users', () => {
+    expect(isSessionInfo({ mode: 'oauth', user: null })).toBe(false);
+    expect(isSessionInfo({ mode: 'local', user: { id: 'u1' } })).toBe(false);
+    expect(isSessionInfo({ mode: 'local' })).toBe(false);
+    expect(isSessionInfo(null)).toBe(false);
+  });
+});
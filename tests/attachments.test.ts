@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { createTestDb, insertPage } from './helpers/db';
+import {
+  canReadAttachment,
+  createAttachment,
+  getAttachment,
+  getAttachmentUrl,
+  isAttachmentType,
+} from '../server/attachments';
+import { createSession, createUser, SESSION_COOKIE_NAME } from '../server/auth';
+import { deletePage } from '../server/delete-page';
+import {
+  createShare,
+  getShareCookieName,
+  revokeShare,
+} from '../server/page-shares';
+import { cleanupOldArchives } from '../server/cleanup-archives';
+
+let db: Database.Database;
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+beforeEach(() => {
+  db = createTestDb();
+  insertPage(db, { id: 'a' });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('isAttachmentType', () => {
+  it('accepts raster images only', () => {
+    expect(isAttachmentType('image/png')).toBe(true);
+    expect(isAttachmentType('image/webp')).toBe(true);
+    expect(isAttachmentType('image/svg+xml')).toBe(false);
+    expect(isAttachmentType('text/html')).toBe(false);
+  });
+});
+
+describe('createAttachment', () => {
+  it('stores the data for the page', () => {
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+    expect(attachment.id).toMatch(/^[\w-]{22}$/);
+    expect(attachment.size).toBe(4);
+
+    const stored = getAttachment(db, attachment.id)!;
+    expect(stored.page_id).toBe('a');
+    expect(stored.content_type).toBe('image/png');
+    expect(Buffer.compare(stored.data, PNG)).toBe(0);
+    expect(getAttachmentUrl(attachment.id)).toBe(
+      `/api/attachments/${attachment.id}`,
+    );
+  });
+
+  it('gives every attachment its own id', () => {
+    const first = createAttachment(db, 'a', 'image/png', PNG)!;
+    const second = createAttachment(db, 'a', 'image/png', PNG)!;
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('refuses missing and archived pages', () => {
+    insertPage(db, { id: 'old', archived_at: Date.now() });
+    expect(createAttachment(db, 'missing', 'image/png', PNG)).toBeNull();
+    expect(createAttachment(db, 'old', 'image/png', PNG)).toBeNull();
+  });
+});
+
+describe('getAttachment', () => {
+  it('returns undefined for a missing attachment', () => {
+    expect(getAttachment(db, 'missing')).toBeUndefined();
+  });
+});
+
+describe('canReadAttachment', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUTH_MODE', 'local');
+    insertPage(db, { id: 'b' });
+  });
+
+  function shareCookie(pageId: string) {
+    const share = createShare(db, pageId, { scope: 'read', ttlSeconds: 60 })!;
+    return {
+      id: share.id,
+      name: getShareCookieName(share.id),
+      value: share.token,
+    };
+  }
+
+  it('lets anyone read attachments without authentication', () => {
+    vi.stubEnv('AUTH_MODE', 'anonymous');
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+    expect(canReadAttachment(db, attachment, [])).toBe(true);
+  });
+
+  it('lets signed-in users read attachments of every page', () => {
+    const user = createUser(db, { username: 'alice', password: 'secret-pass' });
+    const token = createSession(db, user.id);
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+
+    expect(
+      canReadAttachment(db, attachment, [
+        { name: SESSION_COOKIE_NAME, value: token },
+      ]),
+    ).toBe(true);
+    expect(
+      canReadAttachment(db, attachment, [
+        { name: SESSION_COOKIE_NAME, value: 'expired' },
+      ]),
+    ).toBe(false);
+  });
+
+  it('lets share link holders read attachments of the shared page only', () => {
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+
+    expect(canReadAttachment(db, attachment, [])).toBe(false);
+    expect(canReadAttachment(db, attachment, [shareCookie('b')])).toBe(false);
+    expect(
+      canReadAttachment(db, attachment, [shareCookie('b'), shareCookie('a')]),
+    ).toBe(true);
+  });
+
+  it('stops accepting a share once it is revoked', () => {
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+    const cookie = shareCookie('a');
+    revokeShare(db, 'a', cookie.id);
+
+    expect(canReadAttachment(db, attachment, [cookie])).toBe(false);
+  });
+
+  it('ignores share tokens under other cookie names', () => {
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+    const { value } = shareCookie('a');
+    expect(canReadAttachment(db, attachment, [{ name: 'other', value }])).toBe(
+      false,
+    );
+  });
+});
+
+describe('attachment deletion', () => {
+  it('removes attachments with their page', () => {
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+    deletePage(db, 'a');
+    expect(getAttachment(db, attachment.id)).toBeUndefined();
+  });
+
+  it('removes attachments of archives removed by cleanup', () => {
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+    db.prepare('UPDATE pages SET archived_at = ? WHERE id = ?').run(
+      Date.now() - 31 * 24 * 60 * 60 * 1000,
+      'a',
+    );
+    expect(cleanupOldArchives(db)).toBe(1);
+    expect(getAttachment(db, attachment.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { scryptSync } from 'crypto';
+import Database from 'better-sqlite3';
+import { createTestDb } from './helpers/db';
+import {
+  authenticate,
+  createSession,
+  createUser,
+  deleteExpiredSessions,
+  deleteSession,
+  deleteUser,
+  getAuthMode,
+  getSessionTokenFromCookieHeader,
+  getSessionUser,
+  hashPassword,
+  InvalidUserError,
+  listUsers,
+  SESSION_TTL_MS,
+  setUserPassword,
+  verifyPassword,
+} from '../server/auth';
+
+vi.mock('crypto', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('crypto')>();
+  return { ...actual, scryptSync: vi.fn(actual.scryptSync) };
+});
+
+const NOW = 1_700_000_000_000;
+const PASSWORD = 'correct horse';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function addAlice() {
+  return createUser(
+    db,
+    { username: 'alice', password: PASSWORD, displayName: 'Alice' },
+    NOW,
+  );
+}
+
+describe('getAuthMode', () => {
+  it('defaults to anonymous', () => {
+    vi.stubEnv('AUTH_MODE', '');
+    expect(getAuthMode()).toBe('anonymous');
+  });
+
+  it('accepts local and rejects unknown modes', () => {
+    vi.stubEnv('AUTH_MODE', 'local');
+    expect(getAuthMode()).toBe('local');
+
+    vi.stubEnv('AUTH_MODE', 'ldap');
+    expect(() => getAuthMode()).toThrow('Unknown AUTH_MODE: ldap');
+  });
+});
+
+describe('password hashing', () => {
+  it('verifies only the original password', () => {
+    const hash = hashPassword(PASSWORD);
+
+    expect(hash).not.toContain(PASSWORD);
+    expect(verifyPassword(PASSWORD, hash)).toBe(true);
+    expect(verifyPassword('wrong password', hash)).toBe(false);
+    expect(verifyPassword(PASSWORD, 'plain')).toBe(false);
+  });
+
+  it('salts each hash', () => {
+    expect(hashPassword(PASSWORD)).not.toBe(hashPassword(PASSWORD));
+  });
+});
+
+describe('users', () => {
+  it('creates users and authenticates them', () => {
+    const user = addAlice();
+
+    expect(user).toEqual({
+      id: expect.any(String),
+      username: 'alice',
+      display_name: 'Alice',
+      created_at: NOW,
+    });
+    expect(authenticate(db, 'alice', PASSWORD)).toEqual(user);
+    expect(authenticate(db, 'ALICE', PASSWORD)).toEqual(user);
+    expect(authenticate(db, 'alice', 'wrong password')).toBeNull();
+    expect(authenticate(db, 'bob', PASSWORD)).toBeNull();
+  });
+
+  it('hashes the password for unknown usernames too', () => {
+    addAlice();
+    authenticate(db, 'nobody', PASSWORD);
+
+    vi.mocked(scryptSync).mockClear();
+    expect(authenticate(db, 'nobody', PASSWORD)).toBeNull();
+    expect(scryptSync).toHaveBeenCalledTimes(1);
+
+    vi.mocked(scryptSync).mockClear();
+    expect(authenticate(db, 'alice', 'wrong password')).toBeNull();
+    expect(scryptSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects duplicate names, invalid names and short passwords', () => {
+    addAlice();
+
+    expect(() =>
+      createUser(db, { username: 'Alice', password: PASSWORD }),
+    ).toThrow(InvalidUserError);
+    expect(() =>
+      createUser(db, { username: 'bob smith', password: PASSWORD }),
+    ).toThrow(InvalidUserError);
+    expect(() =>
+      createUser(db, { username: 'bob', password: 'short' }),
+    ).toThrow(InvalidUserError);
+    expect(listUsers(db).map((user) => user.username)).toEqual(['alice']);
+  });
+
+  it('signs users out when their password changes', () => {
+    const user = addAlice();
+    const token = createSession(db, user.id, NOW);
+
+    expect(setUserPassword(db, 'alice', 'new password')).toBe(true);
+
+    expect(getSessionUser(db, token, NOW)).toBeNull();
+    expect(authenticate(db, 'alice', PASSWORD)).toBeNull();
+    expect(authenticate(db, 'alice', 'new password')).not.toBeNull();
+    expect(setUserPassword(db, 'bob', 'new password')).toBe(false);
+  });
+
+  it('deletes users with their sessions', () => {
+    const user = addAlice();
+    const token = createSession(db, user.id, NOW);
+
+    expect(deleteUser(db, 'alice')).toBe(true);
+
+    expect(getSessionUser(db, token, NOW)).toBeNull();
+    expect(listUsers(db)).toEqual([]);
+    expect(deleteUser(db, 'alice')).toBe(false);
+  });
+});
+
+describe('sessions', () => {
+  it('resolves the user of a session until it expires', () => {
+    const user = addAlice();
+    const token = createSession(db, user.id, NOW);
+
+    expect(getSessionUser(db, token, NOW + 1)).toEqual(user);
+    expect(getSessionUser(db, token, NOW + SESSION_TTL_MS)).toBeNull();
+    expect(getSessionUser(db, 'unknown', NOW)).toBeNull();
+  });
+
+  it('stores only a hash of the token', () => {
+    const user = addAlice();
+    const token = createSession(db, user.id, NOW);
+
+    const ids = db.prepare('SELECT id FROM sessions').all() as Array<{
+      id: string;
+    }>;
+    expect(ids).toHaveLength(1);
+    expect(ids[0].id).not.toBe(token);
+  });
+
+  it('ends sessions on sign out and when they expire', () => {
+    const user = addAlice();
+    const signedOut = createSession(db, user.id, NOW);
+    const expired = createSession(db, user.id, NOW - SESSION_TTL_MS);
+    const active = createSession(db, user.id, NOW);
+
+    deleteSession(db, signedOut);
+    expect(deleteExpiredSessions(db, NOW)).toBe(1);
+
+    expect(getSessionUser(db, signedOut, NOW)).toBeNull();
+    expect(getSessionUser(db, expired, NOW)).toBeNull();
+    expect(getSessionUser(db, active, NOW)).toEqual(user);
+  });
+});
+
+describe('getSessionTokenFromCookieHeader', () => {
+  it('finds the session cookie among others', () => {
+    expect(
+      getSessionTokenFromCookieHeader(
+        'theme=dark; markdown_board_session=abc%3D; other=1',
+      ),
+    ).toBe('abc=');
+    expect(getSessionTokenFromCookieHeader('theme=dark')).toBeNull();
+    expect(getSessionTokenFromCookieHeader(undefined)).toBeNull();
+  });
+});
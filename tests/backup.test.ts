@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import * as Y from 'yjs';
+import {
+  checkDatabaseFile,
+  createBackup,
+  listBackups,
+  pruneBackups,
+  restoreBackup,
+} from '../server/backup';
+import { runMigrations } from '../server/migrations';
+import { YjsSqlitePersistence } from '../server/yjs-sqlite-persistence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dir: string;
+let dbPath: string;
+let backupDir: string;
+
+function openFileDb(file: string): Database.Database {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  runMigrations(db);
+  return db;
+}
+
+function addPage(db: Database.Database, id: string, text: string): void {
+  db.prepare(
+    'INSERT INTO pages (id, title, created_at, updated_at) VALUES (?, ?, 0, 0)',
+  ).run(id, text);
+  const doc = new Y.Doc();
+  doc.getText('test').insert(0, text);
+  new YjsSqlitePersistence(db).storeUpdate(id, Y.encodeStateAsUpdate(doc));
+  doc.destroy();
+}
+
+function pageIds(file: string): string[] {
+  const db = new Database(file, { readonly: true });
+  try {
+    return (
+      db.prepare('SELECT id FROM pages ORDER BY id').all() as Array<{
+        id: string;
+      }>
+    ).map((row) => row.id);
+  } finally {
+    db.close();
+  }
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backup-test-'));
+  dbPath = path.join(dir, 'markdown-board.db');
+  backupDir = path.join(dir, 'backups');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createBackup', () => {
+  it('copies the data of an open database, including the WAL', async () => {
+    const db = openFileDb(dbPath);
+    addPage(db, 'page-1', 'Hello');
+
+    const file = await createBackup(db, backupDir, Date.UTC(2026, 0, 2, 3));
+    db.close();
+
+    expect(path.basename(file)).toBe('markdown-board-20260102T030000000Z.db');
+    expect(pageIds(file)).toEqual(['page-1']);
+    expect(checkDatabaseFile(file)).toEqual({ errors: [], warnings: [] });
+  });
+});
+
+describe('pruneBackups', () => {
+  const now = Date.UTC(2026, 0, 31);
+
+  beforeEach(async () => {
+    const db = openFileDb(dbPath);
+    for (const daysAgo of [0, 1, 2, 40]) {
+      await createBackup(db, backupDir, now - daysAgo * DAY_MS);
+    }
+    db.close();
+    fs.writeFileSync(path.join(backupDir, 'unrelated.db'), '');
+  });
+
+  it('keeps only the newest backups', () => {
+    const deleted = pruneBackups(backupDir, { keep: 2, maxAgeDays: 0 }, now);
+
+    expect(deleted).toHaveLength(2);
+    expect(listBackups(backupDir).map((b) => b.created_at)).toEqual([
+      now,
+      now - DAY_MS,
+    ]);
+    expect(fs.existsSync(path.join(backupDir, 'unrelated.db'))).toBe(true);
+  });
+
+  it('deletes backups older than the age limit', () => {
+    pruneBackups(backupDir, { keep: 0, maxAgeDays: 30 }, now);
+
+    expect(listBackups(backupDir)).toHaveLength(3);
+  });
+
+  it('always keeps the newest backup', () => {
+    pruneBackups(backupDir, { keep: 1, maxAgeDays: 1 }, now + 10 * DAY_MS);
+
+    expect(listBackups(backupDir).map((b) => b.created_at)).toEqual([now]);
+  });
+});
+
+describe('checkDatabaseFile', () => {
+  it('reports a file that is not a database', () => {
+    fs.writeFileSync(dbPath, 'not a database');
+
+    expect(checkDatabaseFile(dbPath).errors).toEqual([
+      'Integrity check failed: file is not a database',
+    ]);
+  });
+
+  it('reports missing tables', () => {
+    new Database(dbPath).close();
+
+    expect(checkDatabaseFile(dbPath).errors).toEqual([
+      'Table pages is missing',
+      'Table yjs_updates is missing',
+    ]);
+  });
+
+  it('reports corrupted Yjs updates', () => {
+    const db = openFileDb(dbPath);
+    addPage(db, 'page-1', 'Hello');
+    db.prepare(
+      'INSERT INTO yjs_updates (doc_name, clock, value) VALUES (?, ?, ?)',
+    ).run('page-1', 1, Buffer.from([255, 255, 255, 255]));
+    db.close();
+
+    const { errors } = checkDatabaseFile(dbPath);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^yjs_updates for page-1 are corrupted/);
+  });
+
+  it('warns about updates without a page', () => {
+    const db = openFileDb(dbPath);
+    addPage(db, 'page-1', 'Hello');
+    db.prepare('DELETE FROM pages').run();
+    db.close();
+
+    expect(checkDatabaseFile(dbPath)).toEqual({
+      errors: [],
+      warnings: ['yjs_updates for page-1 have no pages row'],
+    });
+  });
+});
+
+describe('restoreBackup', () => {
+  let backupFile: string;
+
+  beforeEach(async () => {
+    const db = openFileDb(dbPath);
+    addPage(db, 'page-1', 'Backed up');
+    backupFile = await createBackup(db, backupDir);
+    addPage(db, 'page-2', 'Added later');
+    db.close();
+  });
+
+  it('swaps the backup in and keeps the previous database', () => {
+    const previous = restoreBackup(backupFile, dbPath, Date.UTC(2026, 0, 1));
+
+    expect(previous).toBe(`${dbPath}.before-restore-20260101T000000000Z`);
+    expect(pageIds(dbPath)).toEqual(['page-1']);
+    expect(pageIds(previous!)).toEqual(['page-1', 'page-2']);
+    expect(fs.existsSync(`${dbPath}.restoring`)).toBe(false);
+  });
+
+  it('refuses a backup that fails the consistency check', () => {
+    fs.writeFileSync(backupFile, 'corrupted');
+
+    expect(() => restoreBackup(backupFile, dbPath)).toThrow(
+      'Backup failed the consistency check',
+    );
+    expect(pageIds(dbPath)).toEqual(['page-1', 'page-2']);
+  });
+
+  it('refuses to replace a database that is still open', () => {
+    const db = new Database(dbPath);
+    db.prepare('SELECT COUNT(*) FROM pages').get();
+    try {
+      expect(() => restoreBackup(backupFile, dbPath)).toThrow(
+        'stop the servers first',
+      );
+    } finally {
+      db.close();
+    }
+    expect(pageIds(dbPath)).toEqual(['page-1', 'page-2']);
+  });
+});
@@ -170,6 +170,28 @@ describe('cleanupOldArchives', () => {
       .all('active-page');
     expect(activeUpdates).toHaveLength(1);
   });
+
+  it('also deletes associated page_snapshots records', () => {
+    const thirtyOneDaysAgo = Date.now() - 31 * 24 * 60 * 60 * 1000;
+
+    insertPage(db, {
+      id: 'old-archive',
+      title: 'Old',
+      archived_at: thirtyOneDaysAgo,
+    });
+    db.prepare(
+      `INSERT INTO page_snapshots (doc_name, title, created_at, snapshot, state)
+       VALUES (?, ?, ?, ?, ?)`,
+    ).run('old-archive', 'Old', 1000, Buffer.from([0]), Buffer.from([0, 0]));
+
+    const deleted = cleanupOldArchives(db);
+    expect(deleted).toBe(1);
+
+    const snapshots = db
+      .prepare('SELECT * FROM page_snapshots WHERE doc_name = ?')
+      .all('old-archive');
+    expect(snapshots).toHaveLength(0);
+  });
 });
 
 describe('runCleanupCycle', () => {
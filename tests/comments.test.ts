@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+import {
+  addReply,
+  createThread,
+  getCommentsMap,
+  listThreads,
+  setThreadResolved,
+} from '@/lib/comments';
+
+function createDocWithText(text: string): { ydoc: Y.Doc; ytext: Y.XmlText } {
+  const ydoc = new Y.Doc();
+  const paragraph = new Y.XmlElement('paragraph');
+  const ytext = new Y.XmlText();
+  ytext.insert(0, text);
+  paragraph.insert(0, [ytext]);
+  ydoc.getXmlFragment('prosemirror').insert(0, [paragraph]);
+  return { ydoc, ytext };
+}
+
+function anchorText(ytext: Y.XmlText, from: number, to: number) {
+  return {
+    anchor: Y.createRelativePositionFromTypeIndex(ytext, from),
+    head: Y.createRelativePositionFromTypeIndex(ytext, to),
+  };
+}
+
+function resolveIndex(ydoc: Y.Doc, position: Y.RelativePosition) {
+  return Y.createAbsolutePositionFromRelativePosition(position, ydoc)?.index;
+}
+
+describe('createThread', () => {
+  it('stores a thread with its first comment', () => {
+    const { ydoc, ytext } = createDocWithText('Hello world');
+    const id = createThread(
+      ydoc,
+      {
+        ...anchorText(ytext, 6, 11),
+        quote: 'world',
+        author: 'Alice',
+        body: 'Which world?',
+      },
+      1000,
+    );
+
+    const [thread] = listThreads(ydoc);
+    expect(thread).toMatchObject({
+      id,
+      quote: 'world',
+      resolved: false,
+      createdAt: 1000,
+    });
+    expect(thread.comments).toEqual([
+      {
+        id: expect.any(String),
+        author: 'Alice',
+        body: 'Which world?',
+        createdAt: 1000,
+      },
+    ]);
+  });
+
+  it('does not change the text of the note', () => {
+    const { ydoc, ytext } = createDocWithText('Hello world');
+    createThread(ydoc, {
+      ...anchorText(ytext, 0, 5),
+      quote: 'Hello',
+      author: 'Alice',
+      body: 'TODO',
+    });
+    expect(ydoc.getXmlFragment('prosemirror').toString()).toBe(
+      '<paragraph>Hello world</paragraph>',
+    );
+  });
+
+  it('keeps its anchor on the same text after concurrent edits', () => {
+    const { ydoc, ytext } = createDocWithText('Hello world');
+    const peer = new Y.Doc();
+    Y.applyUpdate(peer, Y.encodeStateAsUpdate(ydoc));
+
+    createThread(ydoc, {
+      ...anchorText(ytext, 6, 11),
+      quote: 'world',
+      author: 'Alice',
+      body: 'Which world?',
+    });
+    const peerText = (
+      peer.getXmlFragment('prosemirror').get(0) as Y.XmlElement
+    ).get(0) as Y.XmlText;
+    peerText.insert(0, 'Oh, ');
+
+    Y.applyUpdate(peer, Y.encodeStateAsUpdate(ydoc));
+    Y.applyUpdate(ydoc, Y.encodeStateAsUpdate(peer));
+
+    for (const doc of [ydoc, peer]) {
+      const [thread] = listThreads(doc);
+      expect(resolveIndex(doc, thread.anchor)).toBe(10);
+      expect(resolveIndex(doc, thread.head)).toBe(15);
+    }
+  });
+});
+
+describe('addReply', () => {
+  it('appends comments in order', () => {
+    const { ydoc, ytext } = createDocWithText('Hello');
+    const id = createThread(ydoc, {
+      ...anchorText(ytext, 0, 5),
+      quote: 'Hello',
+      author: 'Alice',
+      body: 'First',
+    });
+
+    expect(addReply(ydoc, id, { author: 'Bob', body: 'Second' }, 2000)).toBe(
+      true,
+    );
+    expect(listThreads(ydoc)[0].comments.map((c) => c.body)).toEqual([
+      'First',
+      'Second',
+    ]);
+  });
+
+  it('returns false for an unknown thread', () => {
+    const { ydoc } = createDocWithText('Hello');
+    expect(addReply(ydoc, 'missing', { author: 'Bob', body: 'Hi' })).toBe(
+      false,
+    );
+  });
+});
+
+describe('setThreadResolved', () => {
+  it('resolves and reopens a thread', () => {
+    const { ydoc, ytext } = createDocWithText('Hello');
+    const id = createThread(ydoc, {
+      ...anchorText(ytext, 0, 5),
+      quote: 'Hello',
+      author: 'Alice',
+      body: 'Done?',
+    });
+
+    expect(setThreadResolved(ydoc, id, true)).toBe(true);
+    expect(listThreads(ydoc)[0].resolved).toBe(true);
+    setThreadResolved(ydoc, id, false);
+    expect(listThreads(ydoc)[0].resolved).toBe(false);
+  });
+
+  it('returns false for an unknown thread', () => {
+    const { ydoc } = createDocWithText('Hello');
+    expect(setThreadResolved(ydoc, 'missing', true)).toBe(false);
+  });
+});
+
+describe('listThreads', () => {
+  it('orders threads by creation time', () => {
+    const { ydoc, ytext } = createDocWithText('Hello');
+    const range = anchorText(ytext, 0, 5);
+    const base = { ...range, quote: 'Hello', author: 'Alice' };
+    createThread(ydoc, { ...base, body: 'later' }, 2000);
+    createThread(ydoc, { ...base, body: 'earlier' }, 1000);
+
+    expect(listThreads(ydoc).map((t) => t.comments[0].body)).toEqual([
+      'earlier',
+      'later',
+    ]);
+  });
+
+  it('skips entries it cannot read', () => {
+    const { ydoc } = createDocWithText('Hello');
+    getCommentsMap(ydoc).set('broken', new Y.Map());
+    expect(listThreads(ydoc)).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  render,
+  screen,
+  cleanup,
+  fireEvent,
+  waitFor,
+} from '@testing-library/react';
+import AccountMenu from '@/components/AccountMenu';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('@/hooks/useSession', () => ({
+  useSession: vi.fn(),
+}));
+
+vi.mock('@/lib/offline-cache', () => ({
+  clearOfflineCaches: vi.fn(() => Promise.resolve()),
+}));
+
+const { clearOfflineCaches } = await import('@/lib/offline-cache');
+
+const { useSession } = await import('@/hooks/useSession');
+const mockUseSession = vi.mocked(useSession);
+
+const assign = vi.fn();
+
+beforeEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true }));
+  vi.stubGlobal('location', { ...window.location, assign });
+});
+
+describe('AccountMenu', () => {
+  it('renders nothing in anonymous mode', () => {
+    mockUseSession.mockReturnValue({
+      session: { mode: 'anonymous', user: null },
+    });
+
+    const { container } = render(<AccountMenu />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('shows the signed-in user and signs out', async () => {
+    mockUseSession.mockReturnValue({
+      session: {
+        mode: 'local',
+        user: { id: 'u1', username: 'alice', display_name: 'Alice' },
+      },
+    });
+
+    render(<AccountMenu />);
+    expect(screen.getByText('Alice')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'ログアウト' }));
+
+    await waitFor(() => {
+      expect(assign).toHaveBeenCalledWith('/login');
+    });
+    expect(fetch).toHaveBeenCalledWith('/api/auth/logout', { method: 'POST' });
+    expect(clearOfflineCaches).toHaveBeenCalled();
+  });
+
+  it('keeps the offline caches when signing out fails', async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      new Response('{"error":"failed"}', { status: 500 }),
+    );
+    mockUseSession.mockReturnValue({
+      session: {
+        mode: 'local',
+        user: { id: 'u1', username: 'alice', display_name: 'Alice' },
+      },
+    });
+
+    render(<AccountMenu />);
+    fireEvent.click(screen.getByRole('button', { name: 'ログアウト' }));
+
+    await waitFor(() => {
+      expect(
+        (
+          screen.getByRole('button', {
+            name: 'ログアウト',
+          }) as HTMLButtonElement
+        ).disabled,
+      ).toBe(false);
+    });
+    expect(clearOfflineCaches).not.toHaveBeenCalled();
+    expect(assign).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, cleanup, fireEvent } from '@testing-library/react';
+import * as Y from 'yjs';
+import CommentMargin from '@/components/CommentMargin';
+import type { PlacedCommentThread } from '@/hooks/useComments';
+
+const position = Y.createRelativePositionFromTypeIndex(
+  new Y.Doc().getText(),
+  0,
+);
+
+function makeThread(
+  overrides: Partial<PlacedCommentThread> = {},
+): PlacedCommentThread {
+  return {
+    id: 'thread-1',
+    anchor: position,
+    head: position,
+    quote: 'Hello',
+    resolved: false,
+    createdAt: 1000,
+    top: 40,
+    comments: [
+      { id: 'c1', author: 'Alice', body: 'Is this right?', createdAt: 1000 },
+    ],
+    ...overrides,
+  };
+}
+
+function renderMargin(
+  props: Partial<React.ComponentProps<typeof CommentMargin>> = {},
+) {
+  const handlers = {
+    onActivate: vi.fn(),
+    onSubmitDraft: vi.fn(),
+    onCancelDraft: vi.fn(),
+    onReply: vi.fn(),
+    onResolve: vi.fn(),
+  };
+  render(
+    <CommentMargin
+      threads={[makeThread()]}
+      draft={null}
+      activeThreadId={null}
+      readOnly={false}
+      {...handlers}
+      {...props}
+    />,
+  );
+  return handlers;
+}
+
+beforeEach(() => {
+  cleanup();
+});
+
+describe('CommentMargin', () => {
+  it('places a thread next to its text', () => {
+    renderMargin();
+    const card = screen.getByRole('region', { name: 'コメント: Hello' });
+    expect(card.style.top).toBe('40px');
+    expect(card.textContent).toContain('Alice');
+    expect(card.textContent).toContain('Is this right?');
+  });
+
+  it('activates a thread when clicked and replies to the active one', () => {
+    const handlers = renderMargin();
+    fireEvent.click(screen.getByRole('region', { name: 'コメント: Hello' }));
+    expect(handlers.onActivate).toHaveBeenCalledWith('thread-1');
+    expect(screen.queryByLabelText('返信を入力')).toBeNull();
+
+    cleanup();
+    const active = renderMargin({ activeThreadId: 'thread-1' });
+    fireEvent.change(screen.getByLabelText('返信を入力'), {
+      target: { value: 'Yes' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: '返信' }));
+    expect(active.onReply).toHaveBeenCalledWith('thread-1', 'Yes');
+  });
+
+  it('resolves open threads and hides resolved ones until asked', () => {
+    const handlers = renderMargin();
+    fireEvent.click(screen.getByRole('button', { name: '解決' }));
+    expect(handlers.onResolve).toHaveBeenCalledWith('thread-1', true);
+    expect(handlers.onActivate).not.toHaveBeenCalled();
+
+    cleanup();
+    const resolved = renderMargin({
+      threads: [makeThread({ resolved: true })],
+    });
+    expect(
+      screen.queryByRole('region', { name: 'コメント: Hello' }),
+    ).toBeNull();
+
+    fireEvent.click(
+      screen.getByRole('button', { name: '解決済み（1）を表示' }),
+    );
+    fireEvent.click(screen.getByRole('button', { name: '再開' }));
+    expect(resolved.onResolve).toHaveBeenCalledWith('thread-1', false);
+  });
+
+  it('lists threads whose text was deleted separately', () => {
+    renderMargin({ threads: [makeThread({ top: null })] });
+    expect(screen.getByText('削除されたテキストへのコメント')).toBeTruthy();
+    const card = screen.getByRole('region', { name: 'コメント: Hello' });
+    expect(card.style.top).toBe('');
+  });
+
+  it('submits and cancels a draft', () => {
+    const handlers = renderMargin({
+      threads: [],
+      draft: { anchor: position, head: position, quote: 'world', top: 0 },
+    });
+    const submit = screen.getByRole('button', { name: 'コメント' });
+    expect(submit.hasAttribute('disabled')).toBe(true);
+
+    fireEvent.change(screen.getByLabelText('コメントを入力'), {
+      target: { value: 'New thread' },
+    });
+    fireEvent.click(submit);
+    expect(handlers.onSubmitDraft).toHaveBeenCalledWith('New thread');
+
+    fireEvent.click(screen.getByRole('button', { name: 'キャンセル' }));
+    expect(handlers.onCancelDraft).toHaveBeenCalled();
+  });
+
+  it('hides actions for read-only viewers', () => {
+    renderMargin({ readOnly: true, activeThreadId: 'thread-1' });
+    expect(screen.queryByRole('button', { name: '解決' })).toBeNull();
+    expect(screen.queryByLabelText('返信を入力')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  render,
+  screen,
+  cleanup,
+  fireEvent,
+  waitFor,
+} from '@testing-library/react';
+import LoginForm from '@/components/LoginForm';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const assign = vi.fn();
+
+beforeEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+  vi.stubGlobal('location', { ...window.location, assign });
+});
+
+function submit(username: string, password: string) {
+  fireEvent.change(screen.getByLabelText('ユーザー名'), {
+    target: { value: username },
+  });
+  fireEvent.change(screen.getByLabelText('パスワード'), {
+    target: { value: password },
+  });
+  fireEvent.click(screen.getByRole('button', { name: 'ログイン' }));
+}
+
+describe('LoginForm', () => {
+  it('signs in and continues to the requested page', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true }));
+    render(<LoginForm next="/p/page-1" />);
+
+    submit('alice', 'secret password');
+
+    await waitFor(() => {
+      expect(assign).toHaveBeenCalledWith('/p/page-1');
+    });
+    expect(fetch).toHaveBeenCalledWith('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        username: 'alice',
+        password: 'secret password',
+      }),
+    });
+  });
+
+  it('shows an error for wrong credentials', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, status: 401 }),
+    );
+    render(<LoginForm next="/" />);
+
+    submit('alice', 'wrong');
+
+    expect(
+      await screen.findByText('ユーザー名またはパスワードが違います'),
+    ).toBeTruthy();
+    expect(assign).not.toHaveBeenCalled();
+  });
+});
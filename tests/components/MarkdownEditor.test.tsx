@@ -1,6 +1,6 @@
 // @vitest-environment jsdom
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, cleanup } from '@testing-library/react';
+import { render, screen, cleanup, fireEvent } from '@testing-library/react';
 import MarkdownEditor from '@/components/MarkdownEditor';
 
 vi.mock('next/navigation', () => ({
@@ -15,16 +15,38 @@ vi.mock('@/hooks/useCollabEditor', () => ({
     loading: false,
     error: null,
     readOnly: false,
+    suggestOnly: false,
     peerCount: 0,
     wsConnected: true,
     editorRef: { current: null },
+    instance: null,
+    showAuthors: false,
+    setShowAuthors: vi.fn(),
+    peers: [],
+    displayName: null,
+    scrollToPeer: vi.fn(),
+    changeDisplayName: vi.fn(),
   })),
 }));
 
+vi.mock('@/hooks/useBacklinks', () => ({
+  useBacklinks: vi.fn(() => ({ backlinks: [] })),
+}));
+
 vi.mock('@/app/milkdown.css', () => ({}));
 
 const { useCollabEditor } = await import('@/hooks/useCollabEditor');
 const mockUseCollabEditor = vi.mocked(useCollabEditor);
+const { useBacklinks } = await import('@/hooks/useBacklinks');
+const mockUseBacklinks = vi.mocked(useBacklinks);
+
+function makePeers(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    clientId: i + 1,
+    name: `Peer ${i + 1}`,
+    location: null,
+  }));
+}
 
 beforeEach(() => {
   cleanup();
@@ -32,9 +54,17 @@ beforeEach(() => {
     loading: false,
     error: null,
     readOnly: false,
+    suggestOnly: false,
     peerCount: 0,
     wsConnected: true,
     editorRef: { current: null },
+    instance: null,
+    showAuthors: false,
+    setShowAuthors: vi.fn(),
+    peers: [],
+    displayName: null,
+    scrollToPeer: vi.fn(),
+    changeDisplayName: vi.fn(),
   });
 });
 
@@ -44,9 +74,17 @@ describe('MarkdownEditor', () => {
       loading: true,
       error: null,
       readOnly: false,
+      suggestOnly: false,
       peerCount: 0,
       wsConnected: true,
       editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
     });
 
     render(<MarkdownEditor pageId="page-1" />);
@@ -63,9 +101,17 @@ describe('MarkdownEditor', () => {
       loading: false,
       error: 'not-found',
       readOnly: false,
+      suggestOnly: false,
       peerCount: 0,
       wsConnected: true,
       editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
     });
 
     render(<MarkdownEditor pageId="page-1" />);
@@ -79,9 +125,17 @@ describe('MarkdownEditor', () => {
       loading: false,
       error: 'network-error',
       readOnly: false,
+      suggestOnly: false,
       peerCount: 0,
       wsConnected: true,
       editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
     });
 
     render(<MarkdownEditor pageId="page-1" />);
@@ -95,9 +149,17 @@ describe('MarkdownEditor', () => {
       loading: false,
       error: null,
       readOnly: false,
+      suggestOnly: false,
       peerCount: 3,
       wsConnected: true,
       editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: makePeers(3),
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
     });
 
     render(<MarkdownEditor pageId="page-1" />);
@@ -117,9 +179,17 @@ describe('MarkdownEditor', () => {
       loading: false,
       error: null,
       readOnly: false,
+      suggestOnly: false,
       peerCount: 0,
       wsConnected: false,
       editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
     });
 
     render(<MarkdownEditor pageId="page-1" />);
@@ -152,9 +222,17 @@ describe('MarkdownEditor', () => {
       loading: false,
       error: null,
       readOnly: true,
+      suggestOnly: false,
       peerCount: 0,
       wsConnected: true,
       editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
     });
 
     render(<MarkdownEditor pageId="page-1" />);
@@ -178,9 +256,17 @@ describe('MarkdownEditor', () => {
       loading: false,
       error: null,
       readOnly: true,
+      suggestOnly: false,
       peerCount: 3,
       wsConnected: false,
       editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: makePeers(3),
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
     });
 
     render(<MarkdownEditor pageId="page-1" />);
@@ -190,4 +276,165 @@ describe('MarkdownEditor', () => {
       ),
     ).toBeNull();
   });
+
+  it('shows a share banner instead of the archive banner for read-only share links', () => {
+    mockUseCollabEditor.mockReturnValue({
+      loading: false,
+      error: null,
+      readOnly: true,
+      suggestOnly: false,
+      peerCount: 2,
+      wsConnected: true,
+      editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: makePeers(2),
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
+    });
+
+    render(<MarkdownEditor shareToken="share.read.1.sig" />);
+    expect(mockUseCollabEditor).toHaveBeenCalledWith({
+      shareToken: 'share.read.1.sig',
+    });
+    expect(screen.getByTestId('share-banner')).toBeTruthy();
+    expect(screen.queryByTestId('archive-banner')).toBeNull();
+    expect(
+      screen.queryByRole('button', { name: 'アーカイブを解除する' }),
+    ).toBeNull();
+    // Read-only share links stay connected and show who else is viewing
+    expect(screen.getByLabelText('他に2人が接続中')).toBeTruthy();
+  });
+
+  it('toggles the author tint', () => {
+    const setShowAuthors = vi.fn();
+    mockUseCollabEditor.mockReturnValue({
+      loading: false,
+      error: null,
+      readOnly: false,
+      suggestOnly: false,
+      peerCount: 0,
+      wsConnected: true,
+      editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors,
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
+    });
+
+    render(<MarkdownEditor pageId="page-1" />);
+    const toggle = screen.getByRole('button', { name: '作成者を表示' });
+    expect(toggle.getAttribute('aria-pressed')).toBe('false');
+    expect(screen.queryByRole('button', { name: '表示名を変更' })).toBeNull();
+
+    fireEvent.click(toggle);
+    expect(setShowAuthors).toHaveBeenCalledWith(true);
+  });
+
+  it('renames the local author while authors are shown', () => {
+    const prompt = vi.spyOn(window, 'prompt').mockReturnValue('Alice');
+    const changeDisplayName = vi.fn();
+    mockUseCollabEditor.mockReturnValue({
+      loading: false,
+      error: null,
+      readOnly: false,
+      suggestOnly: false,
+      peerCount: 0,
+      wsConnected: true,
+      editorRef: { current: null },
+      instance: null,
+      showAuthors: true,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: 'ゲスト0001',
+      scrollToPeer: vi.fn(),
+      changeDisplayName,
+    });
+
+    render(<MarkdownEditor pageId="page-1" />);
+    fireEvent.click(screen.getByRole('button', { name: '表示名を変更' }));
+
+    expect(prompt).toHaveBeenCalledWith(expect.any(String), 'ゲスト0001');
+    expect(changeDisplayName).toHaveBeenCalledWith('Alice');
+    prompt.mockRestore();
+  });
+
+  it('offers comments only to editors', () => {
+    render(<MarkdownEditor pageId="page-1" />);
+    expect(screen.getByRole('button', { name: 'コメント' })).toBeTruthy();
+
+    cleanup();
+    mockUseCollabEditor.mockReturnValue({
+      loading: false,
+      error: null,
+      readOnly: true,
+      suggestOnly: false,
+      peerCount: 0,
+      wsConnected: true,
+      editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
+    });
+    render(<MarkdownEditor shareToken="share.read.1.sig" />);
+    expect(screen.queryByRole('button', { name: 'コメント' })).toBeNull();
+  });
+
+  it('offers suggestion mode on the page itself', () => {
+    render(<MarkdownEditor pageId="page-1" />);
+    const toggle = screen.getByRole('button', { name: '提案モード' });
+    expect(toggle.getAttribute('aria-pressed')).toBe('false');
+    fireEvent.click(toggle);
+    expect(toggle.getAttribute('aria-pressed')).toBe('true');
+    expect(screen.queryByTestId('suggest-banner')).toBeNull();
+  });
+
+  it('makes suggest share link holders suggest changes', () => {
+    mockUseCollabEditor.mockReturnValue({
+      loading: false,
+      error: null,
+      readOnly: false,
+      suggestOnly: true,
+      peerCount: 0,
+      wsConnected: true,
+      editorRef: { current: null },
+      instance: null,
+      showAuthors: false,
+      setShowAuthors: vi.fn(),
+      peers: [],
+      displayName: null,
+      scrollToPeer: vi.fn(),
+      changeDisplayName: vi.fn(),
+    });
+    render(<MarkdownEditor shareToken="share.suggest.1.sig" />);
+    expect(screen.getByTestId('suggest-banner')).toBeTruthy();
+    expect(screen.queryByRole('button', { name: '提案モード' })).toBeNull();
+  });
+
+  it('lets write share link holders edit directly', () => {
+    render(<MarkdownEditor shareToken="share.write.1.sig" />);
+    expect(screen.queryByTestId('suggest-banner')).toBeNull();
+    const toggle = screen.getByRole('button', { name: '提案モード' });
+    expect(toggle.getAttribute('aria-pressed')).toBe('false');
+  });
+
+  it('lists pages linking to the page below the editor', () => {
+    mockUseBacklinks.mockReturnValueOnce({
+      backlinks: [{ id: 'other', title: 'Other page', updated_at: 0 }],
+    });
+    render(<MarkdownEditor pageId="page-1" />);
+    expect(mockUseBacklinks).toHaveBeenCalledWith('page-1');
+    expect(screen.getByText('このページへのリンク（1）')).toBeTruthy();
+    const link = screen.getByRole('link', { name: /Other page/ });
+    expect(link.getAttribute('href')).toBe('/p/other');
+  });
 });
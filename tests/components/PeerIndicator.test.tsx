@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, cleanup, fireEvent } from '@testing-library/react';
+import PeerIndicator from '@/components/PeerIndicator';
+
+const peers = [
+  { clientId: 1, name: 'alice', location: 'Meeting notes' },
+  { clientId: 2, name: null, location: '' },
+  { clientId: 3, name: 'Bob', location: null },
+];
+
+beforeEach(() => {
+  cleanup();
+});
+
+describe('PeerIndicator', () => {
+  it('shows the number of peers without the list', () => {
+    render(
+      <PeerIndicator peers={peers} displayName="Me" onSelectPeer={vi.fn()} />,
+    );
+    const button = screen.getByRole('button', { name: '他に3人が接続中' });
+    expect(button.textContent).toContain('3');
+    expect(button.getAttribute('aria-expanded')).toBe('false');
+    expect(screen.queryByTestId('peer-list')).toBeNull();
+  });
+
+  it('lists peers with their cursor location when clicked', () => {
+    render(
+      <PeerIndicator peers={peers} displayName="Me" onSelectPeer={vi.fn()} />,
+    );
+    fireEvent.click(screen.getByRole('button', { name: '他に3人が接続中' }));
+
+    const list = screen.getByTestId('peer-list');
+    expect(list.textContent).toContain('Me（あなた）');
+    expect(screen.getByRole('button', { name: /alice/ }).textContent).toBe(
+      'Aalice「Meeting notes」',
+    );
+    expect(screen.getByRole('button', { name: /名前なし/ }).textContent).toBe(
+      '?名前なし空の行',
+    );
+    expect(screen.getByRole('button', { name: /Bob/ }).textContent).toContain(
+      'カーソルなし',
+    );
+  });
+
+  it('opens the list on hover', () => {
+    const { container } = render(
+      <PeerIndicator peers={peers} displayName="Me" onSelectPeer={vi.fn()} />,
+    );
+    fireEvent.mouseEnter(container.firstChild as Element);
+    expect(screen.getByTestId('peer-list')).toBeTruthy();
+
+    fireEvent.mouseLeave(container.firstChild as Element);
+    expect(screen.queryByTestId('peer-list')).toBeNull();
+  });
+
+  it('scrolls to a peer with a cursor', () => {
+    const onSelectPeer = vi.fn();
+    render(
+      <PeerIndicator
+        peers={peers}
+        displayName="Me"
+        onSelectPeer={onSelectPeer}
+      />,
+    );
+    fireEvent.click(screen.getByRole('button', { name: '他に3人が接続中' }));
+
+    fireEvent.click(screen.getByRole('button', { name: /alice/ }));
+    expect(onSelectPeer).toHaveBeenCalledWith(1);
+
+    const bob = screen.getByRole('button', { name: /Bob/ });
+    expect(bob.hasAttribute('disabled')).toBe(true);
+  });
+
+  it('offers renaming the local user', () => {
+    const onRename = vi.fn();
+    render(
+      <PeerIndicator
+        peers={peers}
+        displayName="Me"
+        onSelectPeer={vi.fn()}
+        onRename={onRename}
+      />,
+    );
+    fireEvent.click(screen.getByRole('button', { name: '他に3人が接続中' }));
+    fireEvent.click(screen.getByRole('button', { name: '変更' }));
+    expect(onRename).toHaveBeenCalled();
+  });
+});
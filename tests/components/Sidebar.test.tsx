@@ -8,7 +8,7 @@ import {
   cleanup,
 } from '@testing-library/react';
 import Sidebar from '@/components/Sidebar';
-import type { PageListItem, ArchiveListItem } from '@/lib/types';
+import type { PageListItem, ArchiveListItem, SearchResult } from '@/lib/types';
 
 const mockPush = vi.fn();
 vi.mock('next/navigation', () => ({
@@ -19,6 +19,7 @@ vi.mock('next/navigation', () => ({
 let mockPages: PageListItem[] = [];
 let mockArchives: ArchiveListItem[] = [];
 let mockToast = { visible: false, pageId: '', pageTitle: '' };
+let mockSearchResults: SearchResult[] = [];
 
 // Stable function references to avoid infinite re-renders via useEffect deps
 const stablePageListFns = {
@@ -75,6 +76,12 @@ vi.mock('@/hooks/useArchiveToast', () => ({
   }),
 }));
 
+vi.mock('@/hooks/usePageSearch', () => ({
+  usePageSearch: (query: string) => ({
+    results: query ? mockSearchResults : [],
+  }),
+}));
+
 const now = Date.now();
 
 function makePages(count: number): PageListItem[] {
@@ -108,6 +115,7 @@ beforeEach(() => {
   mockPages = [];
   mockArchives = [];
   mockToast = { visible: false, pageId: '', pageTitle: '' };
+  mockSearchResults = [];
 });
 
 describe('Sidebar', () => {
@@ -299,6 +307,34 @@ describe('Sidebar', () => {
       expect(screen.getByText('一致するページが見つかりません。')).toBeTruthy();
     });
 
+    it('includes pages whose body matches, with a highlighted snippet', async () => {
+      mockPages = makePages(3);
+      mockSearchResults = [
+        {
+          id: 'page-3',
+          title: 'Page 3',
+          updated_at: now,
+          archived_at: null,
+          snippet: [
+            { text: 'Meeting with ', match: false },
+            { text: 'Acme', match: true },
+          ],
+        },
+      ];
+      await renderSidebar();
+
+      const searchInput = screen.getByLabelText('ページを検索');
+      await act(async () => {
+        fireEvent.change(searchInput, { target: { value: 'Acme' } });
+      });
+
+      expect(screen.getByText('Page 3')).toBeTruthy();
+      expect(screen.queryByText('Page 1')).toBeNull();
+      const snippet = screen.getByTestId('page-item-page-3-snippet');
+      expect(snippet.textContent).toBe('Meeting with Acme');
+      expect(snippet.querySelector('mark')?.textContent).toBe('Acme');
+    });
+
     it('shows all pages when search is cleared', async () => {
       mockPages = makePages(4);
       await renderSidebar();
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, cleanup, fireEvent } from '@testing-library/react';
+import SuggestionList from '@/components/SuggestionList';
+import type { Suggestion } from '@/lib/milkdown-suggestions';
+
+afterEach(() => {
+  cleanup();
+});
+
+const suggestions: Suggestion[] = [
+  {
+    id: 'a',
+    author: 'Alice',
+    createdAt: Date.now(),
+    inserted: 'Friday',
+    deleted: 'Monday',
+    from: 9,
+  },
+];
+
+function renderList(canReview: boolean) {
+  const handlers = {
+    onSelect: vi.fn(),
+    onAccept: vi.fn(),
+    onReject: vi.fn(),
+  };
+  render(
+    <SuggestionList
+      suggestions={suggestions}
+      canReview={canReview}
+      {...handlers}
+    />,
+  );
+  return handlers;
+}
+
+describe('SuggestionList', () => {
+  it('shows the author and the suggested change', () => {
+    renderList(true);
+    expect(screen.getByText('Alice')).toBeTruthy();
+    expect(screen.getByText('Friday').tagName).toBe('INS');
+    expect(screen.getByText('Monday').tagName).toBe('DEL');
+  });
+
+  it('accepts, rejects and selects suggestions', () => {
+    const { onSelect, onAccept, onReject } = renderList(true);
+    fireEvent.click(screen.getByRole('button', { name: '承認' }));
+    fireEvent.click(screen.getByRole('button', { name: '却下' }));
+    fireEvent.click(screen.getByText('Friday'));
+    expect(onAccept).toHaveBeenCalledWith('a');
+    expect(onReject).toHaveBeenCalledWith('a');
+    expect(onSelect).toHaveBeenCalledWith('a');
+  });
+
+  it('hides the review actions from other collaborators', () => {
+    renderList(false);
+    expect(screen.queryByRole('button', { name: '承認' })).toBeNull();
+    expect(screen.queryByRole('button', { name: '却下' })).toBeNull();
+  });
+
+  it('says so when nothing is pending', () => {
+    render(
+      <SuggestionList
+        suggestions={[]}
+        canReview
+        onSelect={vi.fn()}
+        onAccept={vi.fn()}
+        onReject={vi.fn()}
+      />,
+    );
+    expect(screen.getByText('未処理の提案はありません')).toBeTruthy();
+  });
+});
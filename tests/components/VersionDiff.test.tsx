@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, cleanup, fireEvent } from '@testing-library/react';
+import VersionDiff from '@/components/VersionDiff';
+
+const mockReplace = vi.fn();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({
+    replace: mockReplace,
+  }),
+}));
+
+vi.mock('@/hooks/useVersionDiff', () => ({
+  useVersionDiff: vi.fn(),
+}));
+
+vi.mock('@/app/milkdown.css', () => ({}));
+
+const { useVersionDiff } = await import('@/hooks/useVersionDiff');
+const mockUseVersionDiff = vi.mocked(useVersionDiff);
+
+const versions = [
+  { id: 2, title: 'Second', created_at: 2000 },
+  { id: 1, title: 'First', created_at: 1000 },
+];
+
+beforeEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+  mockUseVersionDiff.mockReturnValue({
+    loading: false,
+    error: null,
+    versions,
+    fromId: 1,
+    toId: 2,
+    editorRef: { current: null },
+  });
+});
+
+describe('VersionDiff', () => {
+  it('shows loading state', () => {
+    mockUseVersionDiff.mockReturnValue({
+      loading: true,
+      error: null,
+      versions: [],
+      fromId: null,
+      toId: null,
+      editorRef: { current: null },
+    });
+
+    render(<VersionDiff pageId="page-1" from={null} to={null} />);
+    expect(screen.getByText('読み込み中...')).toBeTruthy();
+  });
+
+  it('shows not-found error', () => {
+    mockUseVersionDiff.mockReturnValue({
+      loading: false,
+      error: 'not-found',
+      versions: [],
+      fromId: null,
+      toId: null,
+      editorRef: { current: null },
+    });
+
+    render(<VersionDiff pageId="page-1" from={null} to={null} />);
+    expect(screen.getByRole('alert')).toBeTruthy();
+    expect(screen.getByText('ページが見つかりません')).toBeTruthy();
+  });
+
+  it('renders version selectors and the diff area', () => {
+    const { container } = render(
+      <VersionDiff pageId="page-1" from={null} to={null} />,
+    );
+
+    const fromSelect = screen.getByLabelText('比較元') as HTMLSelectElement;
+    const toSelect = screen.getByLabelText('比較先') as HTMLSelectElement;
+    expect(fromSelect.value).toBe('1');
+    expect(toSelect.value).toBe('2');
+    expect(container.querySelector('.milkdown')).toBeTruthy();
+    expect(screen.getByText('ページに戻る').getAttribute('href')).toBe(
+      '/p/page-1',
+    );
+  });
+
+  it('updates the URL when a version is selected', () => {
+    render(<VersionDiff pageId="page-1" from={null} to={null} />);
+
+    fireEvent.change(screen.getByLabelText('比較元'), {
+      target: { value: '2' },
+    });
+
+    expect(mockReplace).toHaveBeenCalledWith('/p/page-1/diff?from=2&to=2');
+  });
+
+  it('shows a message when there is no history yet', () => {
+    mockUseVersionDiff.mockReturnValue({
+      loading: false,
+      error: null,
+      versions: [],
+      fromId: null,
+      toId: null,
+      editorRef: { current: null },
+    });
+
+    render(<VersionDiff pageId="page-1" from={null} to={null} />);
+    expect(screen.getByText('まだ履歴がありません')).toBeTruthy();
+  });
+});
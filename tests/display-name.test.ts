@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getDisplayName,
+  normalizeDisplayName,
+  setDisplayName,
+} from '@/lib/display-name';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('getDisplayName', () => {
+  it('generates a guest name once and keeps it', () => {
+    const name = getDisplayName();
+    expect(name).toMatch(/^ゲスト\d{4}$/);
+    expect(getDisplayName()).toBe(name);
+  });
+
+  it('returns the stored name', () => {
+    localStorage.setItem('markdown-board:display-name', 'Alice');
+    expect(getDisplayName()).toBe('Alice');
+  });
+});
+
+describe('setDisplayName', () => {
+  it('stores the trimmed name', () => {
+    expect(setDisplayName('  Bob ')).toBe('Bob');
+    expect(getDisplayName()).toBe('Bob');
+  });
+
+  it('ignores blank names', () => {
+    setDisplayName('Bob');
+    expect(setDisplayName('   ')).toBe('Bob');
+    expect(getDisplayName()).toBe('Bob');
+  });
+});
+
+describe('normalizeDisplayName', () => {
+  it('limits the length to 32 characters', () => {
+    expect(normalizeDisplayName('a'.repeat(40))).toHaveLength(32);
+  });
+});
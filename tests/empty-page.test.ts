@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import * as Y from 'yjs';
+import { createTestDb, insertPage } from './helpers/db';
+import { deletePageIfEmpty } from '../server/empty-page';
+import { createAttachment, getAttachment } from '../server/attachments';
+import { markdownToYDoc } from '../server/markdown';
+
+let db: Database.Database;
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+beforeEach(() => {
+  db = createTestDb();
+  insertPage(db, { id: 'a' });
+});
+
+function pageExists(id: string): boolean {
+  return !!db.prepare('SELECT 1 FROM pages WHERE id = ?').get(id);
+}
+
+describe('deletePageIfEmpty', () => {
+  it('deletes a page without content', async () => {
+    const ydoc = await markdownToYDoc('\n\n');
+    expect(await deletePageIfEmpty(db, 'a', ydoc)).toBe(true);
+    expect(pageExists('a')).toBe(false);
+  });
+
+  it('deletes a page with only whitespace and empty blocks', async () => {
+    const ydoc = new Y.Doc();
+    const paragraph = new Y.XmlElement('paragraph');
+    paragraph.insert(0, [new Y.XmlText('  ')]);
+    ydoc
+      .getXmlFragment('prosemirror')
+      .insert(0, [new Y.XmlElement('heading'), paragraph]);
+
+    expect(await deletePageIfEmpty(db, 'a', ydoc)).toBe(true);
+  });
+
+  it('keeps a page whose only content is an image', async () => {
+    const attachment = createAttachment(db, 'a', 'image/png', PNG)!;
+    const ydoc = await markdownToYDoc(
+      `![](/api/attachments/${attachment.id})\n`,
+    );
+
+    expect(await deletePageIfEmpty(db, 'a', ydoc)).toBe(false);
+    expect(pageExists('a')).toBe(true);
+    expect(getAttachment(db, attachment.id)).toBeDefined();
+  });
+
+  it('keeps a page whose only content is a horizontal rule', async () => {
+    const ydoc = await markdownToYDoc('---\n');
+    expect(await deletePageIfEmpty(db, 'a', ydoc)).toBe(false);
+  });
+
+  it('keeps a page whose only content is a link to another page', async () => {
+    const ydoc = new Y.Doc();
+    const paragraph = new Y.XmlElement('paragraph');
+    const link = new Y.XmlElement('page_link');
+    link.setAttribute('pageId', 'b');
+    link.setAttribute('title', '');
+    paragraph.insert(0, [link]);
+    ydoc.getXmlFragment('prosemirror').insert(0, [paragraph]);
+
+    expect(await deletePageIfEmpty(db, 'a', ydoc)).toBe(false);
+  });
+});
@@ -1,27 +1,10 @@
 import Database from 'better-sqlite3';
+import { runMigrations } from '../../server/migrations';
 
 export function createTestDb() {
   const db = new Database(':memory:');
   db.pragma('foreign_keys = ON');
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS pages (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL DEFAULT 'Untitled',
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL,
-      archived_at INTEGER
-    );
-    CREATE INDEX IF NOT EXISTS idx_pages_archived_at ON pages(archived_at);
-    CREATE INDEX IF NOT EXISTS idx_pages_created_at ON pages(created_at);
-    CREATE INDEX IF NOT EXISTS idx_pages_updated_at ON pages(updated_at);
-
-    CREATE TABLE IF NOT EXISTS yjs_updates (
-      doc_name TEXT NOT NULL,
-      clock INTEGER NOT NULL,
-      value BLOB NOT NULL,
-      PRIMARY KEY (doc_name, clock)
-    );
-  `);
+  runMigrations(db);
   return db;
 }
 
@@ -2,6 +2,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { usePageExists } from '@/hooks/usePageExists';
+import { clearOfflineCache, hasOfflineCache } from '@/lib/offline-cache';
 
 vi.mock('@/lib/logger', () => ({
   logger: {
@@ -11,6 +12,11 @@ vi.mock('@/lib/logger', () => ({
   },
 }));
 
+vi.mock('@/lib/offline-cache', () => ({
+  hasOfflineCache: vi.fn(() => Promise.resolve(false)),
+  clearOfflineCache: vi.fn(() => Promise.resolve()),
+}));
+
 beforeEach(() => {
   vi.clearAllMocks();
   vi.stubGlobal('fetch', vi.fn());
@@ -29,7 +35,7 @@ describe('usePageExists', () => {
     } as unknown as Response);
     vi.stubGlobal('fetch', mockFetch);
 
-    const { result } = renderHook(() => usePageExists('page-1'));
+    const { result } = renderHook(() => usePageExists({ pageId: 'page-1' }));
 
     expect(result.current.loading).toBe(true);
     expect(result.current.error).toBe(null);
@@ -53,7 +59,7 @@ describe('usePageExists', () => {
     } as unknown as Response);
     vi.stubGlobal('fetch', mockFetch);
 
-    const { result } = renderHook(() => usePageExists('page-1'));
+    const { result } = renderHook(() => usePageExists({ pageId: 'page-1' }));
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
@@ -62,6 +68,68 @@ describe('usePageExists', () => {
     expect(result.current.archivedAt).toBe(archivedTimestamp);
   });
 
+  it('resolves a share token without using the page ID', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () =>
+        Promise.resolve({ title: 'Shared', archived_at: null, scope: 'read' }),
+    } as unknown as Response);
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { result } = renderHook(() =>
+      usePageExists({ shareToken: 'share.read.1.sig' }),
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/shares/share.read.1.sig');
+    expect(result.current.error).toBe(null);
+    expect(result.current.canEdit).toBe(false);
+  });
+
+  it('allows editing through write share links', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ archived_at: null, scope: 'write' }),
+    } as unknown as Response);
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { result } = renderHook(() =>
+      usePageExists({ shareToken: 'share.write.1.sig' }),
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.canEdit).toBe(true);
+    expect(result.current.suggestOnly).toBe(false);
+  });
+
+  it('limits suggest share links to suggestions', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ archived_at: null, scope: 'suggest' }),
+    } as unknown as Response);
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { result } = renderHook(() =>
+      usePageExists({ shareToken: 'share.suggest.1.sig' }),
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.canEdit).toBe(true);
+    expect(result.current.suggestOnly).toBe(true);
+  });
+
   it('sets not-found error on 404', async () => {
     const mockFetch = vi.fn().mockResolvedValue({
       ok: false,
@@ -69,13 +137,16 @@ describe('usePageExists', () => {
     } as Response);
     vi.stubGlobal('fetch', mockFetch);
 
-    const { result } = renderHook(() => usePageExists('non-existent'));
+    const { result } = renderHook(() =>
+      usePageExists({ pageId: 'non-existent' }),
+    );
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
     });
 
     expect(result.current.error).toBe('not-found');
+    expect(clearOfflineCache).toHaveBeenCalledWith('non-existent');
   });
 
   it('sets network-error on server error (500)', async () => {
@@ -85,7 +156,7 @@ describe('usePageExists', () => {
     } as Response);
     vi.stubGlobal('fetch', mockFetch);
 
-    const { result } = renderHook(() => usePageExists('page-1'));
+    const { result } = renderHook(() => usePageExists({ pageId: 'page-1' }));
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
@@ -98,13 +169,30 @@ describe('usePageExists', () => {
     const mockFetch = vi.fn().mockRejectedValue(new Error('Network failure'));
     vi.stubGlobal('fetch', mockFetch);
 
-    const { result } = renderHook(() => usePageExists('page-1'));
+    const { result } = renderHook(() => usePageExists({ pageId: 'page-1' }));
 
     await waitFor(() => {
       expect(result.current.loading).toBe(false);
     });
 
     expect(result.current.error).toBe('network-error');
+    expect(result.current.offline).toBe(false);
+  });
+
+  it('opens a cached page when the server cannot be reached', async () => {
+    vi.mocked(hasOfflineCache).mockResolvedValueOnce(true);
+    const mockFetch = vi.fn().mockRejectedValue(new Error('Network failure'));
+    vi.stubGlobal('fetch', mockFetch);
+
+    const { result } = renderHook(() => usePageExists({ pageId: 'page-1' }));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.offline).toBe(true);
+    expect(hasOfflineCache).toHaveBeenCalledWith('page-1');
   });
 
   it('does not update state if component unmounts before fetch completes', async () => {
@@ -116,7 +204,9 @@ describe('usePageExists', () => {
     const mockFetch = vi.fn().mockReturnValue(fetchPromise);
     vi.stubGlobal('fetch', mockFetch);
 
-    const { result, unmount } = renderHook(() => usePageExists('page-1'));
+    const { result, unmount } = renderHook(() =>
+      usePageExists({ pageId: 'page-1' }),
+    );
 
     expect(result.current.loading).toBe(true);
 
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePageSearch } from '@/hooks/usePageSearch';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const results = [
+  {
+    id: 'page-1',
+    title: 'Notes',
+    updated_at: 1000,
+    archived_at: null,
+    snippet: [{ text: 'Acme', match: true }],
+  },
+];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function stubFetch(data: unknown) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(data),
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('usePageSearch', () => {
+  it('does not search for an empty query', async () => {
+    const fetchMock = stubFetch(results);
+
+    const { result } = renderHook(() => usePageSearch('  '));
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.current.results).toEqual([]);
+  });
+
+  it('fetches results after the debounce delay', async () => {
+    const fetchMock = stubFetch(results);
+
+    const { result } = renderHook(() => usePageSearch('acme corp'));
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('/api/search?q=acme%20corp');
+    expect(result.current.results).toEqual(results);
+  });
+
+  it('only searches for the latest query while typing', async () => {
+    const fetchMock = stubFetch(results);
+
+    const { rerender } = renderHook(({ query }) => usePageSearch(query), {
+      initialProps: { query: 'ac' },
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    rerender({ query: 'acme' });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('/api/search?q=acme');
+  });
+
+  it('hides results of a previous query', async () => {
+    stubFetch(results);
+
+    const { result, rerender } = renderHook(
+      ({ query }) => usePageSearch(query),
+      { initialProps: { query: 'acme' } },
+    );
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+    expect(result.current.results).toEqual(results);
+
+    rerender({ query: 'other' });
+    expect(result.current.results).toEqual([]);
+  });
+
+  it('ignores responses with an unexpected shape', async () => {
+    stubFetch({ error: 'nope' });
+
+    const { result } = renderHook(() => usePageSearch('acme'));
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(result.current.results).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useSession } from '@/hooks/useSession';
+import { logger } from '@/lib/logger';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubGlobal('fetch', vi.fn());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function mockResponse(data: unknown, ok = true) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn().mockResolvedValue({
+      ok,
+      status: ok ? 200 : 500,
+      statusText: ok ? 'OK' : 'Internal Server Error',
+      json: () => Promise.resolve(data),
+      text: () => Promise.resolve(JSON.stringify(data)),
+    } as unknown as Response),
+  );
+}
+
+describe('useSession', () => {
+  it('returns the signed-in user', async () => {
+    const session = {
+      mode: 'local',
+      user: { id: 'u1', username: 'alice', display_name: 'Alice' },
+    };
+    mockResponse(session);
+
+    const { result } = renderHook(() => useSession());
+
+    expect(result.current.session).toBeNull();
+    await waitFor(() => {
+      expect(result.current.session).toEqual(session);
+    });
+    expect(fetch).toHaveBeenCalledWith('/api/auth/session');
+  });
+
+  it('returns anonymous mode without a user', async () => {
+    mockResponse({ mode: 'anonymous', user: null });
+
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => {
+      expect(result.current.session).toEqual({
+        mode: 'anonymous',
+        user: null,
+      });
+    });
+  });
+
+  it('ignores malformed responses', async () => {
+    mockResponse({ mode: 'unknown' });
+
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => {
+      expect(logger.error).toHaveBeenCalledWith(
+        '[Session] Unexpected response shape:',
+        { mode: 'unknown' },
+      );
+    });
+    expect(result.current.session).toBeNull();
+  });
+
+  it('logs failed requests', async () => {
+    mockResponse({ error: 'Failed' }, false);
+
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => {
+      expect(logger.error).toHaveBeenCalled();
+    });
+    expect(result.current.session).toBeNull();
+  });
+});
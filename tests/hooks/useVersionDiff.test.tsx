@@ -0,0 +1,124 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useVersionDiff } from '@/hooks/useVersionDiff';
+import { createMilkdownEditor } from '@/lib/milkdown-editor';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/milkdown-editor', () => ({
+  createMilkdownEditor: vi.fn(),
+}));
+
+const mockCreateMilkdownEditor = vi.mocked(createMilkdownEditor);
+
+const versions = [
+  { id: 3, title: 'Newest', created_at: 3000 },
+  { id: 2, title: 'Middle', created_at: 2000 },
+  { id: 1, title: 'Oldest', created_at: 1000 },
+];
+
+function mockFetch(listResponse: Partial<Response>) {
+  const fetchMock = vi.fn((url: string) => {
+    if (url.endsWith('/versions')) {
+      return Promise.resolve(listResponse as Response);
+    }
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      arrayBuffer: () => Promise.resolve(new Uint8Array([0, 0]).buffer),
+    } as unknown as Response);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockCreateMilkdownEditor.mockResolvedValue({
+    action: vi.fn(),
+    destroy: vi.fn(),
+  } as never);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('useVersionDiff', () => {
+  it('compares the newest version with the previous one by default', async () => {
+    mockFetch({ ok: true, status: 200, json: () => Promise.resolve(versions) });
+
+    const { result } = renderHook(() => useVersionDiff('page-1', null, null));
+
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.versions).toEqual(versions);
+    expect(result.current.fromId).toBe(2);
+    expect(result.current.toId).toBe(3);
+  });
+
+  it('uses the requested range', async () => {
+    const fetchMock = mockFetch({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(versions),
+    });
+
+    const { result } = renderHook(() => useVersionDiff('page-1', 1, 3));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.fromId).toBe(1);
+    expect(result.current.toId).toBe(3);
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/pages/page-1/versions/1/state',
+      );
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/pages/page-1/versions/3/state',
+      );
+    });
+  });
+
+  it('has no range when the page has no versions', async () => {
+    mockFetch({ ok: true, status: 200, json: () => Promise.resolve([]) });
+
+    const { result } = renderHook(() => useVersionDiff('page-1', null, null));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.fromId).toBeNull();
+    expect(result.current.toId).toBeNull();
+    expect(mockCreateMilkdownEditor).not.toHaveBeenCalled();
+  });
+
+  it('reports not-found for unknown pages', async () => {
+    mockFetch({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      text: () => Promise.resolve(''),
+    });
+
+    const { result } = renderHook(() => useVersionDiff('missing', null, null));
+
+    await waitFor(() => {
+      expect(result.current.error).toBe('not-found');
+    });
+    expect(result.current.loading).toBe(false);
+  });
+});
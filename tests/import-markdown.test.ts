@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createTestDb } from './helpers/db';
+import { importMarkdownPage } from '../server/import-markdown';
+import { yDocToMarkdown } from '../server/markdown';
+import { searchPages } from '../server/page-search';
+import { YjsSqlitePersistence } from '../server/yjs-sqlite-persistence';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+describe('importMarkdownPage', () => {
+  it('creates a page titled after the first block', async () => {
+    const title = await importMarkdownPage(
+      db,
+      'imported',
+      '# Meeting notes\n\nDiscussed the roadmap.\n',
+      1000,
+    );
+
+    expect(title).toBe('Meeting notes');
+    const page = db
+      .prepare('SELECT * FROM pages WHERE id = ?')
+      .get('imported') as Record<string, unknown>;
+    expect(page).toMatchObject({
+      title: 'Meeting notes',
+      created_at: 1000,
+      updated_at: 1000,
+      archived_at: null,
+    });
+  });
+
+  it('stores the document as a single yjs_updates row', async () => {
+    const markdown = [
+      '# Tasks',
+      '',
+      '* [ ] write ~~draft~~',
+      '',
+      '| a  | b  |',
+      '| :- | :- |',
+      '| 1  | 2  |',
+      '',
+    ].join('\n');
+    await importMarkdownPage(db, 'imported', markdown);
+
+    const rows = db
+      .prepare('SELECT clock FROM yjs_updates WHERE doc_name = ?')
+      .all('imported');
+    expect(rows).toEqual([{ clock: 0 }]);
+
+    const ydoc = new YjsSqlitePersistence(db).getYDoc('imported');
+    expect(await yDocToMarkdown(ydoc)).toBe(markdown);
+    ydoc.destroy();
+  });
+
+  it('makes the imported page searchable', async () => {
+    await importMarkdownPage(db, 'imported', 'Call the customer Acme\n');
+
+    expect(searchPages(db, 'Acme').map((r) => r.id)).toEqual(['imported']);
+  });
+
+  it('leaves nothing behind when the page id already exists', async () => {
+    await importMarkdownPage(db, 'imported', '# First\n');
+
+    await expect(
+      importMarkdownPage(db, 'imported', '# Second\n'),
+    ).rejects.toThrow();
+    const rows = db
+      .prepare('SELECT * FROM yjs_updates WHERE doc_name = ?')
+      .all('imported');
+    expect(rows).toHaveLength(1);
+  });
+});
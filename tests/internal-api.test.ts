@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createTestDb } from './helpers/db';
+import {
+  INTERNAL_SECRET_HEADER,
+  getInternalApiSecret,
+  getInternalRequestHeaders,
+  isInternalRequest,
+} from '../server/internal-api';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+afterEach(() => {
+  delete process.env.INTERNAL_API_SECRET;
+});
+
+describe('getInternalApiSecret', () => {
+  it('generates a secret once and keeps it', () => {
+    const secret = getInternalApiSecret(db);
+    expect(secret.length).toBeGreaterThanOrEqual(32);
+    expect(getInternalApiSecret(db)).toBe(secret);
+  });
+
+  it('prefers INTERNAL_API_SECRET', () => {
+    process.env.INTERNAL_API_SECRET = 'from-env';
+    expect(getInternalApiSecret(db)).toBe('from-env');
+  });
+});
+
+describe('isInternalRequest', () => {
+  it('accepts requests with the request headers', () => {
+    expect(isInternalRequest(db, getInternalRequestHeaders(db))).toBe(true);
+  });
+
+  it('rejects missing and wrong secrets', () => {
+    expect(isInternalRequest(db, {})).toBe(false);
+    expect(isInternalRequest(db, { [INTERNAL_SECRET_HEADER]: 'guess' })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+import { markdownToYDoc, yDocToMarkdown } from '../server/markdown';
+
+async function roundTrip(markdown: string): Promise<string> {
+  const ydoc = await markdownToYDoc(markdown);
+  try {
+    return await yDocToMarkdown(ydoc);
+  } finally {
+    ydoc.destroy();
+  }
+}
+
+describe('yDocToMarkdown', () => {
+  it('serializes a document built like the collaborative editor does', async () => {
+    const ydoc = new Y.Doc();
+    const fragment = ydoc.getXmlFragment('prosemirror');
+    const heading = new Y.XmlElement('heading');
+    heading.setAttribute('level', 1 as unknown as string);
+    heading.insert(0, [new Y.XmlText('Title')]);
+    const paragraph = new Y.XmlElement('paragraph');
+    const text = new Y.XmlText();
+    paragraph.insert(0, [text]);
+    fragment.insert(0, [heading, paragraph]);
+    text.insert(0, 'Plain ');
+    text.insert(6, 'bold', { strong: {} });
+
+    expect(await yDocToMarkdown(ydoc)).toBe('# Title\n\nPlain **bold**\n');
+    ydoc.destroy();
+  });
+
+  it('leaves out pending suggestions', async () => {
+    const ydoc = new Y.Doc();
+    const fragment = ydoc.getXmlFragment('prosemirror');
+    const paragraph = new Y.XmlElement('paragraph');
+    const text = new Y.XmlText();
+    paragraph.insert(0, [text]);
+    fragment.insert(0, [paragraph]);
+    const suggestion = { id: 'a', author: 'Alice', createdAt: 0 };
+    text.insert(0, 'Meet on ');
+    text.insert(8, 'Friday', { suggestion_insert: suggestion });
+    text.insert(14, 'Monday', { suggestion_delete: suggestion });
+
+    expect(await yDocToMarkdown(ydoc)).toBe('Meet on Monday\n');
+    // The marked text must survive being read with the server schema
+    expect(text.toString()).toContain('Friday');
+    ydoc.destroy();
+  });
+
+  it('serializes links to other pages as Markdown links', async () => {
+    const ydoc = new Y.Doc();
+    const fragment = ydoc.getXmlFragment('prosemirror');
+    const paragraph = new Y.XmlElement('paragraph');
+    const link = new Y.XmlElement('page_link');
+    link.setAttribute('pageId', 'abc123');
+    link.setAttribute('title', 'Roadmap');
+    paragraph.insert(0, [new Y.XmlText('See '), link]);
+    fragment.insert(0, [paragraph]);
+
+    expect(await yDocToMarkdown(ydoc)).toBe('See [Roadmap](/p/abc123)\n');
+    expect(paragraph.length).toBe(2);
+    ydoc.destroy();
+  });
+
+  it('serializes an empty document', async () => {
+    const ydoc = new Y.Doc();
+    expect(await yDocToMarkdown(ydoc)).toBe('');
+    ydoc.destroy();
+  });
+
+  it('round-trips headings, emphasis and code blocks', async () => {
+    const markdown = [
+      '# Title',
+      '',
+      'Some **bold**, *italic* and `code`.',
+      '',
+      '```ts',
+      'const x = 1;',
+      '```',
+      '',
+    ].join('\n');
+
+    expect(await roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('round-trips strikethrough', async () => {
+    const markdown = 'Done: ~~old plan~~ new plan\n';
+    expect(await roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('round-trips task lists', async () => {
+    const output = await roundTrip('- [ ] todo\n- [x] done\n');
+
+    expect(output).toContain('[ ] todo');
+    expect(output).toContain('[x] done');
+    expect(await roundTrip(output)).toBe(output);
+  });
+
+  it('round-trips tables', async () => {
+    const output = await roundTrip('| a | b |\n| - | - |\n| 1 | 2 |\n');
+
+    expect(output).toMatch(/^\| a +\| b +\|$/m);
+    expect(output).toMatch(/^\| 1 +\| 2 +\|$/m);
+    expect(await roundTrip(output)).toBe(output);
+  });
+
+  it('round-trips inline and block math', async () => {
+    const markdown = 'Energy: $$E = mc^2$$\n\n$$\n\\int_0^1 x\\,dx\n$$\n';
+    expect(await roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('stores formulas as text', async () => {
+    const ydoc = await markdownToYDoc('$$\na^2\n$$\n');
+    try {
+      const fragment = ydoc.getXmlFragment('prosemirror');
+      expect(fragment.toJSON()).toContain('a^2');
+    } finally {
+      ydoc.destroy();
+    }
+  });
+
+  it('keeps prices as plain text', async () => {
+    const markdown = 'It costs $5 and $10 today.\n';
+    expect(await roundTrip(markdown)).toBe(markdown);
+
+    const ydoc = await markdownToYDoc(markdown);
+    try {
+      expect(ydoc.getXmlFragment('prosemirror').toJSON()).not.toContain(
+        'math_inline',
+      );
+    } finally {
+      ydoc.destroy();
+    }
+  });
+
+  it('reads escaped dollar signs as plain text', async () => {
+    expect(await roundTrip('Costs \\$5 or \\$10\n')).toBe('Costs $5 or $10\n');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  getSchemaVersion,
+  migrations,
+  runMigrations,
+  type Migration,
+} from '../server/migrations';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = new Database(':memory:');
+});
+
+function tableNames(): string[] {
+  return (
+    db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name",
+      )
+      .all() as Array<{ name: string }>
+  ).map((row) => row.name);
+}
+
+describe('runMigrations', () => {
+  it('creates the schema on a new database', () => {
+    const applied = runMigrations(db);
+
+    expect(applied).toEqual(migrations.map((m) => m.version));
+    expect(getSchemaVersion(db)).toBe(
+      migrations[migrations.length - 1].version,
+    );
+    expect(tableNames()).toEqual(
+      expect.arrayContaining([
+        'pages',
+        'yjs_updates',
+        'page_snapshots',
+        'page_search',
+        'page_shares',
+        'page_links',
+        'attachments',
+        'app_settings',
+        'users',
+        'sessions',
+        'schema_version',
+      ]),
+    );
+  });
+
+  it('is a no-op when the schema is up to date', () => {
+    runMigrations(db);
+    expect(runMigrations(db)).toEqual([]);
+  });
+
+  it('records each applied migration', () => {
+    runMigrations(db);
+
+    const rows = db
+      .prepare('SELECT version, name FROM schema_version ORDER BY version')
+      .all();
+    expect(rows).toEqual(
+      migrations.map(({ version, name }) => ({ version, name })),
+    );
+  });
+
+  it('adopts a database created before migrations existed', () => {
+    db.exec(`
+      CREATE TABLE pages (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL DEFAULT 'Untitled',
+        content TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        archived_at INTEGER
+      );
+      INSERT INTO pages (id, title, content, created_at, updated_at)
+        VALUES ('old', 'Old', 'legacy', 1, 1);
+    `);
+
+    runMigrations(db);
+
+    const columns = db
+      .prepare("SELECT name FROM pragma_table_info('pages')")
+      .all() as Array<{ name: string }>;
+    expect(columns.map((c) => c.name)).not.toContain('content');
+    expect(db.prepare('SELECT id, title FROM pages').all()).toEqual([
+      { id: 'old', title: 'Old' },
+    ]);
+  });
+
+  it('only applies migrations newer than the current version', () => {
+    const ran: number[] = [];
+    const list: Migration[] = [1, 2, 3].map((version) => ({
+      version,
+      name: `migration ${version}`,
+      up: () => {
+        ran.push(version);
+      },
+    }));
+
+    runMigrations(db, list.slice(0, 2));
+    expect(runMigrations(db, list)).toEqual([3]);
+    expect(ran).toEqual([1, 2, 3]);
+  });
+
+  it('rolls back a failing migration and stops', () => {
+    const list: Migration[] = [
+      {
+        version: 1,
+        name: 'create table',
+        up: (target) => target.exec('CREATE TABLE a (id INTEGER)'),
+      },
+      {
+        version: 2,
+        name: 'broken',
+        up: (target) => {
+          target.exec('CREATE TABLE b (id INTEGER)');
+          throw new Error('boom');
+        },
+      },
+      {
+        version: 3,
+        name: 'never reached',
+        up: (target) => target.exec('CREATE TABLE c (id INTEGER)'),
+      },
+    ];
+
+    expect(() => runMigrations(db, list)).toThrow('boom');
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(tableNames()).toEqual(['a', 'schema_version']);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { Schema } from '@milkdown/prose/model';
+import { initProseMirrorDoc } from 'y-prosemirror';
+import * as Y from 'yjs';
+import { authorHue, collectAuthorRanges } from '@/lib/milkdown-attribution';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: { group: 'block', content: 'text*' },
+    blockquote: { group: 'block', content: 'block+' },
+    text: {},
+  },
+});
+
+function createDoc(clientID: number): Y.Doc {
+  const ydoc = new Y.Doc();
+  ydoc.clientID = clientID;
+  return ydoc;
+}
+
+function sync(from: Y.Doc, to: Y.Doc): void {
+  Y.applyUpdate(to, Y.encodeStateAsUpdate(from));
+}
+
+function appendParagraph(
+  parent: Y.XmlFragment | Y.XmlElement,
+  text: string,
+): Y.XmlText {
+  const paragraph = new Y.XmlElement('paragraph');
+  const ytext = new Y.XmlText();
+  ytext.insert(0, text);
+  paragraph.insert(0, [ytext]);
+  parent.insert(parent.length, [paragraph]);
+  return ytext;
+}
+
+function collect(ydoc: Y.Doc) {
+  const fragment = ydoc.getXmlFragment('prosemirror');
+  const { doc, mapping } = initProseMirrorDoc(fragment, schema);
+  const authors: Record<number, string> = { 1: 'Alice', 2: 'Bob' };
+  const ranges = collectAuthorRanges(
+    fragment,
+    mapping,
+    (clientId) => authors[clientId] ?? null,
+  );
+  return { doc, ranges };
+}
+
+describe('collectAuthorRanges', () => {
+  it('splits text by the client that inserted it', () => {
+    const alice = createDoc(1);
+    const bob = createDoc(2);
+    const text = appendParagraph(alice.getXmlFragment('prosemirror'), 'Hello');
+    sync(alice, bob);
+
+    const paragraph = bob.getXmlFragment('prosemirror').get(0) as Y.XmlElement;
+    const bobText = paragraph.get(0) as Y.XmlText;
+    bobText.insert(5, ' world');
+    sync(bob, alice);
+    expect(text.toString()).toBe('Hello world');
+
+    const { doc, ranges } = collect(alice);
+    expect(ranges).toEqual([
+      { from: 1, to: 6, author: 'Alice' },
+      { from: 6, to: 12, author: 'Bob' },
+    ]);
+    expect(doc.textBetween(6, 12)).toBe(' world');
+  });
+
+  it('accounts for nested and multiple blocks', () => {
+    const alice = createDoc(1);
+    const fragment = alice.getXmlFragment('prosemirror');
+    appendParagraph(fragment, 'One');
+    const quote = new Y.XmlElement('blockquote');
+    fragment.insert(1, [quote]);
+    appendParagraph(quote, 'Two');
+
+    const { doc, ranges } = collect(alice);
+    expect(ranges).toEqual([
+      { from: 1, to: 4, author: 'Alice' },
+      { from: 7, to: 10, author: 'Alice' },
+    ]);
+    expect(doc.textBetween(7, 10)).toBe('Two');
+  });
+
+  it('skips deleted text and reports unknown clients', () => {
+    const stranger = createDoc(3);
+    const text = appendParagraph(
+      stranger.getXmlFragment('prosemirror'),
+      'abcdef',
+    );
+    text.delete(1, 2);
+
+    expect(collect(stranger).ranges).toEqual([
+      { from: 1, to: 5, author: null },
+    ]);
+  });
+
+  it('returns null when an element has no ProseMirror node', () => {
+    const alice = createDoc(1);
+    appendParagraph(alice.getXmlFragment('prosemirror'), 'Hello');
+
+    expect(
+      collectAuthorRanges(
+        alice.getXmlFragment('prosemirror'),
+        new Map(),
+        () => null,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('authorHue', () => {
+  it('is stable for a name and within the hue range', () => {
+    expect(authorHue('Alice')).toBe(authorHue('Alice'));
+    expect(authorHue('Alice')).toBeGreaterThanOrEqual(0);
+    expect(authorHue('Alice')).toBeLessThan(360);
+  });
+});
@@ -0,0 +1,183 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Schema } from '@milkdown/prose/model';
+import { EditorState, TextSelection } from '@milkdown/prose/state';
+import { EditorView } from '@milkdown/prose/view';
+import {
+  codeBlockPlugin,
+  getHighlightRanges,
+} from '@/lib/milkdown-code-blocks';
+import { renderMermaid } from '@/lib/mermaid';
+
+vi.mock('@/lib/mermaid', () => ({
+  renderMermaid: vi.fn(async () => '<svg class="diagram"></svg>'),
+}));
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: {
+      group: 'block',
+      content: 'inline*',
+      toDOM: () => ['p', 0],
+    },
+    code_block: {
+      group: 'block',
+      content: 'text*',
+      code: true,
+      attrs: { language: { default: '' } },
+      toDOM: () => ['pre', ['code', 0]],
+    },
+    text: { group: 'inline' },
+  },
+});
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function createView(
+  code: string,
+  language: string,
+  editable = true,
+): EditorView {
+  const doc = schema.node('doc', null, [
+    schema.node('code_block', { language }, [schema.text(code)]),
+    schema.node('paragraph'),
+  ]);
+  view = new EditorView(document.createElement('div'), {
+    state: EditorState.create({ schema, doc, plugins: [codeBlockPlugin()] }),
+    editable: () => editable,
+  });
+  return view;
+}
+
+function getSelect(view: EditorView): HTMLSelectElement {
+  return view.dom.querySelector('select.code-block-language')!;
+}
+
+describe('getHighlightRanges', () => {
+  it('finds tokens of known languages', () => {
+    const ranges = getHighlightRanges('const n = 1;', 'JavaScript');
+    expect(ranges).toContainEqual({
+      from: 0,
+      to: 5,
+      className: 'hljs-keyword',
+    });
+    expect(ranges).toContainEqual({
+      from: 10,
+      to: 11,
+      className: 'hljs-number',
+    });
+  });
+
+  it('accepts aliases', () => {
+    expect(getHighlightRanges('let x = 1', 'ts')).not.toEqual([]);
+  });
+
+  it('leaves plain text and unknown languages alone', () => {
+    expect(getHighlightRanges('const n = 1;', '')).toEqual([]);
+    expect(getHighlightRanges('const n = 1;', 'no-such-language')).toEqual([]);
+  });
+});
+
+describe('code block view', () => {
+  it('highlights the code', () => {
+    const view = createView('def run(): pass', 'python');
+    const keyword = view.dom.querySelector('.hljs-keyword');
+    expect(keyword?.textContent).toBe('def');
+  });
+
+  it('follows edits to the code', () => {
+    const view = createView('x', 'python');
+    view.dispatch(view.state.tr.insertText('return ', 1));
+    expect(view.dom.querySelector('.hljs-keyword')?.textContent).toBe('return');
+  });
+
+  it('changes the language with the picker', () => {
+    const view = createView('SELECT 1', '');
+    expect(view.dom.querySelector('.hljs-keyword')).toBeNull();
+
+    const select = getSelect(view);
+    select.value = 'sql';
+    select.dispatchEvent(new Event('change'));
+
+    expect(view.state.doc.firstChild?.attrs.language).toBe('sql');
+    expect(view.dom.querySelector('.hljs-keyword')?.textContent).toBe('SELECT');
+  });
+
+  it('keeps languages the picker does not offer', () => {
+    const view = createView('x', 'brainfuck');
+    expect(getSelect(view).value).toBe('brainfuck');
+  });
+
+  it('disables the picker in read-only editors', () => {
+    const view = createView('x', 'python', false);
+    expect(getSelect(view).disabled).toBe(true);
+    expect(getSelect(view).value).toBe('python');
+  });
+});
+
+describe('mermaid blocks', () => {
+  function getDiagram(view: EditorView): HTMLElement {
+    return view.dom.querySelector('.code-block-diagram')!;
+  }
+
+  it('draws the diagram in place of the source', async () => {
+    const view = createView('graph TD; A-->B', 'mermaid');
+    expect(renderMermaid).toHaveBeenCalledWith('graph TD; A-->B');
+    await vi.waitFor(() => {
+      expect(getDiagram(view).querySelector('svg.diagram')).not.toBeNull();
+    });
+    view.dispatch(
+      view.state.tr.setSelection(TextSelection.atEnd(view.state.doc)),
+    );
+    const block = view.dom.querySelector('.code-block')!;
+    expect(block.classList.contains('code-block-mermaid')).toBe(true);
+    expect(block.classList.contains('code-block-editing')).toBe(false);
+  });
+
+  it('shows render errors inside the block', async () => {
+    vi.mocked(renderMermaid).mockRejectedValueOnce(
+      new Error('Parse error on line 1'),
+    );
+    const view = createView('graph ??', 'mermaid');
+    await vi.waitFor(() => {
+      expect(getDiagram(view).textContent).toBe('Parse error on line 1');
+    });
+    expect(
+      getDiagram(view).classList.contains('code-block-diagram-error'),
+    ).toBe(true);
+  });
+
+  it('reveals the source when the diagram is clicked', () => {
+    const view = createView('graph TD; A-->B', 'mermaid');
+    getDiagram(view).dispatchEvent(
+      new MouseEvent('mousedown', { bubbles: true }),
+    );
+    expect(view.state.selection.$from.parent.type.name).toBe('code_block');
+    const block = view.dom.querySelector('.code-block')!;
+    expect(block.classList.contains('code-block-editing')).toBe(true);
+
+    view.dispatch(
+      view.state.tr.setSelection(TextSelection.atEnd(view.state.doc)),
+    );
+    expect(block.classList.contains('code-block-editing')).toBe(false);
+  });
+
+  it('draws again after typing pauses', async () => {
+    const view = createView('graph TD', 'mermaid');
+    view.dispatch(view.state.tr.insertText('; A-->B', 9));
+    await vi.waitFor(() => {
+      expect(renderMermaid).toHaveBeenLastCalledWith('graph TD; A-->B');
+    });
+  });
+
+  it('leaves other languages as code', () => {
+    const view = createView('x', 'python');
+    expect(getDiagram(view).hidden).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest';
+import { Schema } from '@milkdown/prose/model';
+import { EditorState, TextSelection } from '@milkdown/prose/state';
+import { EditorView } from '@milkdown/prose/view';
+import { ySyncPlugin } from 'y-prosemirror';
+import * as Y from 'yjs';
+import { getSelectionAnchor, getThreadRange } from '@/lib/milkdown-comments';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: {
+      group: 'block',
+      content: 'text*',
+      toDOM: () => ['p', 0],
+    },
+    text: {},
+  },
+});
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function createView(paragraphs: string[]): { view: EditorView; ydoc: Y.Doc } {
+  const ydoc = new Y.Doc();
+  const fragment = ydoc.getXmlFragment('prosemirror');
+  for (const text of paragraphs) {
+    const paragraph = new Y.XmlElement('paragraph');
+    const ytext = new Y.XmlText();
+    ytext.insert(0, text);
+    paragraph.insert(0, [ytext]);
+    fragment.insert(fragment.length, [paragraph]);
+  }
+
+  view = new EditorView(document.createElement('div'), {
+    state: EditorState.create({ schema, plugins: [ySyncPlugin(fragment)] }),
+  });
+  return { view, ydoc };
+}
+
+async function waitForSync(): Promise<void> {
+  // y-prosemirror renders the fragment in a timeout after the view is created
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function select(view: EditorView, from: number, to: number = from): void {
+  view.dispatch(
+    view.state.tr.setSelection(TextSelection.create(view.state.doc, from, to)),
+  );
+}
+
+describe('getSelectionAnchor', () => {
+  it('anchors to the selected text', async () => {
+    const { view, ydoc } = createView(['Hello world']);
+    await waitForSync();
+    select(view, 7, 12);
+
+    const anchor = getSelectionAnchor(view, ydoc);
+    expect(anchor?.quote).toBe('world');
+    expect(getThreadRange(view, ydoc, anchor!)).toEqual({ from: 7, to: 12 });
+  });
+
+  it('anchors to the whole block when nothing is selected', async () => {
+    const { view, ydoc } = createView(['First', 'Second block']);
+    await waitForSync();
+    select(view, 10);
+
+    const anchor = getSelectionAnchor(view, ydoc);
+    expect(anchor?.quote).toBe('Second block');
+    expect(getThreadRange(view, ydoc, anchor!)).toEqual({ from: 8, to: 20 });
+  });
+
+  it('returns null in an empty block', async () => {
+    const { view, ydoc } = createView(['']);
+    await waitForSync();
+    select(view, 1);
+
+    expect(getSelectionAnchor(view, ydoc)).toBeNull();
+  });
+});
+
+describe('getThreadRange', () => {
+  it('follows the text when it moves', async () => {
+    const { view, ydoc } = createView(['Hello world']);
+    await waitForSync();
+    select(view, 7, 12);
+    const anchor = getSelectionAnchor(view, ydoc)!;
+
+    view.dispatch(view.state.tr.insertText('Oh, ', 1));
+    expect(getThreadRange(view, ydoc, anchor)).toEqual({ from: 11, to: 16 });
+  });
+
+  it('returns null once the text is deleted', async () => {
+    const { view, ydoc } = createView(['Hello world']);
+    await waitForSync();
+    select(view, 7, 12);
+    const anchor = getSelectionAnchor(view, ydoc)!;
+
+    view.dispatch(view.state.tr.delete(6, 12));
+    expect(getThreadRange(view, ydoc, anchor)).toBeNull();
+  });
+});
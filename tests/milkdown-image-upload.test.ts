@@ -0,0 +1,160 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Schema, type Node } from '@milkdown/prose/model';
+import { EditorState, TextSelection } from '@milkdown/prose/state';
+import { EditorView } from '@milkdown/prose/view';
+import { imageUploadPlugin } from '@/lib/milkdown-image-upload';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { log: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: {
+      group: 'block',
+      content: 'inline*',
+      toDOM: () => ['p', 0],
+    },
+    image: {
+      group: 'inline',
+      inline: true,
+      attrs: { src: { default: '' }, alt: { default: '' } },
+      toDOM: (node) => ['img', node.attrs],
+    },
+    text: { group: 'inline' },
+  },
+});
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function createView(upload: (file: File) => Promise<string>): EditorView {
+  const doc = schema.node('doc', null, [
+    schema.node('paragraph', null, [schema.text('before after')]),
+  ]);
+  view = new EditorView(document.createElement('div'), {
+    state: EditorState.create({
+      schema,
+      doc,
+      plugins: [imageUploadPlugin(upload)],
+    }),
+  });
+  // Between "before" and " after"
+  view.dispatch(
+    view.state.tr.setSelection(TextSelection.create(view.state.doc, 7)),
+  );
+  return view;
+}
+
+function paste(view: EditorView, files: File[]): boolean {
+  const event = { clipboardData: { files } } as unknown as ClipboardEvent;
+  return (
+    view.someProp('handlePaste', (handle) =>
+      handle(view, event, view.state.doc.slice(0)),
+    ) ?? false
+  );
+}
+
+function findImage(doc: Node): Node | null {
+  let image: Node | null = null;
+  doc.descendants((node) => {
+    if (node.type.name === 'image') image = node;
+  });
+  return image;
+}
+
+const png = new File(['x'], 'diagram.png', { type: 'image/png' });
+
+describe('image upload', () => {
+  it('inserts the uploaded image where it was pasted', async () => {
+    let resolve!: (url: string) => void;
+    const upload = vi.fn(() => new Promise<string>((done) => (resolve = done)));
+    const view = createView(upload);
+
+    expect(paste(view, [png])).toBe(true);
+    expect(upload).toHaveBeenCalledWith(png);
+    expect(view.dom.querySelector('.image-upload-placeholder')).not.toBeNull();
+
+    // Edits made while uploading move the placeholder
+    view.dispatch(view.state.tr.insertText('new ', 1));
+    resolve('/api/attachments/x');
+
+    await vi.waitFor(() => {
+      expect(findImage(view.state.doc)?.attrs).toEqual({
+        src: '/api/attachments/x',
+        alt: 'diagram.png',
+      });
+    });
+    expect(view.state.doc.textContent).toBe('new before after');
+    expect(view.state.doc.firstChild?.child(1).type.name).toBe('image');
+    expect(view.dom.querySelector('.image-upload-placeholder')).toBeNull();
+  });
+
+  it('shows a message in place of the image when the upload fails', async () => {
+    vi.useFakeTimers();
+    try {
+      const view = createView(() => Promise.reject(new Error('413')));
+      paste(view, [png]);
+      await vi.waitFor(() => {
+        expect(view.dom.querySelector('.image-upload-error')?.textContent).toBe(
+          '画像をアップロードできませんでした',
+        );
+      });
+      expect(findImage(view.state.doc)).toBeNull();
+
+      vi.advanceTimersByTime(5000);
+      expect(view.dom.querySelector('.image-upload-placeholder')).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not upload image types the server refuses', () => {
+    const upload = vi.fn(async () => '');
+    const view = createView(upload);
+    const svg = new File(['<svg/>'], 'logo.svg', { type: 'image/svg+xml' });
+
+    expect(paste(view, [svg])).toBe(true);
+    expect(upload).not.toHaveBeenCalled();
+    expect(view.dom.querySelector('.image-upload-error')?.textContent).toBe(
+      'この形式の画像は貼り付けられません',
+    );
+  });
+
+  it('does nothing when the editor is closed while uploading', async () => {
+    let resolve!: (url: string) => void;
+    let reject!: (error: Error) => void;
+    const uploads = [
+      new Promise<string>((done) => (resolve = done)),
+      new Promise<string>((_, fail) => (reject = fail)),
+    ];
+    const upload = vi.fn(() => uploads[upload.mock.calls.length - 1]);
+    const closed = createView(upload);
+    paste(closed, [png, png]);
+    const dispatch = vi.spyOn(closed, 'dispatch');
+    closed.destroy();
+    view = null;
+
+    resolve('/api/attachments/x');
+    reject(new Error('offline'));
+    await Promise.allSettled(uploads);
+    await new Promise((done) => setTimeout(done, 0));
+
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it('leaves pastes without images to the editor', () => {
+    const upload = vi.fn(async () => '');
+    const view = createView(upload);
+    const text = new File(['x'], 'notes.txt', { type: 'text/plain' });
+    expect(paste(view, [text])).toBe(false);
+    expect(paste(view, [])).toBe(false);
+    expect(upload).not.toHaveBeenCalled();
+  });
+});
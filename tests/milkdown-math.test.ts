@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest';
+import { inputRules } from '@milkdown/prose/inputrules';
+import { Schema, type Node } from '@milkdown/prose/model';
+import { EditorState, TextSelection } from '@milkdown/prose/state';
+import { EditorView } from '@milkdown/prose/view';
+import { inlineMathRule, mathPlugin } from '@/lib/milkdown-math';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: {
+      group: 'block',
+      content: 'inline*',
+      toDOM: () => ['p', 0],
+    },
+    math_block: {
+      group: 'block',
+      content: 'text*',
+      marks: '',
+      code: true,
+      toDOM: () => ['div', 0],
+    },
+    math_inline: {
+      group: 'inline',
+      inline: true,
+      content: 'text*',
+      marks: '',
+      code: true,
+      toDOM: () => ['span', 0],
+    },
+    text: { group: 'inline' },
+  },
+});
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function createView(content: Node[], editable = true): EditorView {
+  view = new EditorView(
+    document.body.appendChild(document.createElement('div')),
+    {
+      state: EditorState.create({
+        schema,
+        doc: schema.node('doc', null, content),
+        plugins: [mathPlugin(), inputRules({ rules: [inlineMathRule()] })],
+      }),
+      editable: () => editable,
+    },
+  );
+  return view;
+}
+
+function paragraph(...content: Node[]): Node {
+  return schema.node('paragraph', null, content);
+}
+
+function inlineMath(tex: string): Node {
+  return schema.node('math_inline', null, tex ? [schema.text(tex)] : []);
+}
+
+function type(view: EditorView, text: string): void {
+  for (const char of text) {
+    const { from, to } = view.state.selection;
+    const handled = view.someProp('handleTextInput', (f) =>
+      f(view, from, to, char, () => view.state.tr.insertText(char, from, to)),
+    );
+    if (!handled) view.dispatch(view.state.tr.insertText(char, from, to));
+  }
+}
+
+describe('math view', () => {
+  it('renders formulas with KaTeX', () => {
+    const view = createView([
+      paragraph(schema.text('Area: '), inlineMath('\\pi r^2')),
+      schema.node('math_block', null, [schema.text('\\sum_i x_i')]),
+    ]);
+    expect(view.dom.querySelector('.math-inline .katex')).not.toBeNull();
+    expect(view.dom.querySelector('.math-block .katex-display')).not.toBeNull();
+  });
+
+  it('shows invalid formulas without throwing', () => {
+    const view = createView([paragraph(inlineMath('\\frac{'))]);
+    expect(view.dom.querySelector('.katex-error')).not.toBeNull();
+  });
+
+  it('shows a placeholder for empty formulas', () => {
+    const view = createView([paragraph(inlineMath(''))]);
+    expect(view.dom.querySelector('.math-preview')?.textContent).toBe('数式');
+  });
+
+  it('shows the source while the cursor is inside', () => {
+    const view = createView([paragraph(schema.text('x '), inlineMath('a'))]);
+    const math = view.dom.querySelector('.math-inline')!;
+    expect(math.classList.contains('math-editing')).toBe(false);
+
+    view.dispatch(
+      view.state.tr.setSelection(TextSelection.create(view.state.doc, 5)),
+    );
+    expect(math.classList.contains('math-editing')).toBe(true);
+  });
+
+  it('edits the source when the rendered formula is clicked', () => {
+    const view = createView([paragraph(inlineMath('a+b'))]);
+    view.dom
+      .querySelector('.math-preview')!
+      .dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+    const { $from } = view.state.selection;
+    expect($from.parent.type.name).toBe('math_inline');
+    expect($from.parentOffset).toBe(3);
+  });
+
+  it('re-renders when the source changes', () => {
+    const view = createView([paragraph(inlineMath('a'))]);
+    view.dispatch(view.state.tr.insertText('^2', 3));
+    expect(
+      view.dom.querySelector('.math-preview annotation')?.textContent,
+    ).toBe('a^2');
+  });
+
+  it('stays rendered in read-only editors', () => {
+    const view = createView([paragraph(inlineMath('a'))], false);
+    view.dom
+      .querySelector('.math-preview')!
+      .dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+    expect(view.state.selection.$from.parent.type.name).toBe('paragraph');
+  });
+});
+
+describe('inlineMathRule', () => {
+  it('turns $formula$ into an inline formula', () => {
+    const view = createView([paragraph()]);
+    type(view, 'so $x^2$');
+    const node = view.state.doc.firstChild!;
+    expect(node.textContent).toBe('so x^2');
+    expect(node.lastChild?.type.name).toBe('math_inline');
+    expect(node.lastChild?.textContent).toBe('x^2');
+  });
+
+  it('leaves prices alone', () => {
+    const view = createView([paragraph()]);
+    type(view, '$5 and $');
+    expect(view.state.doc.firstChild?.childCount).toBe(1);
+  });
+});
@@ -0,0 +1,210 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest';
+import { Schema } from '@milkdown/prose/model';
+import { EditorState, TextSelection } from '@milkdown/prose/state';
+import { EditorView } from '@milkdown/prose/view';
+import {
+  findPageLinkQuery,
+  matchPages,
+  pageLinkPlugin,
+  setPageLinkPages,
+} from '@/lib/milkdown-page-links';
+import type { PageListItem } from '@/lib/types';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: {
+      group: 'block',
+      content: 'inline*',
+      toDOM: () => ['p', 0],
+    },
+    code_block: {
+      group: 'block',
+      content: 'text*',
+      code: true,
+      toDOM: () => ['pre', 0],
+    },
+    text: { group: 'inline' },
+    page_link: {
+      group: 'inline',
+      inline: true,
+      atom: true,
+      attrs: { pageId: { default: '' }, title: { default: '' } },
+      toDOM: (node) => ['a', { 'data-page-link': node.attrs.pageId }],
+    },
+  },
+});
+
+function page(id: string, title: string): PageListItem {
+  return { id, title, created_at: 0, updated_at: 0 };
+}
+
+const pages = [
+  page('a', 'Roadmap'),
+  page('b', 'Meeting notes'),
+  page('c', 'Product roadmap'),
+];
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function createView(text = ''): EditorView {
+  const doc = schema.node('doc', null, [
+    schema.node('paragraph', null, text ? [schema.text(text)] : []),
+  ]);
+  view = new EditorView(
+    document.body.appendChild(document.createElement('div')),
+    {
+      state: EditorState.create({ schema, doc, plugins: [pageLinkPlugin()] }),
+    },
+  );
+  // coordsAtPos needs layout, which jsdom does not have
+  view.coordsAtPos = () => ({ left: 0, right: 0, top: 0, bottom: 0 });
+  return view;
+}
+
+function type(view: EditorView, text: string): void {
+  const { from, to } = view.state.selection;
+  view.dispatch(view.state.tr.insertText(text, from, to));
+}
+
+function pressKey(view: EditorView, key: string): boolean {
+  const event = new KeyboardEvent('keydown', { key });
+  return !!view.someProp('handleKeyDown', (f) => f(view, event));
+}
+
+function getMenuItems(): string[] {
+  const menu = document.querySelector<HTMLElement>('.page-link-menu');
+  if (!menu || menu.hidden) return [];
+  return [...menu.querySelectorAll('[role="option"]')].map(
+    (item) => item.textContent ?? '',
+  );
+}
+
+describe('findPageLinkQuery', () => {
+  it('finds the text typed after [[', () => {
+    const view = createView('See [[road');
+    view.dispatch(
+      view.state.tr.setSelection(TextSelection.atEnd(view.state.doc)),
+    );
+    expect(findPageLinkQuery(view.state)).toEqual({
+      from: 5,
+      to: 11,
+      query: 'road',
+    });
+  });
+
+  it('ignores closed links and code blocks', () => {
+    const view = createView('See [[road]]');
+    view.dispatch(
+      view.state.tr.setSelection(TextSelection.atEnd(view.state.doc)),
+    );
+    expect(findPageLinkQuery(view.state)).toBeNull();
+
+    const code = EditorState.create({
+      schema,
+      doc: schema.node('doc', null, [
+        schema.node('code_block', null, [schema.text('[[road')]),
+      ]),
+    });
+    expect(
+      findPageLinkQuery(
+        code.apply(code.tr.setSelection(TextSelection.atEnd(code.doc))),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('matchPages', () => {
+  it('puts titles starting with the query first', () => {
+    expect(matchPages(pages, 'ROAD').map((p) => p.id)).toEqual(['a', 'c']);
+  });
+
+  it('lists every page for an empty query', () => {
+    expect(matchPages(pages, '')).toHaveLength(3);
+  });
+});
+
+describe('page link autocomplete', () => {
+  it('shows matching pages after [[', () => {
+    const view = createView();
+    setPageLinkPages(view, pages);
+    type(view, '[[meet');
+    expect(getMenuItems()).toEqual(['Meeting notes']);
+  });
+
+  it('inserts a link to the chosen page', () => {
+    const view = createView();
+    setPageLinkPages(view, pages);
+    type(view, 'See [[road');
+    pressKey(view, 'ArrowDown');
+    expect(pressKey(view, 'Enter')).toBe(true);
+
+    const paragraph = view.state.doc.firstChild!;
+    expect(paragraph.textContent).toBe('See ');
+    expect(paragraph.lastChild?.type.name).toBe('page_link');
+    expect(paragraph.lastChild?.attrs).toEqual({
+      pageId: 'c',
+      title: 'Product roadmap',
+    });
+    expect(getMenuItems()).toEqual([]);
+  });
+
+  it('closes with Escape until a new [[ is typed', () => {
+    const view = createView();
+    setPageLinkPages(view, pages);
+    type(view, '[[road');
+    expect(pressKey(view, 'Escape')).toBe(true);
+    expect(getMenuItems()).toEqual([]);
+
+    type(view, 'm');
+    expect(getMenuItems()).toEqual([]);
+    type(view, ' [[meet');
+    expect(getMenuItems()).toEqual(['Meeting notes']);
+  });
+
+  it('leaves keys alone without matches', () => {
+    const view = createView();
+    setPageLinkPages(view, pages);
+    type(view, '[[nothing');
+    expect(pressKey(view, 'Enter')).toBe(false);
+  });
+});
+
+describe('page link rendering', () => {
+  function createLinkView(): EditorView {
+    const doc = schema.node('doc', null, [
+      schema.node('paragraph', null, [
+        schema.nodes.page_link.create({ pageId: 'a', title: 'Old title' }),
+      ]),
+    ]);
+    view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({ schema, doc, plugins: [pageLinkPlugin()] }),
+    });
+    return view;
+  }
+
+  it('shows the current title of the page', () => {
+    const view = createLinkView();
+    const link = view.dom.querySelector('a.page-link')!;
+    expect(link.textContent).toBe('Old title');
+    expect(link.getAttribute('href')).toBe('/p/a');
+
+    setPageLinkPages(view, [page('a', 'Renamed')]);
+    expect(link.textContent).toBe('Renamed');
+    expect(link.classList.contains('page-link-missing')).toBe(false);
+  });
+
+  it('marks links to pages that are gone', () => {
+    const view = createLinkView();
+    setPageLinkPages(view, []);
+    const link = view.dom.querySelector('a.page-link')!;
+    expect(link.textContent).toBe('Old title');
+    expect(link.classList.contains('page-link-missing')).toBe(true);
+  });
+});
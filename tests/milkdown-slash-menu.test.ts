@@ -0,0 +1,260 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest';
+import { Schema, type NodeSpec } from '@milkdown/prose/model';
+import { EditorState, TextSelection } from '@milkdown/prose/state';
+import { EditorView } from '@milkdown/prose/view';
+import {
+  findSlashQuery,
+  matchSlashCommands,
+  SLASH_COMMANDS,
+  slashMenuPlugin,
+} from '@/lib/milkdown-slash-menu';
+
+const block = (spec: NodeSpec): NodeSpec => ({ group: 'block', ...spec });
+
+const nodes: Record<string, NodeSpec> = {
+  doc: { content: 'block+' },
+  paragraph: block({ content: 'inline*', toDOM: () => ['p', 0] }),
+  heading: block({
+    content: 'inline*',
+    attrs: { level: { default: 1 } },
+    toDOM: (node) => [`h${node.attrs.level}`, 0],
+  }),
+  blockquote: block({ content: 'block+', toDOM: () => ['blockquote', 0] }),
+  code_block: block({
+    content: 'text*',
+    code: true,
+    toDOM: () => ['pre', 0],
+  }),
+  math_block: block({
+    content: 'text*',
+    code: true,
+    toDOM: () => ['div', 0],
+  }),
+  hr: block({ toDOM: () => ['hr'] }),
+  bullet_list: block({ content: 'list_item+', toDOM: () => ['ul', 0] }),
+  ordered_list: block({ content: 'list_item+', toDOM: () => ['ol', 0] }),
+  list_item: {
+    content: 'paragraph block*',
+    attrs: { checked: { default: null } },
+    toDOM: () => ['li', 0],
+  },
+  table: block({
+    content: 'table_header_row table_row*',
+    toDOM: () => ['table', 0],
+  }),
+  table_header_row: { content: 'table_header+', toDOM: () => ['tr', 0] },
+  table_row: { content: 'table_cell+', toDOM: () => ['tr', 0] },
+  table_header: { content: 'paragraph', toDOM: () => ['th', 0] },
+  table_cell: { content: 'paragraph', toDOM: () => ['td', 0] },
+  text: { group: 'inline' },
+};
+
+const schema = new Schema({ nodes });
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function createView(text = '', viewSchema = schema): EditorView {
+  const doc = viewSchema.node('doc', null, [
+    viewSchema.node('paragraph', null, text ? [viewSchema.text(text)] : []),
+  ]);
+  view = new EditorView(
+    document.body.appendChild(document.createElement('div')),
+    {
+      state: EditorState.create({
+        schema: viewSchema,
+        doc,
+        plugins: [slashMenuPlugin()],
+      }),
+    },
+  );
+  // coordsAtPos needs layout, which jsdom does not have
+  view.coordsAtPos = () => ({ left: 0, right: 0, top: 0, bottom: 0 });
+  view.dispatch(
+    view.state.tr.setSelection(TextSelection.atEnd(view.state.doc)),
+  );
+  return view;
+}
+
+function type(view: EditorView, text: string): void {
+  const { from, to } = view.state.selection;
+  view.dispatch(view.state.tr.insertText(text, from, to));
+}
+
+function pressKey(view: EditorView, key: string): boolean {
+  const event = new KeyboardEvent('keydown', { key });
+  return !!view.someProp('handleKeyDown', (f) => f(view, event));
+}
+
+function getMenuItems(): string[] {
+  const menu = document.querySelector<HTMLElement>('.slash-menu');
+  if (!menu || menu.hidden) return [];
+  return [...menu.querySelectorAll('[role="option"] span:first-child')].map(
+    (item) => item.textContent ?? '',
+  );
+}
+
+function getBlocks(view: EditorView): string[] {
+  const names: string[] = [];
+  view.state.doc.forEach((node) => names.push(node.type.name));
+  return names;
+}
+
+describe('findSlashQuery', () => {
+  it('finds / at the start of a line or after a space', () => {
+    expect(findSlashQuery(createView('/tab').state)).toEqual({
+      from: 1,
+      to: 5,
+      query: 'tab',
+    });
+    view?.destroy();
+    expect(findSlashQuery(createView('Notes /tab').state)).toEqual({
+      from: 7,
+      to: 11,
+      query: 'tab',
+    });
+  });
+
+  it('ignores / inside words and paths', () => {
+    expect(findSlashQuery(createView('and/or').state)).toBeNull();
+    view?.destroy();
+    expect(findSlashQuery(createView('/usr/bin').state)).toBeNull();
+  });
+});
+
+describe('matchSlashCommands', () => {
+  it('matches labels and keywords', () => {
+    expect(
+      matchSlashCommands(SLASH_COMMANDS, 'TABLE').map((c) => c.id),
+    ).toEqual(['table']);
+    expect(matchSlashCommands(SLASH_COMMANDS, '見出し')).toHaveLength(3);
+    expect(matchSlashCommands(SLASH_COMMANDS, '')).toEqual(SLASH_COMMANDS);
+  });
+});
+
+describe('slash menu', () => {
+  it('lists the block types of the schema', () => {
+    const view = createView();
+    type(view, '/');
+    expect(getMenuItems()).toEqual(SLASH_COMMANDS.map((c) => c.label));
+
+    const plain = new Schema({
+      nodes: Object.fromEntries(
+        Object.entries(nodes).filter(([name]) => name !== 'table'),
+      ),
+    });
+    view.destroy();
+    const plainView = createView('', plain);
+    type(plainView, '/');
+    expect(getMenuItems()).not.toContain('表');
+  });
+
+  it('filters as you type', () => {
+    const view = createView();
+    type(view, '/li');
+    expect(getMenuItems()).toEqual([
+      '箇条書きリスト',
+      '番号付きリスト',
+      'タスクリスト',
+      '区切り線',
+    ]);
+  });
+
+  it('turns an empty line into the chosen block', () => {
+    const view = createView();
+    type(view, '/table');
+    expect(pressKey(view, 'Enter')).toBe(true);
+
+    expect(getBlocks(view)).toEqual(['table']);
+    const table = view.state.doc.firstChild!;
+    expect(table.childCount).toBe(3);
+    expect(table.firstChild?.childCount).toBe(3);
+    // The cursor is in the first header cell
+    expect(view.state.selection.$from.node(-1).type.name).toBe('table_header');
+    expect(getMenuItems()).toEqual([]);
+  });
+
+  it('adds the block below a line with text', () => {
+    const view = createView('Notes ');
+    type(view, '/');
+    pressKey(view, 'ArrowDown');
+    pressKey(view, 'Enter');
+
+    expect(getBlocks(view)).toEqual(['paragraph', 'heading']);
+    expect(view.state.doc.firstChild?.textContent).toBe('Notes ');
+    expect(view.state.doc.lastChild?.attrs.level).toBe(2);
+    expect(view.state.selection.$from.parent.type.name).toBe('heading');
+  });
+
+  it('inserts task lists', () => {
+    const view = createView();
+    type(view, '/task');
+    pressKey(view, 'Tab');
+    expect(getBlocks(view)).toEqual(['bullet_list']);
+    expect(view.state.doc.firstChild?.firstChild?.attrs.checked).toBe(false);
+  });
+
+  it('follows dividers with a line to continue on', () => {
+    const view = createView();
+    type(view, '/hr');
+    pressKey(view, 'Enter');
+    expect(getBlocks(view)).toEqual(['hr', 'paragraph']);
+    expect(view.state.selection.$from.parent.type.name).toBe('paragraph');
+  });
+
+  it('adds blocks that cannot replace the line below it', () => {
+    const view = createView();
+    type(view, '/task');
+    pressKey(view, 'Enter');
+    // A list item starts with a paragraph
+    type(view, '/quote');
+    pressKey(view, 'Enter');
+    const item = view.state.doc.firstChild!.firstChild!;
+    expect(item.content.content.map((node) => node.type.name)).toEqual([
+      'paragraph',
+      'blockquote',
+    ]);
+  });
+
+  it('wraps around with the arrow keys', () => {
+    const view = createView();
+    type(view, '/h');
+    pressKey(view, 'ArrowUp');
+    const selected = document.querySelector(
+      '.slash-menu [aria-selected="true"]',
+    );
+    expect(selected?.textContent).toContain('区切り線');
+  });
+
+  it('closes with Escape until a new / is typed', () => {
+    const view = createView();
+    type(view, '/ta');
+    expect(pressKey(view, 'Escape')).toBe(true);
+    expect(getMenuItems()).toEqual([]);
+    type(view, 'b');
+    expect(getMenuItems()).toEqual([]);
+
+    type(view, ' /tab');
+    expect(getMenuItems()).toEqual(['表']);
+  });
+
+  it('leaves keys alone without matches', () => {
+    const view = createView();
+    type(view, '/nothing');
+    expect(pressKey(view, 'Enter')).toBe(false);
+  });
+
+  it('does not open in code blocks', () => {
+    const view = createView();
+    type(view, '/code');
+    pressKey(view, 'Enter');
+    expect(getBlocks(view)).toEqual(['code_block']);
+    type(view, '/');
+    expect(getMenuItems()).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest';
+import { Schema } from '@milkdown/prose/model';
+import { EditorState, TextSelection } from '@milkdown/prose/state';
+import { EditorView } from '@milkdown/prose/view';
+import {
+  acceptSuggestion,
+  listSuggestions,
+  rejectSuggestion,
+  setSuggestionMode,
+  suggestionPlugin,
+} from '@/lib/milkdown-suggestions';
+
+const suggestionAttrs = {
+  id: { default: '' },
+  author: { default: '' },
+  createdAt: { default: 0 },
+};
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: {
+      group: 'block',
+      content: 'text*',
+      toDOM: () => ['p', 0],
+    },
+    code_block: {
+      group: 'block',
+      content: 'text*',
+      marks: '',
+      toDOM: () => ['pre', 0],
+    },
+    text: {},
+  },
+  marks: {
+    suggestion_insert: {
+      attrs: suggestionAttrs,
+      inclusive: false,
+      toDOM: () => ['ins', 0],
+    },
+    suggestion_delete: {
+      attrs: suggestionAttrs,
+      inclusive: false,
+      toDOM: () => ['del', 0],
+    },
+  },
+});
+
+let view: EditorView | null = null;
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+function createView(text: string, author = 'Alice'): EditorView {
+  const doc = schema.node('doc', null, [
+    schema.node('paragraph', null, text ? [schema.text(text)] : []),
+  ]);
+  view = new EditorView(document.createElement('div'), {
+    state: EditorState.create({ schema, doc, plugins: [suggestionPlugin] }),
+  });
+  setSuggestionMode(view, true, author);
+  return view;
+}
+
+function select(view: EditorView, from: number, to: number = from): void {
+  view.dispatch(
+    view.state.tr.setSelection(TextSelection.create(view.state.doc, from, to)),
+  );
+}
+
+function type(view: EditorView, text: string): void {
+  const { from, to } = view.state.selection;
+  view.dispatch(view.state.tr.insertText(text, from, to));
+}
+
+function backspace(view: EditorView): void {
+  const { head } = view.state.selection;
+  view.dispatch(view.state.tr.delete(head - 1, head));
+}
+
+describe('suggestion mode', () => {
+  it('marks typed text as a suggested insertion', () => {
+    const view = createView('Hello');
+    select(view, 6);
+    type(view, ' w');
+    type(view, 'orld');
+
+    expect(view.state.doc.textContent).toBe('Hello world');
+    const suggestions = listSuggestions(view.state.doc);
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({
+      author: 'Alice',
+      inserted: ' world',
+      deleted: '',
+      from: 6,
+    });
+  });
+
+  it('keeps deleted text as a suggested deletion', () => {
+    const view = createView('Hello world');
+    select(view, 12);
+    backspace(view);
+    backspace(view);
+
+    expect(view.state.doc.textContent).toBe('Hello world');
+    expect(view.state.selection.head).toBe(10);
+    const suggestions = listSuggestions(view.state.doc);
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ inserted: '', deleted: 'ld' });
+  });
+
+  it('records a replacement as one suggestion', () => {
+    const view = createView('Hello world');
+    select(view, 7, 12);
+    type(view, 'there');
+
+    expect(view.state.doc.textContent).toBe('Hello worldthere');
+    expect(listSuggestions(view.state.doc)).toMatchObject([
+      { inserted: 'there', deleted: 'world' },
+    ]);
+  });
+
+  it('removes the author’s own suggested text outright', () => {
+    const view = createView('Hello');
+    select(view, 6);
+    type(view, '!!');
+    backspace(view);
+
+    expect(view.state.doc.textContent).toBe('Hello!');
+    expect(listSuggestions(view.state.doc)).toMatchObject([
+      { inserted: '!', deleted: '' },
+    ]);
+  });
+
+  it('leaves edits alone when turned off', () => {
+    const view = createView('Hello');
+    setSuggestionMode(view, false, 'Alice');
+    select(view, 6);
+    type(view, '!');
+
+    expect(view.state.doc.textContent).toBe('Hello!');
+    expect(listSuggestions(view.state.doc)).toEqual([]);
+  });
+
+  it('refuses edits in blocks that cannot hold marks', () => {
+    const doc = schema.node('doc', null, [
+      schema.node('code_block', null, [schema.text('let a')]),
+    ]);
+    view = new EditorView(document.createElement('div'), {
+      state: EditorState.create({ schema, doc, plugins: [suggestionPlugin] }),
+    });
+    setSuggestionMode(view, true, 'Alice');
+    select(view, 6);
+    backspace(view);
+    type(view, 'b');
+
+    expect(view.state.doc.textContent).toBe('let a');
+  });
+
+  it('refuses splitting and joining blocks', () => {
+    const view = createView('Hello world');
+    view.dispatch(view.state.tr.split(6));
+    expect(view.state.doc.childCount).toBe(1);
+
+    setSuggestionMode(view, false, 'Alice');
+    view.dispatch(view.state.tr.split(6));
+    setSuggestionMode(view, true, 'Alice');
+    // Backspace at the start of the second paragraph
+    view.dispatch(view.state.tr.delete(7, 9));
+    expect(view.state.doc.childCount).toBe(2);
+    expect(listSuggestions(view.state.doc)).toEqual([]);
+  });
+
+  it('refuses formatting changes', () => {
+    const view = createView('Hello');
+    const mark = schema.marks.suggestion_insert.create({ id: 'x' });
+    view.dispatch(view.state.tr.addMark(1, 3, mark));
+    expect(listSuggestions(view.state.doc)).toEqual([]);
+  });
+});
+
+describe('acceptSuggestion / rejectSuggestion', () => {
+  function suggestReplacement(): EditorView {
+    const view = createView('Hello world');
+    select(view, 7, 12);
+    type(view, 'there');
+    setSuggestionMode(view, false, 'Alice');
+    return view;
+  }
+
+  it('accepting applies the change', () => {
+    const view = suggestReplacement();
+    const [suggestion] = listSuggestions(view.state.doc);
+
+    expect(acceptSuggestion(view, suggestion.id)).toBe(true);
+    expect(view.state.doc.textContent).toBe('Hello there');
+    expect(listSuggestions(view.state.doc)).toEqual([]);
+  });
+
+  it('rejecting restores the original text', () => {
+    const view = suggestReplacement();
+    const [suggestion] = listSuggestions(view.state.doc);
+
+    expect(rejectSuggestion(view, suggestion.id)).toBe(true);
+    expect(view.state.doc.textContent).toBe('Hello world');
+    expect(listSuggestions(view.state.doc)).toEqual([]);
+  });
+
+  it('is not recorded as a new suggestion in suggestion mode', () => {
+    const view = suggestReplacement();
+    setSuggestionMode(view, true, 'Alice');
+    const [suggestion] = listSuggestions(view.state.doc);
+
+    acceptSuggestion(view, suggestion.id);
+    expect(view.state.doc.textContent).toBe('Hello there');
+    expect(listSuggestions(view.state.doc)).toEqual([]);
+  });
+
+  it('returns false for an unknown suggestion', () => {
+    const view = suggestReplacement();
+    expect(acceptSuggestion(view, 'missing')).toBe(false);
+    expect(rejectSuggestion(view, 'missing')).toBe(false);
+  });
+});
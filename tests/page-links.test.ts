@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createTestDb, insertPage } from './helpers/db';
+import {
+  backfillPageLinks,
+  extractLinkedPageIds,
+  getLinkedPageId,
+  listBacklinks,
+  updatePageLinks,
+} from '../server/page-links';
+import { deletePage } from '../server/delete-page';
+import { cleanupOldArchives } from '../server/cleanup-archives';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+function getTargets(sourceId: string): string[] {
+  return (
+    db
+      .prepare(
+        'SELECT target_id FROM page_links WHERE source_id = ? ORDER BY target_id',
+      )
+      .all(sourceId) as Array<{ target_id: string }>
+  ).map((row) => row.target_id);
+}
+
+describe('getLinkedPageId', () => {
+  it('accepts page paths and full URLs', () => {
+    expect(getLinkedPageId('/p/abc')).toBe('abc');
+    expect(getLinkedPageId('/p/abc/')).toBe('abc');
+    expect(getLinkedPageId('https://board.example/p/abc#top')).toBe('abc');
+  });
+
+  it('ignores other links', () => {
+    expect(getLinkedPageId('/share/abc')).toBeNull();
+    expect(getLinkedPageId('/p/abc/versions')).toBeNull();
+    expect(getLinkedPageId('https://example.com')).toBeNull();
+  });
+});
+
+describe('extractLinkedPageIds', () => {
+  it('collects page link nodes and links to pages', () => {
+    const json = {
+      type: 'doc',
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'page_link', attrs: { pageId: 'a', title: 'A' } },
+            {
+              type: 'text',
+              text: 'B',
+              marks: [{ type: 'link', attrs: { href: '/p/b' } }],
+            },
+            {
+              type: 'text',
+              text: 'elsewhere',
+              marks: [{ type: 'link', attrs: { href: 'https://example.com' } }],
+            },
+            { type: 'page_link', attrs: { pageId: 'a', title: 'A' } },
+          ],
+        },
+      ],
+    };
+    expect(extractLinkedPageIds(json)).toEqual(['a', 'b']);
+  });
+});
+
+describe('updatePageLinks', () => {
+  beforeEach(() => {
+    insertPage(db, { id: 'source' });
+    insertPage(db, { id: 'a' });
+    insertPage(db, { id: 'b' });
+  });
+
+  it('replaces the links of a page', () => {
+    updatePageLinks(db, 'source', ['a', 'b']);
+    expect(getTargets('source')).toEqual(['a', 'b']);
+
+    updatePageLinks(db, 'source', ['b']);
+    expect(getTargets('source')).toEqual(['b']);
+  });
+
+  it('skips links to itself and to missing pages', () => {
+    updatePageLinks(db, 'source', ['source', 'missing', 'a']);
+    expect(getTargets('source')).toEqual(['a']);
+  });
+});
+
+describe('listBacklinks', () => {
+  it('lists linking pages, most recently updated first', () => {
+    insertPage(db, { id: 'target', title: 'Target' });
+    insertPage(db, { id: 'old', title: 'Old', updated_at: 1000 });
+    insertPage(db, { id: 'new', title: 'New', updated_at: 2000 });
+    updatePageLinks(db, 'old', ['target']);
+    updatePageLinks(db, 'new', ['target']);
+
+    expect(listBacklinks(db, 'target')).toEqual([
+      { id: 'new', title: 'New', updated_at: 2000 },
+      { id: 'old', title: 'Old', updated_at: 1000 },
+    ]);
+  });
+
+  it('leaves out archived pages', () => {
+    insertPage(db, { id: 'target' });
+    insertPage(db, { id: 'archived', archived_at: Date.now() });
+    updatePageLinks(db, 'archived', ['target']);
+
+    expect(listBacklinks(db, 'target')).toEqual([]);
+  });
+});
+
+describe('removing pages', () => {
+  beforeEach(() => {
+    insertPage(db, { id: 'a' });
+    insertPage(db, { id: 'b' });
+    updatePageLinks(db, 'a', ['b']);
+    updatePageLinks(db, 'b', ['a']);
+  });
+
+  it('removes links from and to a deleted page', () => {
+    deletePage(db, 'b');
+    expect(getTargets('a')).toEqual([]);
+    expect(getTargets('b')).toEqual([]);
+  });
+
+  it('prunes links of archives removed by cleanup', () => {
+    db.prepare('UPDATE pages SET archived_at = ? WHERE id = ?').run(
+      Date.now() - 31 * 24 * 60 * 60 * 1000,
+      'b',
+    );
+    expect(cleanupOldArchives(db)).toBe(1);
+    expect(getTargets('a')).toEqual([]);
+    expect(listBacklinks(db, 'a')).toEqual([]);
+  });
+});
+
+describe('backfillPageLinks', () => {
+  it('records the links of every page once', () => {
+    insertPage(db, { id: 'a' });
+    insertPage(db, { id: 'b' });
+    const docs: Record<string, Record<string, unknown>> = {
+      a: {
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [{ type: 'page_link', attrs: { pageId: 'b' } }],
+          },
+        ],
+      },
+      b: { type: 'doc', content: [] },
+    };
+
+    expect(backfillPageLinks(db, (id) => docs[id])).toBe(2);
+    expect(getTargets('a')).toEqual(['b']);
+
+    db.prepare('DELETE FROM page_links').run();
+    expect(backfillPageLinks(db, (id) => docs[id])).toBe(0);
+    expect(getTargets('a')).toEqual([]);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createTestDb, insertPage } from './helpers/db';
+import {
+  backfillSearchIndex,
+  buildSnippet,
+  extractPlainTextFromProsemirrorJSON,
+  indexPageText,
+  searchPages,
+} from '../server/page-search';
+import { deletePage } from '../server/delete-page';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+describe('extractPlainTextFromProsemirrorJSON', () => {
+  it('separates block nodes with newlines', () => {
+    const json = {
+      type: 'doc',
+      content: [
+        {
+          type: 'heading',
+          attrs: { level: 1 },
+          content: [{ type: 'text', text: 'Title' }],
+        },
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Hello ' },
+            { type: 'text', text: 'world', marks: [{ type: 'strong' }] },
+          ],
+        },
+        {
+          type: 'bullet_list',
+          content: [
+            {
+              type: 'list_item',
+              content: [
+                { type: 'paragraph', content: [{ type: 'text', text: 'One' }] },
+              ],
+            },
+            {
+              type: 'list_item',
+              content: [
+                { type: 'paragraph', content: [{ type: 'text', text: 'Two' }] },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(extractPlainTextFromProsemirrorJSON(json)).toBe(
+      'Title\nHello world\nOne\nTwo',
+    );
+  });
+
+  it('returns an empty string for an empty document', () => {
+    expect(extractPlainTextFromProsemirrorJSON({ type: 'doc' })).toBe('');
+  });
+
+  it('leaves out suggested insertions', () => {
+    const json = {
+      type: 'doc',
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'Meet on ' },
+            {
+              type: 'text',
+              text: 'Friday',
+              marks: [{ type: 'suggestion_insert', attrs: { id: 'a' } }],
+            },
+            {
+              type: 'text',
+              text: 'Monday',
+              marks: [{ type: 'suggestion_delete', attrs: { id: 'a' } }],
+            },
+          ],
+        },
+      ],
+    };
+    expect(extractPlainTextFromProsemirrorJSON(json)).toBe('Meet on Monday');
+  });
+
+  it('reads links to other pages as their title', () => {
+    const json = {
+      type: 'doc',
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'See ' },
+            { type: 'page_link', attrs: { pageId: 'abc', title: 'Roadmap' } },
+            { type: 'text', text: ' first' },
+          ],
+        },
+      ],
+    };
+    expect(extractPlainTextFromProsemirrorJSON(json)).toBe('See Roadmap first');
+  });
+});
+
+describe('searchPages', () => {
+  beforeEach(() => {
+    insertPage(db, { id: 'page-1', title: 'Notes', updated_at: 1000 });
+    insertPage(db, { id: 'page-2', title: '議事録', updated_at: 2000 });
+    insertPage(db, {
+      id: 'page-3',
+      title: 'Old',
+      updated_at: 3000,
+      archived_at: 3000,
+    });
+    indexPageText(db, 'page-1', 'Notes\nCall the customer Acme Corp today');
+    indexPageText(db, 'page-2', '議事録\n株式会社サンプルとの打ち合わせ');
+    indexPageText(db, 'page-3', 'Old\nAcme contract archived');
+  });
+
+  it('finds pages whose body contains the term', () => {
+    const results = searchPages(db, 'acme');
+    expect(results.map((r) => r.id).sort()).toEqual(['page-1', 'page-3']);
+  });
+
+  it('includes archived_at so callers can tell archived pages apart', () => {
+    const results = searchPages(db, 'contract');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      id: 'page-3',
+      title: 'Old',
+      archived_at: 3000,
+    });
+  });
+
+  it('matches Japanese text without word boundaries', () => {
+    const results = searchPages(db, 'サンプル');
+    expect(results.map((r) => r.id)).toEqual(['page-2']);
+  });
+
+  it('falls back to LIKE for terms shorter than three characters', () => {
+    const results = searchPages(db, '株式');
+    expect(results.map((r) => r.id)).toEqual(['page-2']);
+  });
+
+  it('falls back to LIKE for short terms of characters outside the BMP', () => {
+    insertPage(db, { id: 'page-4', title: 'Party' });
+    indexPageText(db, 'page-4', 'Party\nBring 🎉🎂 and 𠮷野家');
+
+    expect(searchPages(db, '🎉🎂').map((r) => r.id)).toEqual(['page-4']);
+    expect(searchPages(db, '𠮷野').map((r) => r.id)).toEqual(['page-4']);
+  });
+
+  it('lists active pages before archived ones', () => {
+    for (let i = 0; i < 60; i++) {
+      insertPage(db, { id: `archived-${i}`, archived_at: 5000 + i });
+      indexPageText(db, `archived-${i}`, 'Acme Acme Acme');
+    }
+
+    for (const query of ['acme', 'ac']) {
+      const results = searchPages(db, query);
+      expect(results.slice(0, 1).map((r) => r.id)).toEqual(['page-1']);
+      expect(results.slice(1).every((r) => r.archived_at !== null)).toBe(true);
+    }
+  });
+
+  it('requires every term to match', () => {
+    expect(searchPages(db, 'acme today').map((r) => r.id)).toEqual(['page-1']);
+    expect(searchPages(db, 'acme 株式')).toEqual([]);
+  });
+
+  it('treats FTS and LIKE syntax in the query as plain text', () => {
+    expect(searchPages(db, '"acme" OR')).toEqual([]);
+    expect(searchPages(db, '%')).toEqual([]);
+  });
+
+  it('returns no results for a blank query', () => {
+    expect(searchPages(db, '   ')).toEqual([]);
+  });
+
+  it('replaces the previous text when a page is re-indexed', () => {
+    indexPageText(db, 'page-1', 'Notes\nNothing to see');
+    expect(searchPages(db, 'acme').map((r) => r.id)).toEqual(['page-3']);
+  });
+
+  it('drops the index entry when the page is deleted', () => {
+    deletePage(db, 'page-1');
+    expect(searchPages(db, 'customer')).toEqual([]);
+    const rows = db
+      .prepare('SELECT * FROM page_search WHERE doc_name = ?')
+      .all('page-1');
+    expect(rows).toHaveLength(0);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights every occurrence of the terms', () => {
+    expect(buildSnippet('Acme and acme', ['acme'])).toEqual([
+      { text: 'Acme', match: true },
+      { text: ' and ', match: false },
+      { text: 'acme', match: true },
+    ]);
+  });
+
+  it('trims long text around the first match', () => {
+    const body = `${'a'.repeat(100)} target ${'b'.repeat(100)}`;
+    const snippet = buildSnippet(body, ['target']);
+
+    expect(snippet[0]).toEqual({ text: `…${'a'.repeat(39)} `, match: false });
+    expect(snippet[1]).toEqual({ text: 'target', match: true });
+    expect(snippet[snippet.length - 1].text.endsWith('…')).toBe(true);
+  });
+
+  it('keeps highlights in place when lowercasing changes the length', () => {
+    expect(buildSnippet('İstanbul office: Acme', ['acme'])).toEqual([
+      { text: 'İstanbul office: ', match: false },
+      { text: 'Acme', match: true },
+    ]);
+  });
+
+  it('prefers the longer term where several match', () => {
+    expect(buildSnippet('a meeting', ['meet', 'meeting'])).toEqual([
+      { text: 'a ', match: false },
+      { text: 'meeting', match: true },
+    ]);
+  });
+
+  it('collapses line breaks into spaces', () => {
+    expect(buildSnippet('Title\nbody text', ['body'])).toEqual([
+      { text: 'Title ', match: false },
+      { text: 'body', match: true },
+      { text: ' text', match: false },
+    ]);
+  });
+});
+
+describe('backfillSearchIndex', () => {
+  it('indexes only pages missing from the index', () => {
+    insertPage(db, { id: 'indexed', title: 'Indexed' });
+    insertPage(db, { id: 'missing', title: 'Missing' });
+    indexPageText(db, 'indexed', 'already indexed');
+
+    const loaded: string[] = [];
+    const count = backfillSearchIndex(db, (docName) => {
+      loaded.push(docName);
+      return 'backfilled body';
+    });
+
+    expect(count).toBe(1);
+    expect(loaded).toEqual(['missing']);
+    expect(searchPages(db, 'backfilled').map((r) => r.id)).toEqual(['missing']);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { createTestDb, insertPage } from './helpers/db';
+import {
+  createShare,
+  getShareSecret,
+  listShares,
+  revokeShare,
+  verifyShareToken,
+  type ShareScope,
+} from '../server/page-shares';
+import { deletePage } from '../server/delete-page';
+
+const NOW = 1_700_000_000_000;
+const HOUR = 60 * 60;
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+  insertPage(db, { id: 'page-1' });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function create(scope: ShareScope = 'read', ttlSeconds = HOUR) {
+  const share = createShare(db, 'page-1', { scope, ttlSeconds }, NOW);
+  if (!share) throw new Error('share was not created');
+  return share;
+}
+
+describe('createShare', () => {
+  it('stores the share and returns a token without the page ID', () => {
+    const share = create('write');
+
+    expect(share.expires_at).toBe(NOW + HOUR * 1000);
+    expect(share.token).not.toContain('page-1');
+    expect(share.token.split('.')).toHaveLength(4);
+    expect(listShares(db, 'page-1')).toEqual([
+      {
+        id: share.id,
+        page_id: 'page-1',
+        scope: 'write',
+        created_at: NOW,
+        expires_at: NOW + HOUR * 1000,
+        revoked_at: null,
+      },
+    ]);
+  });
+
+  it('accepts the suggest scope', () => {
+    const share = create('suggest');
+    expect(verifyShareToken(db, share.token, NOW)?.scope).toBe('suggest');
+  });
+
+  it('returns null for a missing page', () => {
+    expect(
+      createShare(db, 'missing', { scope: 'read', ttlSeconds: HOUR }, NOW),
+    ).toBeNull();
+  });
+});
+
+describe('verifyShareToken', () => {
+  it('grants the scope of a valid token', () => {
+    const share = create('read');
+
+    expect(verifyShareToken(db, share.token, NOW + 1000)).toEqual({
+      shareId: share.id,
+      pageId: 'page-1',
+      scope: 'read',
+      expiresAt: share.expires_at,
+    });
+  });
+
+  it('rejects expired tokens', () => {
+    const share = create('read', 60);
+    expect(verifyShareToken(db, share.token, NOW + 60 * 1000)).toBeNull();
+  });
+
+  it('rejects revoked tokens', () => {
+    const share = create('write');
+
+    expect(revokeShare(db, 'page-1', share.id, NOW + 1)).toBe(true);
+    expect(verifyShareToken(db, share.token, NOW + 2)).toBeNull();
+    expect(revokeShare(db, 'page-1', share.id, NOW + 3)).toBe(false);
+  });
+
+  it('rejects tokens whose scope or expiry was changed', () => {
+    const share = create('read');
+    const [id, , expiresAt, signature] = share.token.split('.');
+
+    expect(
+      verifyShareToken(db, `${id}.write.${expiresAt}.${signature}`, NOW),
+    ).toBeNull();
+    expect(
+      verifyShareToken(
+        db,
+        `${id}.read.${Number(expiresAt) + 1}.${signature}`,
+        NOW,
+      ),
+    ).toBeNull();
+    expect(
+      verifyShareToken(db, `${id}.read.${expiresAt}.forged`, NOW),
+    ).toBeNull();
+    expect(verifyShareToken(db, 'not-a-token', NOW)).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const share = create('read');
+    vi.stubEnv('SHARE_TOKEN_SECRET', 'rotated');
+
+    expect(verifyShareToken(db, share.token, NOW)).toBeNull();
+  });
+});
+
+describe('getShareSecret', () => {
+  it('generates the secret once and keeps it in the database', () => {
+    vi.stubEnv('SHARE_TOKEN_SECRET', '');
+    const secret = getShareSecret(db);
+
+    expect(secret.length).toBeGreaterThan(0);
+    expect(getShareSecret(db)).toBe(secret);
+  });
+
+  it('prefers SHARE_TOKEN_SECRET', () => {
+    vi.stubEnv('SHARE_TOKEN_SECRET', 'from-env');
+    expect(getShareSecret(db)).toBe('from-env');
+  });
+});
+
+describe('revokeShare', () => {
+  it('only revokes shares of the given page', () => {
+    insertPage(db, { id: 'page-2' });
+    const share = create();
+
+    expect(revokeShare(db, 'page-2', share.id, NOW)).toBe(false);
+    expect(verifyShareToken(db, share.token, NOW)).not.toBeNull();
+  });
+});
+
+it('deletes shares together with the page', () => {
+  const share = create();
+
+  deletePage(db, 'page-1');
+
+  expect(listShares(db, 'page-1')).toEqual([]);
+  expect(verifyShareToken(db, share.token, NOW)).toBeNull();
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import * as Y from 'yjs';
+import { createTestDb } from './helpers/db';
+import {
+  capturePageSnapshot,
+  createRestoreUpdate,
+  getPageSnapshot,
+  listPageSnapshots,
+  prunePageSnapshots,
+  renderSnapshotContent,
+} from '../server/page-snapshots';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+function appendParagraph(doc: Y.Doc, text: string): void {
+  const fragment = doc.getXmlFragment('prosemirror');
+  const paragraph = new Y.XmlElement('paragraph');
+  paragraph.insert(0, [new Y.XmlText(text)]);
+  fragment.insert(fragment.length, [paragraph]);
+}
+
+describe('capturePageSnapshot', () => {
+  it('stores a snapshot with the extracted title', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'First line');
+
+    const id = capturePageSnapshot(db, 'page-1', doc, 1000);
+    expect(id).not.toBeNull();
+
+    const row = getPageSnapshot(db, 'page-1', id!);
+    expect(row).toMatchObject({
+      doc_name: 'page-1',
+      title: 'First line',
+      created_at: 1000,
+    });
+
+    doc.destroy();
+  });
+
+  it('skips the snapshot when the document is unchanged', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'Same');
+
+    expect(capturePageSnapshot(db, 'page-1', doc, 1000)).not.toBeNull();
+    expect(capturePageSnapshot(db, 'page-1', doc, 2000)).toBeNull();
+
+    appendParagraph(doc, 'Changed');
+    expect(capturePageSnapshot(db, 'page-1', doc, 3000)).not.toBeNull();
+
+    expect(listPageSnapshots(db, 'page-1')).toHaveLength(2);
+
+    doc.destroy();
+  });
+
+  it('takes a snapshot after deletions alone', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'First');
+    appendParagraph(doc, 'Second');
+    capturePageSnapshot(db, 'page-1', doc, 1000);
+
+    // Deleting does not advance the state vector
+    doc.getXmlFragment('prosemirror').delete(1, 1);
+    expect(capturePageSnapshot(db, 'page-1', doc, 2000)).not.toBeNull();
+
+    doc.destroy();
+  });
+});
+
+describe('prunePageSnapshots', () => {
+  const HOUR = 60 * 60 * 1000;
+  const DAY = 24 * HOUR;
+  const NOW = 100 * DAY;
+
+  function insertSnapshots(times: number[]): void {
+    const doc = new Y.Doc();
+    for (const [i, time] of times.entries()) {
+      appendParagraph(doc, `Edit ${i}`);
+      db.prepare(
+        `INSERT INTO page_snapshots (doc_name, title, created_at, snapshot, state)
+         VALUES (?, ?, ?, ?, ?)`,
+      ).run(
+        'page-1',
+        `Edit ${i}`,
+        time,
+        Buffer.from(Y.encodeSnapshot(Y.snapshot(doc))),
+        Buffer.from(Y.encodeStateAsUpdate(doc)),
+      );
+    }
+    doc.destroy();
+  }
+
+  function listTimes(): number[] {
+    return listPageSnapshots(db, 'page-1').map((row) => row.created_at);
+  }
+
+  it('keeps every snapshot of the last day', () => {
+    insertSnapshots([NOW - 3 * HOUR, NOW - 3 * HOUR + 1, NOW - 1]);
+    expect(prunePageSnapshots(db, 'page-1', NOW)).toBe(0);
+    expect(listTimes()).toHaveLength(3);
+  });
+
+  it('keeps the newest snapshot per hour within a week', () => {
+    const hour = NOW - 2 * DAY;
+    insertSnapshots([hour, hour + 10, hour + 20, hour + HOUR]);
+    expect(prunePageSnapshots(db, 'page-1', NOW)).toBe(2);
+    expect(listTimes()).toEqual([hour + HOUR, hour + 20]);
+  });
+
+  it('keeps the newest snapshot per day after a week', () => {
+    const day = NOW - 30 * DAY;
+    insertSnapshots([day, day + HOUR, day + 2 * HOUR, day + DAY]);
+    expect(prunePageSnapshots(db, 'page-1', NOW)).toBe(2);
+    expect(listTimes()).toEqual([day + DAY, day + 2 * HOUR]);
+  });
+
+  it('runs when a snapshot is captured', () => {
+    insertSnapshots([NOW - 30 * DAY, NOW - 30 * DAY + 1]);
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'Now');
+    capturePageSnapshot(db, 'page-1', doc, NOW);
+    expect(listTimes()).toEqual([NOW, NOW - 30 * DAY + 1]);
+    doc.destroy();
+  });
+});
+
+describe('listPageSnapshots', () => {
+  it('returns snapshots of the page, newest first', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'v1');
+    capturePageSnapshot(db, 'page-1', doc, 1000);
+    appendParagraph(doc, 'v2');
+    capturePageSnapshot(db, 'page-1', doc, 2000);
+
+    const other = new Y.Doc();
+    appendParagraph(other, 'other');
+    capturePageSnapshot(db, 'page-2', other, 1500);
+
+    const list = listPageSnapshots(db, 'page-1');
+    expect(list.map((v) => v.created_at)).toEqual([2000, 1000]);
+    expect(Object.keys(list[0]).sort()).toEqual(['created_at', 'id', 'title']);
+
+    doc.destroy();
+    other.destroy();
+  });
+});
+
+describe('getPageSnapshot', () => {
+  it('does not return snapshots of another page', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'Secret');
+    const id = capturePageSnapshot(db, 'page-1', doc);
+
+    expect(getPageSnapshot(db, 'page-2', id!)).toBeUndefined();
+
+    doc.destroy();
+  });
+});
+
+describe('renderSnapshotContent', () => {
+  it('renders the content as it was when the snapshot was taken', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'Before');
+    const id = capturePageSnapshot(db, 'page-1', doc);
+
+    // Wipe the paragraph after the snapshot
+    const fragment = doc.getXmlFragment('prosemirror');
+    fragment.delete(0, fragment.length);
+    appendParagraph(doc, 'After');
+
+    const content = renderSnapshotContent(getPageSnapshot(db, 'page-1', id!)!);
+    expect(content).toEqual({
+      type: 'doc',
+      content: [
+        { type: 'paragraph', content: [{ type: 'text', text: 'Before' }] },
+      ],
+    });
+
+    doc.destroy();
+  });
+});
+
+describe('createRestoreUpdate', () => {
+  function paragraphs(doc: Y.Doc): string[] {
+    return doc
+      .getXmlFragment('prosemirror')
+      .toArray()
+      .map((node) => (node as Y.XmlElement).toArray().join(''));
+  }
+
+  it('restores deleted and removes added content', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'Keep me');
+    appendParagraph(doc, 'Accidentally wiped');
+    const id = capturePageSnapshot(db, 'page-1', doc);
+
+    const fragment = doc.getXmlFragment('prosemirror');
+    fragment.delete(1, 1);
+    appendParagraph(doc, 'Added later');
+    expect(paragraphs(doc)).toEqual(['Keep me', 'Added later']);
+
+    const row = getPageSnapshot(db, 'page-1', id!)!;
+    Y.applyUpdate(doc, createRestoreUpdate(doc, row.state));
+
+    expect(paragraphs(doc)).toEqual(['Keep me', 'Accidentally wiped']);
+
+    doc.destroy();
+  });
+
+  it('reaches connected collaborators as a regular update', () => {
+    const server = new Y.Doc();
+    const client = new Y.Doc();
+    server.on('update', (update: Uint8Array) => Y.applyUpdate(client, update));
+
+    appendParagraph(server, 'Original');
+    const id = capturePageSnapshot(db, 'page-1', server);
+
+    const fragment = server.getXmlFragment('prosemirror');
+    fragment.delete(0, 1);
+    appendParagraph(server, 'Rewritten');
+    expect(paragraphs(client)).toEqual(['Rewritten']);
+
+    const row = getPageSnapshot(db, 'page-1', id!)!;
+    Y.applyUpdate(server, createRestoreUpdate(server, row.state));
+
+    expect(paragraphs(client)).toEqual(['Original']);
+
+    server.destroy();
+    client.destroy();
+  });
+
+  it('keeps history: the restored state can be restored away again', () => {
+    const doc = new Y.Doc();
+    appendParagraph(doc, 'v1');
+    const v1 = capturePageSnapshot(db, 'page-1', doc)!;
+    doc.getXmlFragment('prosemirror').delete(0, 1);
+    appendParagraph(doc, 'v2');
+    const v2 = capturePageSnapshot(db, 'page-1', doc)!;
+
+    const restoreV1 = getPageSnapshot(db, 'page-1', v1)!;
+    Y.applyUpdate(doc, createRestoreUpdate(doc, restoreV1.state));
+    expect(paragraphs(doc)).toEqual(['v1']);
+    expect(capturePageSnapshot(db, 'page-1', doc)).not.toBeNull();
+
+    const restoreV2 = getPageSnapshot(db, 'page-1', v2)!;
+    Y.applyUpdate(doc, createRestoreUpdate(doc, restoreV2.state));
+    expect(paragraphs(doc)).toEqual(['v2']);
+
+    doc.destroy();
+  });
+});
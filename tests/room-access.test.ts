@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import Database from 'better-sqlite3';
+import type { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as syncProtocol from 'y-protocols/sync';
+import { createTestDb, insertPage } from './helpers/db';
+import {
+  dropDocumentUpdates,
+  getRoomAccess,
+  isDocumentUpdateMessage,
+  isSuggestionUpdate,
+  keepSuggestionsOnly,
+  resolveRoom,
+} from '../server/room-access';
+import { createShare, type ShareScope } from '../server/page-shares';
+import { getPageSchema, markdownToYDoc } from '../server/markdown';
+import { SUGGESTION_INSERT } from '../server/suggestion-marks';
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+function syncMessage(write: (encoder: encoding.Encoder) => void) {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  write(encoder);
+  return encoding.toUint8Array(encoder);
+}
+
+function updateMessage(): Uint8Array {
+  const doc = new Y.Doc();
+  doc.getText('test').insert(0, 'x');
+  const update = Y.encodeStateAsUpdate(doc);
+  doc.destroy();
+  return syncMessage((encoder) => syncProtocol.writeUpdate(encoder, update));
+}
+
+describe('getRoomAccess', () => {
+  it('allows editing active pages', () => {
+    insertPage(db, { id: 'active' });
+    expect(getRoomAccess(db, 'active')).toBe('read-write');
+  });
+
+  it('makes archived pages read-only', () => {
+    insertPage(db, { id: 'archived', archived_at: 1000 });
+    expect(getRoomAccess(db, 'archived')).toBe('read-only');
+  });
+
+  it('rejects rooms without a page', () => {
+    expect(getRoomAccess(db, 'missing')).toBeNull();
+    expect(getRoomAccess(db, '')).toBeNull();
+  });
+});
+
+describe('resolveRoom', () => {
+  function shareRoom(pageId: string, scope: ShareScope) {
+    const share = createShare(db, pageId, { scope, ttlSeconds: 60 });
+    return `s/${share!.token}`;
+  }
+
+  it('opens pages by ID', () => {
+    insertPage(db, { id: 'page-1' });
+    expect(resolveRoom(db, 'page-1')).toEqual({
+      docName: 'page-1',
+      access: 'read-write',
+      share: null,
+    });
+  });
+
+  it('maps share links to the page document with their scope', () => {
+    insertPage(db, { id: 'page-1' });
+
+    const write = resolveRoom(db, shareRoom('page-1', 'write'));
+    const suggest = resolveRoom(db, shareRoom('page-1', 'suggest'));
+    const read = resolveRoom(db, shareRoom('page-1', 'read'));
+
+    expect(write).toMatchObject({ docName: 'page-1', access: 'read-write' });
+    expect(suggest).toMatchObject({
+      docName: 'page-1',
+      access: 'suggest-only',
+    });
+    expect(read).toMatchObject({ docName: 'page-1', access: 'read-only' });
+    expect(read?.share?.id).toEqual(expect.any(String));
+  });
+
+  it('keeps archived pages read-only for write links', () => {
+    insertPage(db, { id: 'archived', archived_at: 1000 });
+    expect(resolveRoom(db, shareRoom('archived', 'write'))?.access).toBe(
+      'read-only',
+    );
+    expect(resolveRoom(db, shareRoom('archived', 'suggest'))?.access).toBe(
+      'read-only',
+    );
+  });
+
+  it('rejects invalid share tokens', () => {
+    expect(resolveRoom(db, 's/invalid')).toBeNull();
+  });
+});
+
+describe('isDocumentUpdateMessage', () => {
+  it('detects sync step 2 and update messages', () => {
+    const doc = new Y.Doc();
+    const step2 = syncMessage((encoder) =>
+      syncProtocol.writeSyncStep2(encoder, doc),
+    );
+    doc.destroy();
+
+    expect(isDocumentUpdateMessage(step2)).toBe(true);
+    expect(isDocumentUpdateMessage(updateMessage())).toBe(true);
+  });
+
+  it('lets state requests and awareness messages through', () => {
+    const doc = new Y.Doc();
+    const step1 = syncMessage((encoder) =>
+      syncProtocol.writeSyncStep1(encoder, doc),
+    );
+    doc.destroy();
+    const awareness = encoding.createEncoder();
+    encoding.writeVarUint(awareness, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(awareness, new Uint8Array([0]));
+
+    expect(isDocumentUpdateMessage(step1)).toBe(false);
+    expect(isDocumentUpdateMessage(encoding.toUint8Array(awareness))).toBe(
+      false,
+    );
+  });
+
+  it('treats unreadable messages as updates', () => {
+    expect(isDocumentUpdateMessage(new Uint8Array([]))).toBe(true);
+  });
+});
+
+describe('dropDocumentUpdates', () => {
+  it('filters message listeners registered afterwards', () => {
+    const conn = new EventEmitter() as unknown as WebSocket;
+    dropDocumentUpdates(conn);
+    const onMessage = vi.fn();
+    const onClose = vi.fn();
+    conn.on('message', onMessage);
+    conn.on('close', onClose);
+
+    const doc = new Y.Doc();
+    const step1 = syncMessage((encoder) =>
+      syncProtocol.writeSyncStep1(encoder, doc),
+    );
+    doc.destroy();
+    conn.emit('message', updateMessage());
+    conn.emit('message', step1);
+    conn.emit('close');
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(step1);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('suggestion-only updates', () => {
+  const suggestion = {
+    [SUGGESTION_INSERT]: { id: 's1', author: 'Guest', createdAt: 1 },
+  };
+
+  async function setup() {
+    const server = await markdownToYDoc('Hello\n');
+    const client = new Y.Doc();
+    Y.applyUpdate(client, Y.encodeStateAsUpdate(server));
+    const paragraph = client.getXmlFragment('prosemirror').get(0);
+    const text = (paragraph as Y.XmlElement).get(0) as Y.XmlText;
+    return { server, client, text, schema: await getPageSchema() };
+  }
+
+  function diff(server: Y.Doc, client: Y.Doc): Uint8Array {
+    return Y.encodeStateAsUpdate(client, Y.encodeStateVector(server));
+  }
+
+  it('accepts suggested insertions', async () => {
+    const { server, client, text, schema } = await setup();
+    text.insert(5, ' world', suggestion);
+    expect(isSuggestionUpdate(server, diff(server, client), schema)).toBe(true);
+  });
+
+  it('rejects direct edits', async () => {
+    const { server, client, text, schema } = await setup();
+    text.insert(5, ' world');
+    expect(isSuggestionUpdate(server, diff(server, client), schema)).toBe(
+      false,
+    );
+
+    const formatted = await setup();
+    formatted.text.format(0, 5, { strong: true });
+    expect(
+      isSuggestionUpdate(
+        formatted.server,
+        diff(formatted.server, formatted.client),
+        formatted.schema,
+      ),
+    ).toBe(false);
+  });
+
+  it('rejects updates that wait for missing changes', async () => {
+    const { server, client, text, schema } = await setup();
+    text.insert(5, '!', suggestion);
+    const afterFirst = Y.encodeStateVector(client);
+    text.insert(6, '?', suggestion);
+    const second = Y.encodeStateAsUpdate(client, afterFirst);
+    expect(isSuggestionUpdate(server, second, schema)).toBe(false);
+  });
+
+  it('drops other updates of suggest-only connections', async () => {
+    const { server, client, text, schema } = await setup();
+    const conn = new EventEmitter() as unknown as WebSocket;
+    keepSuggestionsOnly(conn, () => server, schema);
+    const onMessage = vi.fn();
+    conn.on('message', onMessage);
+
+    const message = (update: Uint8Array) =>
+      syncMessage((encoder) => syncProtocol.writeUpdate(encoder, update));
+    text.insert(5, ' world', suggestion);
+    const suggested = message(diff(server, client));
+    text.delete(0, 5);
+    const direct = message(diff(server, client));
+    conn.emit('message', suggested);
+    conn.emit('message', direct);
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(suggested);
+  });
+});
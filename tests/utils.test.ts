@@ -176,6 +176,56 @@ describe('extractTitleFromProsemirrorJSON', () => {
     });
   });
 
+  describe('suggestions', () => {
+    it('leaves out suggested insertions', () => {
+      const json = {
+        type: 'doc',
+        content: [
+          {
+            type: 'heading',
+            attrs: { level: 1 },
+            content: [
+              { type: 'text', text: 'Plan' },
+              {
+                type: 'text',
+                text: ' B',
+                marks: [{ type: 'suggestion_insert', attrs: { id: 'a' } }],
+              },
+              {
+                type: 'text',
+                text: ' A',
+                marks: [{ type: 'suggestion_delete', attrs: { id: 'a' } }],
+              },
+            ],
+          },
+        ],
+      };
+      expect(extractTitleFromProsemirrorJSON(json)).toBe('Plan A');
+    });
+  });
+
+  describe('page links', () => {
+    it('uses the title stored in a link', () => {
+      const json = {
+        type: 'doc',
+        content: [
+          {
+            type: 'heading',
+            attrs: { level: 1 },
+            content: [
+              { type: 'text', text: 'Notes on ' },
+              {
+                type: 'page_link',
+                attrs: { pageId: 'abc123', title: 'Roadmap' },
+              },
+            ],
+          },
+        ],
+      };
+      expect(extractTitleFromProsemirrorJSON(json)).toBe('Notes on Roadmap');
+    });
+  });
+
   describe('special characters', () => {
     it('handles unicode characters', () => {
       const json = {
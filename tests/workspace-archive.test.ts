@@ -0,0 +1,398 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import * as Y from 'yjs';
+import { createTestDb, insertPage } from './helpers/db';
+import {
+  exportWorkspace,
+  importWorkspace,
+  InvalidWorkspaceArchiveError,
+  type WorkspaceManifest,
+} from '../server/workspace-archive';
+import {
+  createAttachment,
+  getAttachment,
+  getAttachmentUrl,
+} from '../server/attachments';
+import { importMarkdownPage } from '../server/import-markdown';
+import { yDocToMarkdown } from '../server/markdown';
+import { listBacklinks } from '../server/page-links';
+import { searchPages } from '../server/page-search';
+import { YjsSqlitePersistence } from '../server/yjs-sqlite-persistence';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = createTestDb();
+});
+
+function readManifest(archive: Uint8Array): WorkspaceManifest {
+  return JSON.parse(strFromU8(unzipSync(archive)['manifest.json']));
+}
+
+async function pageMarkdown(
+  target: Database.Database,
+  id: string,
+): Promise<string> {
+  const ydoc = new YjsSqlitePersistence(target).getYDoc(id);
+  try {
+    return await yDocToMarkdown(ydoc);
+  } finally {
+    ydoc.destroy();
+  }
+}
+
+let nextId = 0;
+const createId = () => `Generated${String(++nextId).padStart(3, '0')}`;
+
+describe('exportWorkspace', () => {
+  beforeEach(async () => {
+    await importMarkdownPage(db, 'FirstPage001', '# First\n\nHello\n', 1000);
+    await importMarkdownPage(db, 'SecondPage01', '# Second\n', 2000);
+    db.prepare('UPDATE pages SET archived_at = 3000 WHERE id = ?').run(
+      'SecondPage01',
+    );
+  });
+
+  it('writes one Markdown file per page and a manifest', async () => {
+    const archive = await exportWorkspace(db, {}, 5000);
+    const files = unzipSync(archive);
+
+    expect(Object.keys(files).sort()).toEqual([
+      'FirstPage001.md',
+      'SecondPage01.md',
+      'manifest.json',
+    ]);
+    expect(strFromU8(files['FirstPage001.md'])).toBe('# First\n\nHello\n');
+
+    const manifest = readManifest(archive);
+    expect(manifest).toMatchObject({ version: 1, exported_at: 5000 });
+    expect(manifest.pages).toEqual([
+      {
+        id: 'FirstPage001',
+        title: 'First',
+        created_at: 1000,
+        updated_at: 1000,
+        archived_at: null,
+        markdown: 'FirstPage001.md',
+        attachments: [],
+      },
+      {
+        id: 'SecondPage01',
+        title: 'Second',
+        created_at: 2000,
+        updated_at: 2000,
+        archived_at: 3000,
+        markdown: 'SecondPage01.md',
+        attachments: [],
+      },
+    ]);
+  });
+
+  it('includes the raw Yjs state when requested', async () => {
+    const archive = await exportWorkspace(db, { includeYjsState: true });
+    const files = unzipSync(archive);
+
+    expect(readManifest(archive).pages[0].yjs_state).toBe(
+      'yjs/FirstPage001.bin',
+    );
+    const ydoc = new Y.Doc();
+    Y.applyUpdate(ydoc, files['yjs/FirstPage001.bin']);
+    expect(ydoc.getXmlFragment('prosemirror').length).toBe(2);
+    ydoc.destroy();
+  });
+
+  it('exports pages without any stored content', async () => {
+    insertPage(db, { id: 'empty', title: 'Untitled', created_at: 4000 });
+
+    const files = unzipSync(await exportWorkspace(db));
+    expect(strFromU8(files['empty.md'])).toBe('');
+  });
+});
+
+describe('importWorkspace', () => {
+  let archive: Uint8Array;
+
+  beforeEach(async () => {
+    const source = createTestDb();
+    await importMarkdownPage(source, 'FirstPage001', '# First\n\nAcme\n', 1000);
+    await importMarkdownPage(source, 'SecondPage01', '# Second\n', 2000);
+    source
+      .prepare('UPDATE pages SET archived_at = 3000 WHERE id = ?')
+      .run('SecondPage01');
+    archive = await exportWorkspace(source, { includeYjsState: true });
+  });
+
+  it('recreates pages with their IDs and metadata', async () => {
+    const pages = await importWorkspace(db, archive, createId);
+
+    expect(pages).toEqual([
+      { id: 'FirstPage001', original_id: 'FirstPage001', title: 'First' },
+      { id: 'SecondPage01', original_id: 'SecondPage01', title: 'Second' },
+    ]);
+    expect(
+      db.prepare('SELECT * FROM pages WHERE id = ?').get('SecondPage01'),
+    ).toEqual({
+      id: 'SecondPage01',
+      title: 'Second',
+      created_at: 2000,
+      updated_at: 2000,
+      archived_at: 3000,
+    });
+    expect(await pageMarkdown(db, 'FirstPage001')).toBe('# First\n\nAcme\n');
+    expect(searchPages(db, 'Acme').map((r) => r.id)).toEqual(['FirstPage001']);
+  });
+
+  it('imports under a new ID when the ID is already taken', async () => {
+    insertPage(db, { id: 'FirstPage001', title: 'Existing' });
+
+    const pages = await importWorkspace(db, archive, createId);
+
+    expect(pages[0].original_id).toBe('FirstPage001');
+    expect(pages[0].id).toMatch(/^Generated/);
+    expect(pages[1].id).toBe('SecondPage01');
+    expect(
+      db.prepare('SELECT title FROM pages WHERE id = ?').get('FirstPage001'),
+    ).toEqual({ title: 'Existing' });
+    expect(await pageMarkdown(db, pages[0].id)).toBe('# First\n\nAcme\n');
+  });
+
+  it('imports IDs the app does not generate under new IDs', async () => {
+    const files = unzipSync(archive);
+    const manifest = readManifest(archive);
+    manifest.pages[0].id = 's/FirstPage001';
+    manifest.pages[1].id = 'Second/Page';
+
+    const pages = await importWorkspace(
+      db,
+      zipSync({ ...files, 'manifest.json': strToU8(JSON.stringify(manifest)) }),
+      createId,
+    );
+
+    expect(pages.map((page) => page.original_id)).toEqual([
+      's/FirstPage001',
+      'Second/Page',
+    ]);
+    expect(pages.map((page) => page.id)).toEqual([
+      expect.stringMatching(/^Generated/),
+      expect.stringMatching(/^Generated/),
+    ]);
+  });
+
+  it('falls back to the Markdown files without Yjs state', async () => {
+    const files = unzipSync(archive);
+    const manifest = readManifest(archive);
+    manifest.pages.forEach((page) => delete page.yjs_state);
+
+    const markdownOnly = zipSync({
+      'manifest.json': strToU8(JSON.stringify(manifest)),
+      'FirstPage001.md': files['FirstPage001.md'],
+      'SecondPage01.md': files['SecondPage01.md'],
+    });
+    await importWorkspace(db, markdownOnly, createId);
+
+    expect(await pageMarkdown(db, 'FirstPage001')).toBe('# First\n\nAcme\n');
+  });
+
+  it('rejects data that is not a zip archive', async () => {
+    await expect(
+      importWorkspace(db, strToU8('not a zip'), createId),
+    ).rejects.toThrow(InvalidWorkspaceArchiveError);
+  });
+
+  it('rejects archives without a valid manifest', async () => {
+    await expect(
+      importWorkspace(db, zipSync({ 'page.md': strToU8('# x') }), createId),
+    ).rejects.toThrow('manifest.json is missing');
+
+    const malformed = zipSync({
+      'manifest.json': strToU8(JSON.stringify({ version: 1, pages: [{}] })),
+    });
+    await expect(importWorkspace(db, malformed, createId)).rejects.toThrow(
+      'manifest.json is malformed',
+    );
+  });
+
+  it('writes nothing when a page file is missing', async () => {
+    const manifest = readManifest(archive);
+    manifest.pages.forEach((page) => delete page.yjs_state);
+    const incomplete = zipSync({
+      'manifest.json': strToU8(JSON.stringify(manifest)),
+      'FirstPage001.md': strToU8('# First\n'),
+    });
+
+    await expect(importWorkspace(db, incomplete, createId)).rejects.toThrow(
+      'SecondPage01.md is missing',
+    );
+    expect(db.prepare('SELECT * FROM pages').all()).toEqual([]);
+  });
+});
+
+describe('importWorkspace with links', () => {
+  const LINKING = 'LinkingPage1';
+  const TARGET = 'TargetPage01';
+
+  async function exportLinkedPages(): Promise<Uint8Array> {
+    const source = createTestDb();
+    insertPage(source, { id: TARGET, title: 'Target' });
+    insertPage(source, { id: LINKING, title: 'Linking' });
+
+    const ydoc = new Y.Doc();
+    const paragraph = new Y.XmlElement('paragraph');
+    const link = new Y.XmlElement('page_link');
+    link.setAttribute('pageId', TARGET);
+    link.setAttribute('title', 'Target');
+    const text = new Y.XmlText();
+    text.insert(0, 'again', {
+      link: { href: `https://board.example/p/${TARGET}#top`, title: null },
+    });
+    paragraph.insert(0, [link, text]);
+    ydoc.getXmlFragment('prosemirror').insert(0, [paragraph]);
+    new YjsSqlitePersistence(source).storeUpdate(
+      LINKING,
+      Y.encodeStateAsUpdate(ydoc),
+    );
+    ydoc.destroy();
+
+    return exportWorkspace(source, { includeYjsState: true });
+  }
+
+  it('points links at pages imported under a new ID', async () => {
+    insertPage(db, { id: TARGET, title: 'Unrelated' });
+
+    const pages = await importWorkspace(
+      db,
+      await exportLinkedPages(),
+      createId,
+    );
+    const newTarget = pages.find((page) => page.original_id === TARGET)!.id;
+    expect(newTarget).not.toBe(TARGET);
+
+    expect(await pageMarkdown(db, LINKING)).toBe(
+      `[Target](/p/${newTarget})[again](https://board.example/p/${newTarget}#top)\n`,
+    );
+    expect(listBacklinks(db, newTarget).map((page) => page.id)).toEqual([
+      LINKING,
+    ]);
+    expect(listBacklinks(db, TARGET)).toEqual([]);
+  });
+
+  it('leaves links alone when IDs are kept', async () => {
+    await importWorkspace(db, await exportLinkedPages(), createId);
+    expect(await pageMarkdown(db, LINKING)).toBe(
+      `[Target](/p/${TARGET})[again](https://board.example/p/${TARGET}#top)\n`,
+    );
+  });
+});
+
+describe('workspace archives with attachments', () => {
+  const PAGE = 'ImagePage001';
+  const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+  let attachmentId: string;
+  let archive: Uint8Array;
+
+  beforeEach(async () => {
+    const source = createTestDb();
+    insertPage(source, { id: PAGE, title: 'Untitled' });
+    attachmentId = createAttachment(source, PAGE, 'image/png', PNG)!.id;
+    await importMarkdownPage(
+      source,
+      'OtherPage001',
+      `![photo](${getAttachmentUrl(attachmentId)})\n`,
+    );
+    archive = await exportWorkspace(source);
+  });
+
+  it('adds the attachments of each page to the archive', () => {
+    const files = unzipSync(archive);
+    expect(
+      Buffer.compare(Buffer.from(files[`attachments/${attachmentId}`]), PNG),
+    ).toBe(0);
+    expect(
+      readManifest(archive).pages.find((page) => page.id === PAGE)?.attachments,
+    ).toEqual([
+      {
+        id: attachmentId,
+        content_type: 'image/png',
+        created_at: expect.any(Number),
+        file: `attachments/${attachmentId}`,
+      },
+    ]);
+  });
+
+  it('restores attachments with their IDs', async () => {
+    await importWorkspace(db, archive, createId);
+
+    const attachment = getAttachment(db, attachmentId)!;
+    expect(attachment.page_id).toBe(PAGE);
+    expect(attachment.content_type).toBe('image/png');
+    expect(Buffer.compare(attachment.data, PNG)).toBe(0);
+    expect(await pageMarkdown(db, 'OtherPage001')).toBe(
+      `![photo](${getAttachmentUrl(attachmentId)})\n`,
+    );
+  });
+
+  it('points images at attachments imported under a new ID', async () => {
+    await importWorkspace(db, archive, createId);
+    const pages = await importWorkspace(db, archive, createId);
+
+    const newPage = pages.find((page) => page.original_id === PAGE)!.id;
+    const [copy] = db
+      .prepare('SELECT id FROM attachments WHERE page_id = ?')
+      .all(newPage) as Array<{ id: string }>;
+    expect(copy.id).not.toBe(attachmentId);
+    expect(getAttachment(db, attachmentId)?.page_id).toBe(PAGE);
+
+    const newOther = pages.find(
+      (page) => page.original_id === 'OtherPage001',
+    )!.id;
+    expect(await pageMarkdown(db, newOther)).toBe(
+      `![photo](${getAttachmentUrl(copy.id)})\n`,
+    );
+  });
+
+  it('imports archives exported without attachments', async () => {
+    const manifest = readManifest(archive);
+    manifest.pages.forEach((page) => delete page.attachments);
+
+    await importWorkspace(
+      db,
+      zipSync({
+        ...unzipSync(archive),
+        'manifest.json': strToU8(JSON.stringify(manifest)),
+      }),
+      createId,
+    );
+    expect(getAttachment(db, attachmentId)).toBeUndefined();
+  });
+
+  it('writes nothing when an attachment file is missing', async () => {
+    const files = unzipSync(archive);
+    delete files[`attachments/${attachmentId}`];
+
+    await expect(importWorkspace(db, zipSync(files), createId)).rejects.toThrow(
+      `attachments/${attachmentId} is missing`,
+    );
+    expect(db.prepare('SELECT * FROM pages').all()).toEqual([]);
+  });
+
+  it('rejects attachments of unsupported types', async () => {
+    const manifest = readManifest(archive);
+    manifest.pages.forEach((page) =>
+      page.attachments?.forEach((attachment) => {
+        attachment.content_type = 'image/svg+xml';
+      }),
+    );
+
+    await expect(
+      importWorkspace(
+        db,
+        zipSync({
+          ...unzipSync(archive),
+          'manifest.json': strToU8(JSON.stringify(manifest)),
+        }),
+        createId,
+      ),
+    ).rejects.toThrow(InvalidWorkspaceArchiveError);
+  });
+});